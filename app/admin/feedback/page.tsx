@@ -0,0 +1,247 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { apiFetch } from "@/lib/ai/api-client";
+import type { Feedback, FeedbackStatus } from "@/lib/ai/feedback";
+
+const STATUS_STYLES: Record<FeedbackStatus, string> = {
+  open: "bg-amber-100 text-amber-700 dark:bg-amber-900/40 dark:text-amber-300",
+  promoted: "bg-green-100 text-green-700 dark:bg-green-900/40 dark:text-green-300",
+  dismissed: "bg-zinc-200 text-zinc-600 dark:bg-zinc-800 dark:text-zinc-400",
+};
+
+export default function FeedbackPage() {
+  const [feedback, setFeedback] = useState<Feedback[]>([]);
+  const [selected, setSelected] = useState<Feedback | null>(null);
+  // Negative ratings waiting for review, unless the filters say otherwise
+  const [rating, setRating] = useState("down");
+  const [status, setStatus] = useState("open");
+  // The curated entry as the reviewer edits it
+  const [question, setQuestion] = useState("");
+  const [answer, setAnswer] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadFeedback = useCallback(async () => {
+    const params = new URLSearchParams({ limit: "200" });
+    if (rating) params.set("rating", rating);
+    if (status) params.set("status", status);
+
+    const response = await apiFetch(`/api/admin/feedback?${params}`);
+    const data = await response.json();
+    if (!response.ok) {
+      setError(data.error ?? "Could not load feedback");
+      return;
+    }
+    setError(null);
+    setFeedback(data.feedback);
+  }, [rating, status]);
+
+  useEffect(() => {
+    loadFeedback();
+  }, [loadFeedback]);
+
+  const select = (entry: Feedback) => {
+    setSelected(entry);
+    setQuestion(entry.curated?.question ?? entry.question);
+    setAnswer(entry.curated?.answer ?? entry.correction ?? entry.answer);
+  };
+
+  // Run a review action and show its result
+  const review = async (path: string, method: string, body: object) => {
+    setIsSaving(true);
+    try {
+      const response = await apiFetch(path, {
+        method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        setError(data.error ?? "Could not save the review");
+        return;
+      }
+      setError(null);
+      select(data);
+      loadFeedback();
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="flex h-screen bg-zinc-50 dark:bg-zinc-950">
+      {/* Feedback list */}
+      <aside className="flex w-96 shrink-0 flex-col border-r border-zinc-200 bg-white dark:border-zinc-800 dark:bg-zinc-950">
+        <div className="space-y-2 border-b border-zinc-200 p-3 dark:border-zinc-800">
+          <h1 className="text-lg font-semibold text-zinc-900 dark:text-zinc-100">Answer feedback</h1>
+          <div className="flex gap-2">
+            <select
+              value={rating}
+              onChange={(e) => setRating(e.target.value)}
+              className="flex-1 rounded-lg border border-zinc-300 px-2 py-1.5 text-sm dark:border-zinc-700 dark:bg-zinc-900"
+            >
+              <option value="down">Thumbs down</option>
+              <option value="up">Thumbs up</option>
+              <option value="">All ratings</option>
+            </select>
+            <select
+              value={status}
+              onChange={(e) => setStatus(e.target.value)}
+              className="flex-1 rounded-lg border border-zinc-300 px-2 py-1.5 text-sm dark:border-zinc-700 dark:bg-zinc-900"
+            >
+              <option value="open">Open</option>
+              <option value="promoted">Promoted</option>
+              <option value="dismissed">Dismissed</option>
+              <option value="">All</option>
+            </select>
+          </div>
+        </div>
+        <nav className="flex-1 overflow-y-auto">
+          {feedback.length === 0 && <p className="p-4 text-sm text-zinc-500">No feedback.</p>}
+          {feedback.map((entry) => (
+            <button
+              key={entry.id}
+              type="button"
+              onClick={() => select(entry)}
+              className={`block w-full border-b border-zinc-100 px-3 py-2 text-left text-sm dark:border-zinc-900 ${
+                selected?.id === entry.id ? "bg-zinc-100 dark:bg-zinc-800" : "hover:bg-zinc-50 dark:hover:bg-zinc-900"
+              }`}
+            >
+              <div className="flex items-center gap-2 text-xs text-zinc-500">
+                <span className={`rounded px-1.5 ${STATUS_STYLES[entry.status]}`}>{entry.status}</span>
+                <span>{entry.rating === "up" ? "👍" : "👎"}</span>
+                <span>{new Date(entry.createdAt).toLocaleString()}</span>
+              </div>
+              <p className="mt-1 truncate text-zinc-900 dark:text-zinc-100">{entry.question}</p>
+              <p className="text-xs text-zinc-400">
+                {entry.model ?? "-"}
+                {entry.correction ? " · has correction" : ""}
+              </p>
+            </button>
+          ))}
+        </nav>
+      </aside>
+
+      {/* Review */}
+      <main className="flex-1 overflow-y-auto p-6">
+        {error && <p className="mb-4 text-sm text-red-600">{error}</p>}
+        {!selected ? (
+          <p className="text-sm text-zinc-500">Select feedback to review the answer and the user&apos;s correction.</p>
+        ) : (
+          <div className="mx-auto max-w-4xl space-y-6">
+            <section className="space-y-1">
+              <h2 className="text-lg font-semibold text-zinc-900 dark:text-zinc-100">{selected.question}</h2>
+              <p className="text-xs text-zinc-500">
+                {selected.rating === "up" ? "👍" : "👎"} · {new Date(selected.createdAt).toLocaleString()} ·{" "}
+                {selected.model ?? "unknown model"}
+                {selected.sessionId ? ` · session ${selected.sessionId}` : ""}
+                {selected.caseId ? ` · case ${selected.caseId}` : ""}
+              </p>
+              {selected.traceId && (
+                <a
+                  href={`/admin/traces?id=${selected.traceId}`}
+                  className="text-xs text-blue-600 hover:underline dark:text-blue-400"
+                >
+                  Open trace {selected.traceId}
+                </a>
+              )}
+            </section>
+
+            <section>
+              <h3 className="mb-2 text-sm font-medium text-zinc-500">Answer given</h3>
+              <p className="whitespace-pre-wrap rounded-lg border border-zinc-200 bg-white p-3 text-sm dark:border-zinc-700 dark:bg-zinc-900">
+                {selected.answer}
+              </p>
+            </section>
+
+            <section>
+              <h3 className="mb-2 text-sm font-medium text-zinc-500">User&apos;s correction</h3>
+              <p className="whitespace-pre-wrap rounded-lg border border-amber-200 bg-amber-50 p-3 text-sm dark:border-amber-900 dark:bg-amber-950">
+                {selected.correction ?? "(none)"}
+              </p>
+            </section>
+
+            {selected.sources.length > 0 && (
+              <details className="text-sm">
+                <summary className="cursor-pointer text-zinc-500">Sources ({selected.sources.length})</summary>
+                <div className="mt-2 space-y-2">
+                  {selected.sources.map((source) => (
+                    <div key={source.id} className="rounded bg-zinc-100 p-2 text-xs dark:bg-zinc-900">
+                      <p className="mb-1 font-medium">
+                        [{source.id}] {source.fileName}
+                        {source.pageNumber ? `, p. ${source.pageNumber}` : ""}
+                        {source.cited ? "" : " (not cited)"}
+                      </p>
+                      <p className="whitespace-pre-wrap">{source.content}</p>
+                    </div>
+                  ))}
+                </div>
+              </details>
+            )}
+
+            <section className="space-y-2">
+              <h3 className="text-sm font-medium text-zinc-500">
+                Curated Q&amp;A entry
+                {selected.curated && ` (promoted ${new Date(selected.curated.promotedAt).toLocaleString()})`}
+              </h3>
+              <input
+                value={question}
+                onChange={(e) => setQuestion(e.target.value)}
+                className="w-full rounded-lg border border-zinc-300 px-3 py-1.5 text-sm dark:border-zinc-700 dark:bg-zinc-900"
+              />
+              <textarea
+                value={answer}
+                onChange={(e) => setAnswer(e.target.value)}
+                rows={8}
+                className="w-full rounded-lg border border-zinc-300 px-3 py-1.5 text-sm dark:border-zinc-700 dark:bg-zinc-900"
+              />
+              {selected.caseId ? (
+                <p className="text-xs text-zinc-500">
+                  This answer searched the documents of case {selected.caseId}, so it cannot be promoted to the shared
+                  curated Q&amp;A.
+                </p>
+              ) : (
+                <p className="text-xs text-zinc-500">
+                  Promoted entries are written to the curated Q&amp;A document and indexed by the next{" "}
+                  <code>pnpm seed-kb</code>.
+                </p>
+              )}
+              <div className="flex gap-2">
+                <button
+                  type="button"
+                  onClick={() =>
+                    review(`/api/admin/feedback/${selected.id}/promote`, "POST", { question, answer })
+                  }
+                  disabled={isSaving || !!selected.caseId || !question.trim() || !answer.trim()}
+                  className="rounded-lg bg-blue-600 px-3 py-1.5 text-sm font-medium text-white hover:bg-blue-700 disabled:opacity-50"
+                >
+                  {selected.status === "promoted" ? "Update curated answer" : "Promote to curated Q&A"}
+                </button>
+                {selected.status === "open" ? (
+                  <button
+                    type="button"
+                    onClick={() => review(`/api/admin/feedback/${selected.id}`, "PATCH", { status: "dismissed" })}
+                    disabled={isSaving}
+                    className="rounded-lg border border-zinc-300 px-3 py-1.5 text-sm hover:bg-zinc-100 disabled:opacity-50 dark:border-zinc-700 dark:hover:bg-zinc-800"
+                  >
+                    Dismiss
+                  </button>
+                ) : (
+                  <button
+                    type="button"
+                    onClick={() => review(`/api/admin/feedback/${selected.id}`, "PATCH", { status: "open" })}
+                    disabled={isSaving}
+                    className="rounded-lg border border-zinc-300 px-3 py-1.5 text-sm hover:bg-zinc-100 disabled:opacity-50 dark:border-zinc-700 dark:hover:bg-zinc-800"
+                  >
+                    {selected.status === "promoted" ? "Remove from curated Q&A" : "Reopen"}
+                  </button>
+                )}
+              </div>
+            </section>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,358 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { apiFetch } from "@/lib/ai/api-client";
+import type { TraceRecord, TraceSpan, TraceStatus, TraceSummary } from "@/lib/ai/tracing";
+
+// A replayed request's answer, and the trace it produced
+interface ReplayResult {
+  content: string;
+  model: string;
+  traceId?: string;
+}
+
+interface RetrievalResult {
+  rank: number;
+  chunkId: string;
+  fileName: string;
+  pageNumber?: number;
+  score?: number;
+}
+
+interface PromptMessage {
+  role: string;
+  content: string;
+}
+
+const STATUS_STYLES: Record<TraceStatus, string> = {
+  ok: "bg-green-100 text-green-700 dark:bg-green-900/40 dark:text-green-300",
+  error: "bg-red-100 text-red-700 dark:bg-red-900/40 dark:text-red-300",
+  cancelled: "bg-zinc-200 text-zinc-600 dark:bg-zinc-800 dark:text-zinc-400",
+};
+
+function formatTokens(usage: TraceSummary["usage"]): string {
+  return usage ? `${usage.inputTokens ?? 0} in / ${usage.outputTokens ?? 0} out` : "-";
+}
+
+// What a span recorded, shown in the most readable form for its kind
+function SpanDetails({ span }: { span: TraceSpan }) {
+  const { attributes } = span;
+  const pre = "whitespace-pre-wrap break-words rounded bg-zinc-50 p-2 text-xs dark:bg-zinc-900";
+
+  if (span.name === "retrieval" && Array.isArray(attributes.results)) {
+    const { results, ...rest } = attributes;
+    return (
+      <div className="space-y-2">
+        <pre className={pre}>{JSON.stringify(rest, null, 2)}</pre>
+        <table className="w-full text-left text-xs">
+          <thead className="text-zinc-500">
+            <tr>
+              <th className="pr-2">#</th>
+              <th className="pr-2">Source</th>
+              <th className="pr-2">Chunk</th>
+              <th className="text-right">Score</th>
+            </tr>
+          </thead>
+          <tbody>
+            {(results as RetrievalResult[]).map((result) => (
+              <tr key={`${result.rank}-${result.chunkId}`} className="border-t border-zinc-100 dark:border-zinc-800">
+                <td className="pr-2">{result.rank}</td>
+                <td className="pr-2">
+                  {result.fileName}
+                  {result.pageNumber ? `, p. ${result.pageNumber}` : ""}
+                </td>
+                <td className="pr-2 font-mono">{result.chunkId}</td>
+                <td className="text-right font-mono">{result.score?.toFixed(4) ?? "-"}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    );
+  }
+
+  if (span.name === "prompt" && Array.isArray(attributes.messages)) {
+    return (
+      <div className="space-y-2">
+        {(attributes.messages as PromptMessage[]).map((message, i) => (
+          <div key={i}>
+            <p className="text-xs font-medium text-zinc-500">{message.role}</p>
+            <pre className={pre}>{typeof message.content === "string" ? message.content : JSON.stringify(message.content, null, 2)}</pre>
+          </div>
+        ))}
+      </div>
+    );
+  }
+
+  if (span.name === "generation") {
+    const { text, system, ...rest } = attributes;
+    return (
+      <div className="space-y-2">
+        <pre className={pre}>{JSON.stringify(rest, null, 2)}</pre>
+        {typeof text === "string" && <pre className={pre}>{text}</pre>}
+        <details>
+          <summary className="cursor-pointer text-xs text-zinc-500">System prompt</summary>
+          <pre className={pre}>{String(system)}</pre>
+        </details>
+      </div>
+    );
+  }
+
+  return <pre className={pre}>{JSON.stringify(attributes, null, 2)}</pre>;
+}
+
+// Spans on a timeline scaled to the whole request
+function SpanTimeline({ trace }: { trace: TraceRecord }) {
+  const [open, setOpen] = useState<number | null>(null);
+  const total = Math.max(trace.durationMs, 1);
+
+  return (
+    <div className="space-y-1">
+      {trace.spans.map((span, i) => (
+        <div key={i}>
+          <button
+            type="button"
+            onClick={() => setOpen(open === i ? null : i)}
+            className="flex w-full items-center gap-3 rounded px-2 py-1 text-left text-sm hover:bg-zinc-100 dark:hover:bg-zinc-800"
+          >
+            <span className={`w-28 shrink-0 ${span.error ? "text-red-600" : ""}`}>{span.name}</span>
+            <span className="relative h-2 flex-1 rounded bg-zinc-100 dark:bg-zinc-800">
+              <span
+                className={`absolute h-2 rounded ${span.error ? "bg-red-500" : "bg-blue-500"}`}
+                style={{
+                  left: `${(span.startMs / total) * 100}%`,
+                  width: `${Math.max((span.durationMs / total) * 100, 0.5)}%`,
+                }}
+              />
+            </span>
+            <span className="w-20 shrink-0 text-right font-mono text-xs text-zinc-500">{span.durationMs} ms</span>
+          </button>
+          {open === i && (
+            <div className="mb-2 ml-2 border-l-2 border-zinc-200 pl-3 dark:border-zinc-700">
+              {span.error && <p className="mb-2 text-xs text-red-600">{span.error}</p>}
+              <SpanDetails span={span} />
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export default function TracesPage() {
+  const [traces, setTraces] = useState<TraceSummary[]>([]);
+  const [selected, setSelected] = useState<TraceRecord | null>(null);
+  // The search box, and the search applied on submit
+  const [text, setText] = useState("");
+  const [query, setQuery] = useState("");
+  const [status, setStatus] = useState("");
+  const [replay, setReplay] = useState<ReplayResult | null>(null);
+  const [isReplaying, setIsReplaying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadTraces = useCallback(async () => {
+    const params = new URLSearchParams({ limit: "100" });
+    if (query) params.set("q", query);
+    if (status) params.set("status", status);
+
+    const response = await apiFetch(`/api/admin/traces?${params}`);
+    const data = await response.json();
+    if (!response.ok) {
+      setError(data.error ?? "Could not load traces");
+      return;
+    }
+    setError(null);
+    setTraces(data.traces);
+  }, [query, status]);
+
+  useEffect(() => {
+    loadTraces();
+  }, [loadTraces]);
+
+  const openTrace = useCallback(async (id: string) => {
+    const response = await apiFetch(`/api/admin/traces/${id}`);
+    const data = await response.json();
+    if (!response.ok) {
+      setError(data.error ?? "Could not load the trace");
+      return;
+    }
+    setError(null);
+    setReplay(null);
+    setSelected(data);
+  }, []);
+
+  // Open the trace named in the URL (/admin/traces?id=...), e.g. from feedback
+  useEffect(() => {
+    const id = new URLSearchParams(window.location.search).get("id");
+    if (id) openTrace(id);
+  }, [openTrace]);
+
+  const replayTrace = async (trace: TraceRecord) => {
+    setIsReplaying(true);
+    setReplay(null);
+    try {
+      const response = await apiFetch(`/api/admin/traces/${trace.id}/replay`, { method: "POST" });
+      const data = await response.json();
+      if (!response.ok) {
+        setError(data.error ?? "Replay failed");
+        return;
+      }
+      setError(null);
+      setReplay({ content: data.content, model: data.model, traceId: data.traceId });
+      loadTraces();
+    } finally {
+      setIsReplaying(false);
+    }
+  };
+
+  return (
+    <div className="flex h-screen bg-zinc-50 dark:bg-zinc-950">
+      {/* Trace list */}
+      <aside className="flex w-96 shrink-0 flex-col border-r border-zinc-200 bg-white dark:border-zinc-800 dark:bg-zinc-950">
+        <div className="space-y-2 border-b border-zinc-200 p-3 dark:border-zinc-800">
+          <h1 className="text-lg font-semibold text-zinc-900 dark:text-zinc-100">Request traces</h1>
+          <form
+            className="flex gap-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              setQuery(text.trim());
+            }}
+          >
+            <input
+              value={text}
+              onChange={(e) => setText(e.target.value)}
+              placeholder="Search questions and answers"
+              className="min-w-0 flex-1 rounded-lg border border-zinc-300 px-3 py-1.5 text-sm dark:border-zinc-700 dark:bg-zinc-900"
+            />
+            <select
+              value={status}
+              onChange={(e) => setStatus(e.target.value)}
+              className="rounded-lg border border-zinc-300 px-2 py-1.5 text-sm dark:border-zinc-700 dark:bg-zinc-900"
+            >
+              <option value="">All</option>
+              <option value="ok">OK</option>
+              <option value="error">Error</option>
+              <option value="cancelled">Cancelled</option>
+            </select>
+          </form>
+        </div>
+        <nav className="flex-1 overflow-y-auto">
+          {traces.length === 0 && <p className="p-4 text-sm text-zinc-500">No traces.</p>}
+          {traces.map((trace) => (
+            <button
+              key={trace.id}
+              type="button"
+              onClick={() => openTrace(trace.id)}
+              className={`block w-full border-b border-zinc-100 px-3 py-2 text-left text-sm dark:border-zinc-900 ${
+                selected?.id === trace.id ? "bg-zinc-100 dark:bg-zinc-800" : "hover:bg-zinc-50 dark:hover:bg-zinc-900"
+              }`}
+            >
+              <div className="flex items-center gap-2 text-xs text-zinc-500">
+                <span className={`rounded px-1.5 ${STATUS_STYLES[trace.status]}`}>{trace.status}</span>
+                <span>{new Date(trace.startedAt).toLocaleString()}</span>
+                <span className="ml-auto font-mono">{trace.durationMs} ms</span>
+              </div>
+              <p className="mt-1 truncate text-zinc-900 dark:text-zinc-100">{trace.question ?? trace.route}</p>
+              <p className="text-xs text-zinc-400">
+                {trace.model ?? "-"}
+                {trace.cached ? ` · cached (${trace.cached})` : ""}
+                {trace.replayOf ? " · replay" : ""}
+              </p>
+            </button>
+          ))}
+        </nav>
+      </aside>
+
+      {/* Trace detail */}
+      <main className="flex-1 overflow-y-auto p-6">
+        {error && <p className="mb-4 text-sm text-red-600">{error}</p>}
+        {!selected ? (
+          <p className="text-sm text-zinc-500">Select a trace to see its retrieval, prompt and model calls.</p>
+        ) : (
+          <div className="mx-auto max-w-4xl space-y-6">
+            <section className="space-y-1">
+              <div className="flex items-start gap-3">
+                <h2 className="flex-1 text-lg font-semibold text-zinc-900 dark:text-zinc-100">{selected.question}</h2>
+                <button
+                  type="button"
+                  onClick={() => replayTrace(selected)}
+                  disabled={isReplaying || selected.question === undefined}
+                  className="rounded-lg bg-blue-600 px-3 py-1.5 text-sm font-medium text-white hover:bg-blue-700 disabled:opacity-50"
+                >
+                  {isReplaying ? "Replaying..." : "Replay"}
+                </button>
+              </div>
+              <p className="text-xs text-zinc-500">
+                {selected.id} · {new Date(selected.startedAt).toLocaleString()} · {selected.durationMs} ms ·{" "}
+                {selected.model ?? "no model"} · {formatTokens(selected.usage)} tokens
+                {selected.cached ? ` · cached (${selected.cached})` : ""}
+              </p>
+              {selected.replayOf && (
+                <button
+                  type="button"
+                  onClick={() => openTrace(selected.replayOf!)}
+                  className="text-xs text-blue-600 hover:underline dark:text-blue-400"
+                >
+                  Replay of {selected.replayOf}
+                </button>
+              )}
+              {selected.error && <p className="text-sm text-red-600">{selected.error}</p>}
+            </section>
+
+            {selected.history && selected.history.length > 0 && (
+              <details className="text-sm">
+                <summary className="cursor-pointer text-zinc-500">History ({selected.history.length} turns)</summary>
+                <div className="mt-2 space-y-1">
+                  {selected.history.map((message, i) => (
+                    <p key={i} className="whitespace-pre-wrap">
+                      <span className="font-medium">{message.role}:</span> {message.content}
+                    </p>
+                  ))}
+                </div>
+              </details>
+            )}
+
+            <section>
+              <h3 className="mb-2 text-sm font-medium text-zinc-500">Answer</h3>
+              <p className="whitespace-pre-wrap rounded-lg border border-zinc-200 bg-white p-3 text-sm dark:border-zinc-700 dark:bg-zinc-900">
+                {selected.answer ?? "(none)"}
+              </p>
+            </section>
+
+            {replay && (
+              <section>
+                <h3 className="mb-2 text-sm font-medium text-zinc-500">
+                  Replayed answer ({replay.model})
+                  {replay.traceId && (
+                    <button
+                      type="button"
+                      onClick={() => openTrace(replay.traceId!)}
+                      className="ml-2 text-blue-600 hover:underline dark:text-blue-400"
+                    >
+                      Open trace
+                    </button>
+                  )}
+                </h3>
+                <p className="whitespace-pre-wrap rounded-lg border border-blue-200 bg-blue-50 p-3 text-sm dark:border-blue-900 dark:bg-blue-950">
+                  {replay.content}
+                </p>
+              </section>
+            )}
+
+            <section>
+              <h3 className="mb-2 text-sm font-medium text-zinc-500">Spans</h3>
+              <SpanTimeline trace={selected} />
+            </section>
+
+            <details className="text-sm">
+              <summary className="cursor-pointer text-zinc-500">Request</summary>
+              <pre className="mt-2 whitespace-pre-wrap rounded bg-zinc-100 p-2 text-xs dark:bg-zinc-900">
+                {JSON.stringify(selected.request, null, 2)}
+              </pre>
+            </details>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
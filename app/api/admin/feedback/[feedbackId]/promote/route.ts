@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getFeedback, promoteFeedback } from "@/lib/ai/feedback";
+import { errorResponse, internalError, notFound, parseJsonBody } from "@/lib/ai/errors";
+import { feedbackPromoteSchema } from "@/lib/ai/schemas";
+
+export const runtime = "nodejs";
+
+type Params = { params: Promise<{ feedbackId: string }> };
+
+// POST /api/admin/feedback/:id/promote { question?, answer? } - add the
+// corrected answer to the curated Q&A, indexed by the next `pnpm seed-kb`.
+// The question defaults to the one asked and the answer to the correction.
+// Feedback on an answer from a case workspace is refused.
+export async function POST(req: NextRequest, { params }: Params) {
+  const { feedbackId } = await params;
+  const body = await parseJsonBody(req, feedbackPromoteSchema);
+  if (body.error) return body.error;
+
+  try {
+    const existing = getFeedback(feedbackId);
+    if (!existing) return notFound("Feedback", feedbackId);
+    if (existing.caseId) {
+      return errorResponse("invalid_request", "Feedback on a case answer cannot be promoted to the shared curated Q&A");
+    }
+
+    const answer = body.data.answer ?? existing.correction;
+    if (!answer) {
+      return errorResponse("invalid_request", "The feedback has no correction; send the curated answer as answer");
+    }
+
+    const feedback = promoteFeedback(feedbackId, { question: body.data.question ?? existing.question, answer });
+    return feedback ? NextResponse.json(feedback) : notFound("Feedback", feedbackId);
+  } catch (error) {
+    return internalError("Failed to promote feedback", error);
+  }
+}
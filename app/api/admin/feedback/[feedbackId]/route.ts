@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from "next/server";
+import { setFeedbackStatus } from "@/lib/ai/feedback";
+import { internalError, notFound, parseJsonBody } from "@/lib/ai/errors";
+import { feedbackStatusSchema } from "@/lib/ai/schemas";
+
+export const runtime = "nodejs";
+
+type Params = { params: Promise<{ feedbackId: string }> };
+
+// PATCH /api/admin/feedback/:id { "status": "dismissed" | "open" } - close
+// feedback without promoting it, or reopen it (a promoted entry leaves the
+// curated Q&A)
+export async function PATCH(req: NextRequest, { params }: Params) {
+  const { feedbackId } = await params;
+  const body = await parseJsonBody(req, feedbackStatusSchema);
+  if (body.error) return body.error;
+
+  try {
+    const feedback = setFeedbackStatus(feedbackId, body.data.status);
+    return feedback ? NextResponse.json(feedback) : notFound("Feedback", feedbackId);
+  } catch (error) {
+    return internalError("Failed to update feedback", error);
+  }
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from "next/server";
+import { errorResponse, internalError } from "@/lib/ai/errors";
+import {
+  FEEDBACK_RATINGS,
+  FEEDBACK_STATUSES,
+  FeedbackRating,
+  FeedbackStatus,
+  listFeedback,
+} from "@/lib/ai/feedback";
+
+export const runtime = "nodejs";
+
+// Most entries returned in one listing
+const MAX_LIMIT = 500;
+
+// GET /api/admin/feedback?rating=down&status=open&limit=100 - feedback,
+// most recent first
+export async function GET(req: NextRequest) {
+  const params = req.nextUrl.searchParams;
+  const limit = Number(params.get("limit") ?? 100);
+  const rating = params.get("rating") || undefined;
+  const status = params.get("status") || undefined;
+
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+    return errorResponse("invalid_request", `limit must be an integer from 1 to ${MAX_LIMIT}`);
+  }
+  if (rating && !FEEDBACK_RATINGS.includes(rating as FeedbackRating)) {
+    return errorResponse("invalid_request", `rating must be one of ${FEEDBACK_RATINGS.join(", ")}`);
+  }
+  if (status && !FEEDBACK_STATUSES.includes(status as FeedbackStatus)) {
+    return errorResponse("invalid_request", `status must be one of ${FEEDBACK_STATUSES.join(", ")}`);
+  }
+
+  try {
+    const feedback = listFeedback({
+      limit,
+      rating: rating as FeedbackRating | undefined,
+      status: status as FeedbackStatus | undefined,
+    });
+    return NextResponse.json({ feedback });
+  } catch (error) {
+    return internalError("Failed to list feedback", error);
+  }
+}
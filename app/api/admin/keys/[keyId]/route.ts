@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getApiKey, revokeApiKey } from "@/lib/ai/apikeys";
+import { internalError, notFound } from "@/lib/ai/errors";
+
+export const runtime = "nodejs";
+
+type Params = { params: Promise<{ keyId: string }> };
+
+// GET /api/admin/keys/:id - one key with its usage
+export async function GET(req: NextRequest, { params }: Params) {
+  const { keyId } = await params;
+
+  try {
+    const key = getApiKey(keyId);
+    return key ? NextResponse.json(key) : notFound("API key", keyId);
+  } catch (error) {
+    return internalError("Failed to load API key", error);
+  }
+}
+
+// DELETE /api/admin/keys/:id - revoke a key (its usage is kept)
+export async function DELETE(req: NextRequest, { params }: Params) {
+  const { keyId } = await params;
+
+  try {
+    const key = revokeApiKey(keyId);
+    return key ? NextResponse.json(key) : notFound("API key", keyId);
+  } catch (error) {
+    return internalError("Failed to revoke API key", error);
+  }
+}
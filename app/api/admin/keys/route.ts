@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createApiKey, listApiKeys } from "@/lib/ai/apikeys";
+import { internalError, parseJsonBody } from "@/lib/ai/errors";
+import { apiKeyCreateSchema } from "@/lib/ai/schemas";
+
+export const runtime = "nodejs";
+
+// GET /api/admin/keys - all API keys with their usage (never the keys themselves)
+export async function GET() {
+  try {
+    return NextResponse.json({ keys: listApiKeys() });
+  } catch (error) {
+    return internalError("Failed to list API keys", error);
+  }
+}
+
+// POST /api/admin/keys { "name", "scopes", "quotas"? } - create a key. The
+// response has the only copy of the key.
+export async function POST(req: NextRequest) {
+  const body = await parseJsonBody(req, apiKeyCreateSchema);
+  if (body.error) return body.error;
+
+  try {
+    const { key, secret } = createApiKey(body.data);
+    return NextResponse.json({ ...key, key: secret }, { status: 201 });
+  } catch (error) {
+    return internalError("Failed to create API key", error);
+  }
+}
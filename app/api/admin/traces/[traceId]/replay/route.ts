@@ -0,0 +1,45 @@
+import { NextRequest } from "next/server";
+import { POST as chat } from "@/app/api/v1/chat/route";
+import { errorResponse, internalError, notFound } from "@/lib/ai/errors";
+import { getTrace, REPLAY_HEADER } from "@/lib/ai/tracing";
+
+export const runtime = "nodejs";
+export const maxDuration = 60;
+
+type Params = { params: Promise<{ traceId: string }> };
+
+// POST /api/admin/traces/:id/replay - ask a traced question again with the
+// same settings and history, against the current index and models. The
+// answer is the chat response, whose traceId names the new trace.
+export async function POST(req: NextRequest, { params }: Params) {
+  const { traceId } = await params;
+
+  try {
+    const trace = getTrace(traceId);
+    if (!trace) return notFound("Trace", traceId);
+    if (trace.route !== "/api/v1/chat" || trace.question === undefined) {
+      return errorResponse("invalid_request", "Only chat requests can be replayed");
+    }
+
+    // The history travels in the request, so the session is left alone;
+    // the answer is generated afresh, as JSON and without speech
+    const body = {
+      ...(trace.request as Record<string, unknown>),
+      messages: [...(trace.history ?? []), { role: "user", content: trace.question }],
+      sessionId: undefined,
+      stream: false,
+      cache: false,
+      audio: false,
+    };
+
+    return chat(
+      new NextRequest(new URL("/api/v1/chat", req.url), {
+        method: "POST",
+        headers: { "Content-Type": "application/json", [REPLAY_HEADER]: traceId },
+        body: JSON.stringify(body),
+      })
+    );
+  } catch (error) {
+    return internalError("Failed to replay trace", error);
+  }
+}
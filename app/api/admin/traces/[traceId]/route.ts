@@ -0,0 +1,19 @@
+import { NextRequest, NextResponse } from "next/server";
+import { internalError, notFound } from "@/lib/ai/errors";
+import { getTrace } from "@/lib/ai/tracing";
+
+export const runtime = "nodejs";
+
+type Params = { params: Promise<{ traceId: string }> };
+
+// GET /api/admin/traces/:id - one trace with its spans and request
+export async function GET(req: NextRequest, { params }: Params) {
+  const { traceId } = await params;
+
+  try {
+    const trace = getTrace(traceId);
+    return trace ? NextResponse.json(trace) : notFound("Trace", traceId);
+  } catch (error) {
+    return internalError("Failed to load trace", error);
+  }
+}
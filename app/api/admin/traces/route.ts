@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from "next/server";
+import { errorResponse, internalError } from "@/lib/ai/errors";
+import { listTraces, TRACE_STATUSES, TraceStatus } from "@/lib/ai/tracing";
+
+export const runtime = "nodejs";
+
+// Most traces returned in one listing
+const MAX_LIMIT = 500;
+
+// GET /api/admin/traces?limit=50&status=error&q=michael - recent traces,
+// newest first, without their spans
+export async function GET(req: NextRequest) {
+  const params = req.nextUrl.searchParams;
+  const limit = Number(params.get("limit") ?? 50);
+  const status = params.get("status") || undefined;
+
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+    return errorResponse("invalid_request", `limit must be an integer from 1 to ${MAX_LIMIT}`);
+  }
+  if (status && !TRACE_STATUSES.includes(status as TraceStatus)) {
+    return errorResponse("invalid_request", `status must be one of ${TRACE_STATUSES.join(", ")}`);
+  }
+
+  try {
+    const traces = listTraces({ limit, status: status as TraceStatus | undefined, text: params.get("q") || undefined });
+    return NextResponse.json({ traces });
+  } catch (error) {
+    return internalError("Failed to list traces", error);
+  }
+}
@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from "next/server";
+import { removeCaseFile } from "@/lib/kb/cases";
+import { internalError, notFound } from "@/lib/ai/errors";
+
+export const runtime = "nodejs";
+export const maxDuration = 300;
+
+// DELETE /api/cases/:id/documents/:fileName - remove a document and re-index
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: Promise<{ caseId: string; fileName: string }> }
+) {
+  const { caseId, fileName } = await params;
+
+  try {
+    const result = await removeCaseFile(caseId, fileName);
+    if (!result) {
+      return notFound("Document", fileName);
+    }
+
+    return NextResponse.json({ case: result.workspace, diff: result.diff });
+  } catch (error) {
+    return internalError("Failed to remove case document", error);
+  }
+}
@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  addCaseFiles,
+  CASE_DOCUMENT_TYPES,
+  CaseDocumentType,
+  getCase,
+  sanitizeFileName,
+} from "@/lib/kb/cases";
+import { getLoader, supportedExtensions } from "@/lib/kb/loaders";
+import { errorResponse, internalError, notFound } from "@/lib/ai/errors";
+
+export const runtime = "nodejs";
+export const maxDuration = 300;
+
+// Largest accepted upload per file
+const MAX_FILE_BYTES = 25 * 1024 * 1024;
+
+// POST /api/cases/:id/documents - multipart upload of one or more "files",
+// with an optional "documentType" (medical, work-history, rfc, other)
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ caseId: string }> }
+) {
+  const { caseId } = await params;
+
+  if (!getCase(caseId)) {
+    return notFound("Case", caseId);
+  }
+
+  const form = await req.formData().catch(() => null);
+  const files = (form?.getAll("files") ?? []).filter((value): value is File => value instanceof File);
+  if (files.length === 0) {
+    return errorResponse("invalid_request", 'Expected multipart form data with one or more "files"');
+  }
+
+  const documentType = form?.get("documentType") ?? "other";
+  if (!CASE_DOCUMENT_TYPES.includes(documentType as CaseDocumentType)) {
+    return errorResponse("invalid_request", `Invalid documentType. Expected one of: ${CASE_DOCUMENT_TYPES.join(", ")}`);
+  }
+
+  for (const file of files) {
+    const fileName = sanitizeFileName(file.name);
+    if (!fileName || !getLoader(fileName)) {
+      return errorResponse("invalid_request", `Unsupported file: ${file.name}. Supported: ${supportedExtensions().join(", ")}`);
+    }
+    if (file.size > MAX_FILE_BYTES) {
+      return errorResponse("payload_too_large", `File too large: ${file.name} (max ${MAX_FILE_BYTES / 1024 / 1024} MB)`);
+    }
+  }
+
+  try {
+    const uploads = await Promise.all(
+      files.map(async (file) => ({
+        fileName: file.name,
+        data: Buffer.from(await file.arrayBuffer()),
+        documentType: documentType as CaseDocumentType,
+      }))
+    );
+
+    const result = await addCaseFiles(caseId, uploads);
+    if (!result) {
+      return notFound("Case", caseId);
+    }
+
+    return NextResponse.json({ case: result.workspace, diff: result.diff });
+  } catch (error) {
+    return internalError("Failed to index case documents", error);
+  }
+}
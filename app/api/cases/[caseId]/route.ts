@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from "next/server";
+import { deleteCase, getCase } from "@/lib/kb/cases";
+import { internalError, notFound } from "@/lib/ai/errors";
+
+export const runtime = "nodejs";
+
+type Params = { params: Promise<{ caseId: string }> };
+
+// GET /api/cases/:id - case with its documents
+export async function GET(req: NextRequest, { params }: Params) {
+  const { caseId } = await params;
+
+  try {
+    const workspace = getCase(caseId);
+    if (!workspace) {
+      return notFound("Case", caseId);
+    }
+    return NextResponse.json(workspace);
+  } catch (error) {
+    return internalError("Failed to load case", error);
+  }
+}
+
+// DELETE /api/cases/:id - delete the case, its documents and its index
+export async function DELETE(req: NextRequest, { params }: Params) {
+  const { caseId } = await params;
+
+  try {
+    if (!deleteCase(caseId)) {
+      return notFound("Case", caseId);
+    }
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    return internalError("Failed to delete case", error);
+  }
+}
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createCase, listCases } from "@/lib/kb/cases";
+import { internalError, parseJsonBody } from "@/lib/ai/errors";
+import { caseCreateSchema } from "@/lib/ai/schemas";
+
+export const runtime = "nodejs";
+
+// GET /api/cases - all case workspaces
+export async function GET() {
+  try {
+    return NextResponse.json({ cases: listCases() });
+  } catch (error) {
+    return internalError("Failed to list cases", error);
+  }
+}
+
+// POST /api/cases { "name": string } - create a case workspace
+export async function POST(req: NextRequest) {
+  const body = await parseJsonBody(req, caseCreateSchema);
+  if (body.error) return body.error;
+
+  try {
+    return NextResponse.json(createCase(body.data.name), { status: 201 });
+  } catch (error) {
+    return internalError("Failed to create case", error);
+  }
+}
@@ -0,0 +1,5 @@
+// Unversioned alias of /api/v1/chat/streams/:id, kept for existing clients
+export const runtime = "nodejs";
+export const maxDuration = 60;
+
+export { GET, DELETE } from "../../../v1/chat/streams/[streamId]/route";
@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from "next/server";
+import { updateFeedback } from "@/lib/ai/feedback";
+import { internalError, notFound, parseJsonBody } from "@/lib/ai/errors";
+import { feedbackUpdateSchema } from "@/lib/ai/schemas";
+
+export const runtime = "nodejs";
+
+type Params = { params: Promise<{ feedbackId: string }> };
+
+// PATCH /api/feedback/:id { rating?, correction? } - change a rating or add
+// a correction
+export async function PATCH(req: NextRequest, { params }: Params) {
+  const { feedbackId } = await params;
+  const body = await parseJsonBody(req, feedbackUpdateSchema);
+  if (body.error) return body.error;
+
+  try {
+    const feedback = updateFeedback(feedbackId, body.data);
+    return feedback ? NextResponse.json(feedback) : notFound("Feedback", feedbackId);
+  } catch (error) {
+    return internalError("Failed to update feedback", error);
+  }
+}
@@ -0,0 +1,19 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createFeedback } from "@/lib/ai/feedback";
+import { internalError, parseJsonBody } from "@/lib/ai/errors";
+import { feedbackCreateSchema } from "@/lib/ai/schemas";
+
+export const runtime = "nodejs";
+
+// POST /api/feedback { rating, correction?, question, answer, sources, model,
+// sessionId?, traceId?, caseId? } - rate an answer
+export async function POST(req: NextRequest) {
+  const body = await parseJsonBody(req, feedbackCreateSchema);
+  if (body.error) return body.error;
+
+  try {
+    return NextResponse.json(createFeedback(body.data), { status: 201 });
+  } catch (error) {
+    return internalError("Failed to save feedback", error);
+  }
+}
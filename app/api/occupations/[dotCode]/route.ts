@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getOccupation } from "@/lib/kb/occupations";
+import { normalizeDotCode } from "@/lib/kb/skilltran";
+import { errorResponse, internalError } from "@/lib/ai/errors";
+
+export const runtime = "nodejs";
+
+// GET /api/occupations/166.267-046
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ dotCode: string }> }
+) {
+  const { dotCode } = await params;
+
+  if (!normalizeDotCode(dotCode)) {
+    return errorResponse("invalid_request", "Invalid DOT code. Expected format ###.###-###");
+  }
+
+  try {
+    const occupation = getOccupation(dotCode);
+    if (!occupation) {
+      return errorResponse("not_found", `No occupation found for DOT code ${dotCode}`);
+    }
+
+    return NextResponse.json(occupation);
+  } catch (error) {
+    return internalError("Failed to look up occupation", error);
+  }
+}
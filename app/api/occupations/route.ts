@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from "next/server";
+import { searchOccupations } from "@/lib/kb/occupations";
+import { errorResponse, internalError } from "@/lib/ai/errors";
+
+export const runtime = "nodejs";
+
+// GET /api/occupations?q=human+resource
+export async function GET(req: NextRequest) {
+  const query = req.nextUrl.searchParams.get("q")?.trim();
+  if (!query) {
+    return errorResponse("invalid_request", "Missing search query parameter 'q'");
+  }
+
+  const limit = Number(req.nextUrl.searchParams.get("limit")) || 10;
+
+  try {
+    const occupations = searchOccupations(query, limit);
+    return NextResponse.json({ occupations });
+  } catch (error) {
+    return internalError("Failed to search occupations", error);
+  }
+}
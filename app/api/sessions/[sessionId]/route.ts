@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from "next/server";
+import { deleteSession, getSession, renameSession } from "@/lib/ai/sessions";
+import { internalError, notFound, parseJsonBody } from "@/lib/ai/errors";
+import { sessionRenameSchema } from "@/lib/ai/schemas";
+
+export const runtime = "nodejs";
+
+type Params = { params: Promise<{ sessionId: string }> };
+
+// GET /api/sessions/:id - session with its messages
+export async function GET(req: NextRequest, { params }: Params) {
+  const { sessionId } = await params;
+
+  try {
+    const session = getSession(sessionId);
+    return session ? NextResponse.json(session) : notFound("Session", sessionId);
+  } catch (error) {
+    return internalError("Failed to load session", error);
+  }
+}
+
+// PATCH /api/sessions/:id { "title": string } - rename
+export async function PATCH(req: NextRequest, { params }: Params) {
+  const { sessionId } = await params;
+  const body = await parseJsonBody(req, sessionRenameSchema);
+  if (body.error) return body.error;
+
+  try {
+    const session = renameSession(sessionId, body.data.title);
+    return session ? NextResponse.json(session) : notFound("Session", sessionId);
+  } catch (error) {
+    return internalError("Failed to rename session", error);
+  }
+}
+
+// DELETE /api/sessions/:id
+export async function DELETE(req: NextRequest, { params }: Params) {
+  const { sessionId } = await params;
+
+  try {
+    return deleteSession(sessionId) ? new NextResponse(null, { status: 204 }) : notFound("Session", sessionId);
+  } catch (error) {
+    return internalError("Failed to delete session", error);
+  }
+}
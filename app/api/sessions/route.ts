@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createSession, listSessions } from "@/lib/ai/sessions";
+import { internalError, parseJsonBody } from "@/lib/ai/errors";
+import { sessionCreateSchema } from "@/lib/ai/schemas";
+
+export const runtime = "nodejs";
+
+// GET /api/sessions - all sessions, most recently updated first
+export async function GET() {
+  try {
+    return NextResponse.json({ sessions: listSessions() });
+  } catch (error) {
+    return internalError("Failed to list sessions", error);
+  }
+}
+
+// POST /api/sessions { "title"?: string } - start a new session
+export async function POST(req: NextRequest) {
+  const body = await parseJsonBody(req, sessionCreateSchema);
+  if (body.error) return body.error;
+
+  try {
+    return NextResponse.json(createSession(body.data.title), { status: 201 });
+  } catch (error) {
+    return internalError("Failed to create session", error);
+  }
+}
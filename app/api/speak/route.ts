@@ -0,0 +1,33 @@
+import { NextRequest } from "next/server";
+import { synthesizeStream, toSpeechText } from "@/lib/ai/speech";
+import { errorResponse, internalError, parseJsonBody } from "@/lib/ai/errors";
+import { speakRequestSchema } from "@/lib/ai/schemas";
+
+export const runtime = "nodejs";
+export const maxDuration = 120;
+
+// POST /api/speak - { "text": "..." } in, a WAV audio stream out (16-bit
+// mono), synthesized sentence by sentence
+export async function POST(req: NextRequest) {
+  const body = await parseJsonBody(req, speakRequestSchema);
+  if (body.error) return body.error;
+
+  const { text } = body.data;
+  if (!toSpeechText(text)) {
+    return errorResponse("invalid_request", "text has nothing to speak", {
+      fields: [{ path: "text", message: "Nothing left to speak after removing markers and markdown" }],
+    });
+  }
+
+  try {
+    const audio = await synthesizeStream(text);
+    return new Response(audio, {
+      headers: {
+        "Content-Type": "audio/wav",
+        "Cache-Control": "no-cache",
+      },
+    });
+  } catch (error) {
+    return internalError("Failed to synthesize speech", error);
+  }
+}
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from "next/server";
+import { decodeWav, transcribe } from "@/lib/ai/speech";
+import { errorResponse, internalError } from "@/lib/ai/errors";
+
+export const runtime = "nodejs";
+export const maxDuration = 120;
+
+// Largest accepted recording
+const MAX_AUDIO_BYTES = 25 * 1024 * 1024;
+
+// POST /api/transcribe - WAV audio in, text out. Send the audio as the raw
+// request body (Content-Type: audio/wav) or as a multipart "file" field.
+export async function POST(req: NextRequest) {
+  let data: Buffer;
+  if (req.headers.get("content-type")?.startsWith("multipart/form-data")) {
+    const file = (await req.formData().catch(() => null))?.get("file");
+    if (!(file instanceof File)) {
+      return errorResponse("invalid_request", 'Expected multipart form data with an audio "file"');
+    }
+    data = Buffer.from(await file.arrayBuffer());
+  } else {
+    data = Buffer.from(await req.arrayBuffer());
+  }
+
+  if (data.length === 0) {
+    return errorResponse("invalid_request", "No audio received");
+  }
+  if (data.length > MAX_AUDIO_BYTES) {
+    return errorResponse("payload_too_large", `Audio too large (max ${MAX_AUDIO_BYTES / 1024 / 1024} MB)`);
+  }
+
+  let audio;
+  try {
+    audio = decodeWav(data);
+  } catch (error) {
+    console.warn("Audio decode failed:", error);
+    return errorResponse("unsupported_media_type", "Unsupported audio, expected a WAV file");
+  }
+
+  try {
+    const { text, chunks } = await transcribe(audio);
+    return NextResponse.json({ text, chunks });
+  } catch (error) {
+    return internalError("Failed to transcribe audio", error);
+  }
+}
@@ -0,0 +1,19 @@
+import { NextRequest, NextResponse } from "next/server";
+import { analyzeTransferableSkills } from "@/lib/kb/transferable";
+import { internalError, parseJsonBody } from "@/lib/ai/errors";
+import { transferableSkillsRequestSchema } from "@/lib/ai/schemas";
+
+export const runtime = "nodejs";
+
+// POST /api/transferable-skills
+// { pastWork: ["166.267-046"], rfc: { strength: "L", physicalDemands?, environmentalConditions? }, age?, education?, limit? }
+export async function POST(req: NextRequest) {
+  const body = await parseJsonBody(req, transferableSkillsRequestSchema);
+  if (body.error) return body.error;
+
+  try {
+    return NextResponse.json(analyzeTransferableSkills(body.data));
+  } catch (error) {
+    return internalError("Failed to analyze transferable skills", error);
+  }
+}
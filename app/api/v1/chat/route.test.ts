@@ -0,0 +1,143 @@
+import { simulateReadableStream, streamText } from "ai";
+import { MockLanguageModelV3 } from "ai/test";
+import fs from "fs";
+import { NextRequest } from "next/server";
+import os from "os";
+import path from "path";
+import { afterAll, afterEach, describe, expect, it, vi } from "vitest";
+import { registerProvider, streamWithFallback } from "@/lib/ai/providers";
+import { parseSSE, SSEMessage } from "@/lib/ai/sse-client";
+
+// Sessions, traces and the answer cache are written to a temp dir, chosen
+// before the modules that read it are imported
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), "chat-route-"));
+const cacheFile = path.join(dir, "answer-cache.json");
+vi.stubEnv("SESSIONS_DIR", path.join(dir, "sessions"));
+vi.stubEnv("TRACES_DIR", path.join(dir, "traces"));
+vi.stubEnv("ANSWER_CACHE_FILE", cacheFile);
+// No semantic matching, which would load the embedding model
+vi.stubEnv("ANSWER_CACHE_SIMILARITY", "2");
+
+// The answer comes from a test model streamed through the real fallback
+// layer, cut short of its finish part when a test says so; retrieval is skipped
+let finishes = true;
+
+vi.mock("@/lib/ai/chain", () => ({
+  streamRAGChain: async (question: string, k: number, options: { abortSignal?: AbortSignal }) => {
+    const { events, model } = await streamWithFallback(
+      [{ id: "test:model", provider: "test", modelId: "model" }],
+      (model, abortSignal) => streamText({ model, prompt: question, abortSignal }),
+      options.abortSignal
+    );
+    async function* unfinished() {
+      for await (const event of events) if (event.type !== "finish") yield event;
+    }
+    return { events: finishes ? events : unfinished(), sources: [], model };
+  },
+  verifyAnswer: () => [],
+}));
+
+vi.mock("@/lib/kb/vectorstore", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/kb/vectorstore")>()),
+  getIndexVersion: async () => "test",
+}));
+
+const { POST } = await import("./route");
+const { getChatStream } = await import("@/lib/ai/sse");
+const { createSession, getSession } = await import("@/lib/ai/sessions");
+const { listTraces } = await import("@/lib/ai/tracing");
+
+const USAGE = {
+  inputTokens: { total: 1, noCache: 1, cacheRead: 0, cacheWrite: 0 },
+  outputTokens: { total: 2, text: 2, reasoning: 0 },
+};
+
+// Answers "Partial answer" a word every 50 ms
+registerProvider(
+  "test",
+  (modelId) =>
+    new MockLanguageModelV3({
+      modelId,
+      doStream: async () => ({
+        stream: simulateReadableStream({
+          chunkDelayInMs: 50,
+          chunks: [
+            { type: "stream-start", warnings: [] },
+            { type: "text-start", id: "0" },
+            { type: "text-delta", id: "0", delta: "Partial " },
+            { type: "text-delta", id: "0", delta: "answer" },
+            { type: "text-end", id: "0" },
+            { type: "finish", finishReason: { unified: "stop", raw: "stop" }, usage: USAGE },
+          ],
+        }),
+      }),
+    })
+);
+
+function ask(question: string, sessionId: string) {
+  return POST(
+    new NextRequest("http://localhost/api/v1/chat", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ messages: [{ role: "user", content: question }], sessionId }),
+    })
+  );
+}
+
+function cachedQuestions(): string[] {
+  if (!fs.existsSync(cacheFile)) return [];
+  return JSON.parse(fs.readFileSync(cacheFile, "utf-8")).entries.map((entry: { question: string }) => entry.question);
+}
+
+afterEach(() => {
+  finishes = true;
+  vi.restoreAllMocks();
+});
+
+afterAll(() => {
+  vi.unstubAllEnvs();
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe("POST /api/v1/chat, streaming", () => {
+  it("saves, caches and traces a finished answer", async () => {
+    const session = createSession();
+    const response = await ask("What is SVP?", session.id);
+
+    const events: SSEMessage[] = [];
+    for await (const message of parseSSE(response.body!)) events.push(message);
+
+    expect(events.map((e) => e.event)).toEqual(["token", "token", "sources", "done"]);
+    await vi.waitFor(() => expect(listTraces({ text: "What is SVP?" })[0]?.status).toBe("ok"));
+    expect(getSession(session.id)?.messages.map((m) => m.content)).toEqual(["What is SVP?", "Partial answer"]);
+    expect(cachedQuestions()).toContain("What is SVP?");
+  });
+
+  it("keeps nothing of an answer stopped mid-stream", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const session = createSession();
+    const response = await ask("What is GED?", session.id);
+    const stream = getChatStream(response.headers.get("X-Stream-Id")!)!;
+
+    const events: SSEMessage[] = [];
+    for await (const message of parseSSE(response.body!)) {
+      events.push(message);
+      if (message.event === "token") stream.cancel("Stopped");
+    }
+
+    expect(events.map((e) => e.event)).toEqual(["token", "error"]);
+    await vi.waitFor(() => expect(listTraces({ text: "What is GED?" })[0]?.status).toBe("cancelled"));
+    expect(getSession(session.id)?.messages).toEqual([]);
+    expect(cachedQuestions()).not.toContain("What is GED?");
+  });
+
+  it("does not cache an answer the model stream ended without finishing", async () => {
+    finishes = false;
+    const session = createSession();
+    const response = await ask("What is RFC?", session.id);
+    await response.text();
+
+    await vi.waitFor(() => expect(listTraces({ text: "What is RFC?" })[0]).toBeDefined());
+    expect(cachedQuestions()).not.toContain("What is RFC?");
+  });
+});
@@ -0,0 +1,319 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  CachedAnswer,
+  isAnswerCacheEnabled,
+  lookupAnswer,
+  replayTokens,
+  storeAnswer,
+} from "@/lib/ai/answercache";
+import {
+  queryRAGChain,
+  queryStructuredRAGChain,
+  streamRAGChain,
+  ToolCallRecord,
+  verifyAnswer,
+} from "@/lib/ai/chain";
+import { SourceCitation, toCitations } from "@/lib/ai/citations";
+import { internalError, notFound, parseJsonBody } from "@/lib/ai/errors";
+import { chatRequestSchema } from "@/lib/ai/schemas";
+import { appendMessages, getSession } from "@/lib/ai/sessions";
+import { createSentenceSpeaker, SpeechChunk } from "@/lib/ai/speech";
+import { createChatStream, toSSEResponse } from "@/lib/ai/sse";
+import { REPLAY_HEADER, startTrace, Trace, traced } from "@/lib/ai/tracing";
+import { caseIndexDir, getCase } from "@/lib/kb/cases";
+import { getIndexVersion } from "@/lib/kb/vectorstore";
+
+export const runtime = "nodejs";
+export const maxDuration = 60;
+
+// POST /api/v1/chat - answer the last user message (see chatRequestSchema)
+export async function POST(req: NextRequest) {
+  const body = await parseJsonBody(req, chatRequestSchema);
+  if (body.error) return body.error;
+
+  const {
+    messages,
+    stream: shouldStream,
+    keywordWeight,
+    filter,
+    efSearch,
+    rerank,
+    mmrLambda,
+    model,
+    sessionId,
+    caseId,
+    format,
+    audio,
+    verify,
+    cache,
+  } = body.data;
+
+  let trace: Trace | undefined;
+  try {
+    // The schema guarantees the last message is the user's question
+    const userQuestion = messages[messages.length - 1].content;
+
+    // Earlier turns let the chain resolve follow-up questions. With a
+    // session they come from the stored conversation instead of the request.
+    let history = messages.slice(0, -1);
+    if (sessionId !== undefined) {
+      const session = getSession(sessionId);
+      if (!session) return notFound("Session", sessionId);
+      history = session.messages.map(({ role, content }) => ({ role, content }));
+    }
+
+    // Store the exchange once the answer is complete
+    const saveTurn = (answer: string, sources: SourceCitation[], answeredBy: string) => {
+      if (sessionId === undefined) return;
+      appendMessages(sessionId, [
+        { role: "user", content: userQuestion },
+        { role: "assistant", content: answer, sources, model: answeredBy, caseId },
+      ]);
+    };
+
+    // Optional per-request retrieval settings: BM25/embedding balance,
+    // metadata filter (e.g. { "category": "job-analysis" }) and ANN recall
+    const retrieval = { keywordWeight, filter, efSearch, indexDirs: [] as string[] };
+
+    // A case workspace adds that case's documents (and no other case's)
+    if (caseId !== undefined) {
+      if (!getCase(caseId)) return notFound("Case", caseId);
+      retrieval.indexDirs.push(caseIndexDir(caseId));
+    }
+
+    // Optional reranking mode and MMR balance
+    const rerankOptions = { mode: rerank, mmrLambda };
+
+    // Everything from here on is traced, with the history a replay needs
+    trace = startTrace("/api/v1/chat", body.data);
+    trace?.set({ question: userQuestion, history, replayOf: req.headers.get(REPLAY_HEADER) ?? undefined });
+
+    // Reuse an answer to the same question (or, without history, a similar
+    // one) asked against the same indexes with the same settings. Streamed
+    // answers are never regenerated, so there "regenerate" acts as "flag".
+    const streamed = format !== "structured" && shouldStream;
+    const cacheLookup =
+      cache && isAnswerCacheEnabled()
+        ? await traced(trace, "cache", {}, async (span) => {
+            const lookup = await lookupAnswer(userQuestion, {
+              indexVersion: await getIndexVersion(retrieval.indexDirs),
+              history,
+              settings: {
+                format,
+                model,
+                verify: streamed && verify === "regenerate" ? "flag" : verify,
+                caseId,
+                keywordWeight,
+                filter,
+                efSearch,
+                rerank,
+                mmrLambda,
+              },
+            });
+            span.match = lookup.hit?.match ?? "miss";
+            span.cachedQuestion = lookup.hit?.question;
+            span.similarity = lookup.hit?.similarity;
+            return lookup;
+          })
+        : null;
+    const cached = cacheLookup?.hit ?? null;
+    trace?.set({ cached: cached?.match });
+    const cacheAnswer = (answer: CachedAnswer) => {
+      if (cacheLookup && !cached) storeAnswer(cacheLookup, answer);
+    };
+
+    // Optional sentence-by-sentence speech of the answer
+    const speakAnswer = async (answer: string): Promise<SpeechChunk[] | undefined> => {
+      if (!audio) return undefined;
+      const chunks: SpeechChunk[] = [];
+      const speaker = createSentenceSpeaker((chunk) => chunks.push(chunk));
+      speaker.push(answer);
+      await speaker.finish();
+      return chunks;
+    };
+
+    if (format === "structured") {
+      // Structured response (never streamed: the object is validated whole)
+      // Structured answers are cached under format "structured" only, so a
+      // hit always has its response object
+      let result: CachedAnswer | null = cached;
+      if (!result) {
+        const { answer, sources, model: answeredBy, toolCalls, unsupportedClaims } =
+          await queryStructuredRAGChain(userQuestion, 5, {
+            history,
+            retrieval,
+            rerank: rerankOptions,
+            model,
+            verify,
+            trace,
+          });
+
+        result = {
+          answer: answer.detailedAnswer,
+          response: answer,
+          model: answeredBy,
+          sources: toCitations(sources, answer.detailedAnswer),
+          toolCalls,
+          unsupportedClaims,
+        };
+        cacheAnswer(result);
+      }
+
+      const response = result.response!;
+      saveTurn(result.answer, result.sources, result.model);
+      trace?.set({ model: result.model, answer: result.answer });
+      trace?.end("ok");
+
+      return NextResponse.json({
+        content: result.answer,
+        response,
+        model: result.model,
+        sessionId,
+        sources: result.sources,
+        toolCalls: result.toolCalls,
+        unsupportedClaims: result.unsupportedClaims,
+        cached: cached?.match,
+        traceId: trace?.id,
+        // The avatar speaks the summary, not the detailed answer
+        audio: await speakAnswer(response.spokenSummary),
+      });
+    } else if (shouldStream) {
+      // Streaming response, as typed events. The answer is produced in the
+      // background so a dropped client can resume it from
+      // /api/v1/chat/streams/<id>, or cancel it there.
+      const chatStream = createChatStream();
+      // Streamed text cannot be taken back, so streaming only flags claims
+      const verifyOptions = { history, verify, trace };
+
+      void (async () => {
+        // Audio for each sentence follows its text as soon as it is ready
+        const speaker =
+          audio ? createSentenceSpeaker((chunk) => chatStream.emit("audio", chunk)) : null;
+
+        try {
+          if (cached) {
+            // Replay the cached answer through the same events
+            for (const { toolCallId, toolName, input, output } of cached.toolCalls) {
+              chatStream.emit("tool", { phase: "call", toolCallId, toolName, input });
+              chatStream.emit("tool", { phase: "result", toolCallId, toolName, output, isError: false });
+            }
+            for (const token of replayTokens(cached.answer)) {
+              speaker?.push(token);
+              chatStream.emit("token", { content: token });
+            }
+            await speaker?.finish();
+
+            saveTurn(cached.answer, cached.sources, cached.model);
+            chatStream.emit("sources", { sources: cached.sources, unsupportedClaims: cached.unsupportedClaims });
+            chatStream.emit("done", {
+              model: cached.model,
+              sessionId,
+              streamId: chatStream.id,
+              cached: cached.match,
+              traceId: trace?.id,
+            });
+            trace?.set({ model: cached.model, answer: cached.answer });
+            trace?.end("ok");
+            return;
+          }
+
+          const { events, sources, model: answeredBy } = await streamRAGChain(userQuestion, 5, {
+            history,
+            retrieval,
+            rerank: rerankOptions,
+            model,
+            abortSignal: chatStream.signal,
+            trace,
+          });
+
+          let answer = "";
+          let finished = false;
+          const toolCalls: ToolCallRecord[] = [];
+
+          // Stream the text, and any tool calls with their results
+          for await (const event of events) {
+            if (event.type === "text") {
+              answer += event.text;
+              speaker?.push(event.text);
+              chatStream.emit("token", { content: event.text });
+            } else if (event.type === "tool-call") {
+              const { toolCallId, toolName, input } = event;
+              toolCalls.push({ toolCallId, toolName, input });
+              chatStream.emit("tool", { phase: "call", toolCallId, toolName, input });
+            } else if (event.type === "tool-result") {
+              const { toolCallId, toolName, output } = event;
+              const call = toolCalls.find((c) => c.toolCallId === toolCallId);
+              if (call) call.output = output;
+              chatStream.emit("tool", { phase: "result", toolCallId, toolName, output, isError: false });
+            } else if (event.type === "tool-error") {
+              const { toolCallId, toolName, error } = event;
+              chatStream.emit("tool", { phase: "result", toolCallId, toolName, error, isError: true });
+            } else if (event.type === "finish") {
+              finished = true;
+            }
+          }
+
+          await speaker?.finish();
+          // Stopped while speaking the last sentence: nothing is kept
+          chatStream.signal.throwIfAborted();
+
+          // Send sources at the end, numbered to match the [n] markers
+          const citations = toCitations(sources, answer);
+          const toolOutputs = toolCalls.filter((c) => "output" in c).map((c) => c.output);
+          const unsupportedClaims = verifyAnswer(userQuestion, answer, sources, toolOutputs, verifyOptions);
+          saveTurn(answer, citations, answeredBy);
+
+          chatStream.emit("sources", { sources: citations, unsupportedClaims });
+          chatStream.emit("done", { model: answeredBy, sessionId, streamId: chatStream.id, traceId: trace?.id });
+          // An answer the model never finished is not served to anyone else
+          if (finished) cacheAnswer({ answer, model: answeredBy, sources: citations, toolCalls, unsupportedClaims });
+          trace?.set({ model: answeredBy, answer });
+          trace?.end("ok");
+        } catch (error) {
+          // A cancelled stream has already ended with an error event
+          if (!chatStream.signal.aborted) {
+            console.error("Stream error:", error);
+            chatStream.emit("error", { error: "Stream error", code: "internal_error" });
+          }
+          trace?.end(chatStream.signal.aborted ? "cancelled" : "error", error);
+        } finally {
+          chatStream.finish();
+        }
+      })();
+
+      return toSSEResponse(chatStream);
+    } else {
+      // Non-streaming response
+      let result: CachedAnswer | null = cached;
+      if (!result) {
+        const { answer, sources, model: answeredBy, toolCalls, unsupportedClaims } = await queryRAGChain(
+          userQuestion,
+          5,
+          { history, retrieval, rerank: rerankOptions, model, verify, trace }
+        );
+
+        result = { answer, model: answeredBy, sources: toCitations(sources, answer), toolCalls, unsupportedClaims };
+        cacheAnswer(result);
+      }
+
+      saveTurn(result.answer, result.sources, result.model);
+      trace?.set({ model: result.model, answer: result.answer });
+      trace?.end("ok");
+
+      return NextResponse.json({
+        content: result.answer,
+        model: result.model,
+        sessionId,
+        sources: result.sources,
+        toolCalls: result.toolCalls,
+        unsupportedClaims: result.unsupportedClaims,
+        cached: cached?.match,
+        traceId: trace?.id,
+        audio: await speakAnswer(result.answer),
+      });
+    }
+  } catch (error) {
+    trace?.end("error", error);
+    return internalError("Failed to process request", error);
+  }
+}
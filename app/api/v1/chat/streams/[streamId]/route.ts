@@ -0,0 +1,35 @@
+import { NextRequest } from "next/server";
+import { errorResponse, notFound } from "@/lib/ai/errors";
+import { getChatStream, toSSEResponse } from "@/lib/ai/sse";
+
+export const runtime = "nodejs";
+export const maxDuration = 60;
+
+type Params = { params: Promise<{ streamId: string }> };
+
+// GET /api/v1/chat/streams/:id - resume a streamed answer after the event in
+// the Last-Event-ID header (or ?lastEventId=), or from the start
+export async function GET(req: NextRequest, { params }: Params) {
+  const { streamId } = await params;
+  const stream = getChatStream(streamId);
+  if (!stream) return notFound("Stream", streamId);
+
+  const lastEventId = Number(
+    req.headers.get("last-event-id") ?? req.nextUrl.searchParams.get("lastEventId") ?? 0
+  );
+  if (!Number.isInteger(lastEventId) || lastEventId < 0) {
+    return errorResponse("invalid_request", "Invalid Last-Event-ID");
+  }
+
+  return toSSEResponse(stream, lastEventId);
+}
+
+// DELETE /api/v1/chat/streams/:id - stop the answer and its model call
+export async function DELETE(req: NextRequest, { params }: Params) {
+  const { streamId } = await params;
+  const stream = getChatStream(streamId);
+  if (!stream) return notFound("Stream", streamId);
+
+  stream.cancel();
+  return new Response(null, { status: 204 });
+}
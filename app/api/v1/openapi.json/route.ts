@@ -0,0 +1,14 @@
+import { NextResponse } from "next/server";
+import { internalError } from "@/lib/ai/errors";
+import { buildOpenAPIDocument } from "@/lib/ai/openapi";
+
+export const runtime = "nodejs";
+
+// GET /api/v1/openapi.json - the API document (no key needed)
+export async function GET() {
+  try {
+    return NextResponse.json(buildOpenAPIDocument());
+  } catch (error) {
+    return internalError("Failed to build the OpenAPI document", error);
+  }
+}
@@ -1,25 +1,245 @@
 "use client";
 
-import { useState, useRef, useEffect } from "react";
+import { useState, useRef, useEffect, useCallback } from "react";
+import { apiFetch } from "@/lib/ai/api-client";
+import type { SourceCitation } from "@/lib/ai/citations";
+import type { Feedback, FeedbackRating } from "@/lib/ai/feedback";
+import type { Session, SessionSummary } from "@/lib/ai/sessions";
+import type { CaseWorkspace } from "@/lib/kb/cases";
+import type { UnsupportedClaim } from "@/lib/ai/faithfulness";
+import { parseSSE } from "@/lib/ai/sse-client";
 
 interface Message {
   id: string;
   role: "user" | "assistant";
   content: string;
-  sources?: Array<{ fileName: string; content: string }>;
+  sources?: SourceCitation[];
+  // Names of tools the model used for this answer
+  tools?: string[];
+  // Facts in the answer the sources do not support
+  unsupportedClaims?: UnsupportedClaim[];
+  model?: string;
+  traceId?: string;
+  // Case workspace searched for this answer
+  caseId?: string;
+  // The user's rating of this answer, once given
+  feedback?: Pick<Feedback, "id" | "rating" | "correction">;
+}
+
+// An error event from the server (not a dropped connection)
+class StreamError extends Error {}
+
+// Reconnects to a streamed answer after the connection drops
+const MAX_RESUME_ATTEMPTS = 3;
+
+interface ActiveCitation {
+  messageId: string;
+  id: number;
+}
+
+// Render [n] citation markers as clickable superscripts
+function renderWithCitations(
+  content: string,
+  sources: SourceCitation[] | undefined,
+  onSelect: (id: number) => void
+) {
+  if (!sources || sources.length === 0) return content;
+
+  return content.split(/(\[\d+\])/g).map((part, i) => {
+    const match = part.match(/^\[(\d+)\]$/);
+    const id = match ? Number(match[1]) : null;
+
+    if (id === null || !sources.some((s) => s.id === id)) {
+      return part;
+    }
+
+    return (
+      <button
+        key={i}
+        type="button"
+        onClick={() => onSelect(id)}
+        className="mx-0.5 align-super text-xs font-medium text-blue-600 hover:underline dark:text-blue-400"
+      >
+        [{id}]
+      </button>
+    );
+  });
+}
+
+// Thumbs up or down on an answer; thumbs down also asks for a correction
+function FeedbackControls({
+  feedback,
+  onRate,
+}: {
+  feedback: Message["feedback"];
+  onRate: (rating: FeedbackRating, correction?: string) => Promise<void>;
+}) {
+  const [isCorrecting, setIsCorrecting] = useState(false);
+  const [correction, setCorrection] = useState(feedback?.correction ?? "");
+
+  const button = (rating: FeedbackRating, label: string, icon: string) => (
+    <button
+      type="button"
+      aria-label={label}
+      title={label}
+      onClick={() => {
+        setIsCorrecting(rating === "down");
+        onRate(rating);
+      }}
+      className={`rounded px-1.5 py-0.5 ${
+        feedback?.rating === rating
+          ? "bg-zinc-200 dark:bg-zinc-700"
+          : "opacity-50 hover:opacity-100"
+      }`}
+    >
+      {icon}
+    </button>
+  );
+
+  return (
+    <div className="mt-2 text-xs text-zinc-500 dark:text-zinc-400">
+      <div className="flex items-center gap-1">
+        {button("up", "Good answer", "👍")}
+        {button("down", "Wrong or unhelpful answer", "👎")}
+        {feedback?.correction && !isCorrecting && <span className="ml-1">Correction sent. Thank you.</span>}
+      </div>
+      {isCorrecting && (
+        <form
+          className="mt-2 space-y-2"
+          onSubmit={async (e) => {
+            e.preventDefault();
+            await onRate("down", correction);
+            setIsCorrecting(false);
+          }}
+        >
+          <textarea
+            value={correction}
+            onChange={(e) => setCorrection(e.target.value)}
+            rows={3}
+            placeholder="What should the answer have said? (optional)"
+            className="w-full rounded-lg border border-zinc-300 bg-zinc-50 p-2 text-sm text-zinc-900 dark:border-zinc-600 dark:bg-zinc-900 dark:text-zinc-100"
+          />
+          <div className="flex gap-2">
+            <button
+              type="submit"
+              disabled={!correction.trim()}
+              className="rounded-lg bg-blue-600 px-3 py-1 font-medium text-white hover:bg-blue-700 disabled:opacity-50"
+            >
+              Send correction
+            </button>
+            <button type="button" onClick={() => setIsCorrecting(false)} className="px-2 hover:underline">
+              Skip
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
 }
 
 export default function Home() {
   const [messages, setMessages] = useState<Message[]>([]);
   const [input, setInput] = useState("");
   const [isLoading, setIsLoading] = useState(false);
+  const [activeCitation, setActiveCitation] = useState<ActiveCitation | null>(null);
+  const [sessions, setSessions] = useState<SessionSummary[]>([]);
+  const [sessionId, setSessionId] = useState<string | null>(null);
+  // Claimant case searched alongside the shared KB
+  const [cases, setCases] = useState<CaseWorkspace[]>([]);
+  const [caseId, setCaseId] = useState("");
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  // The answer being streamed, so it can be stopped
+  const abortRef = useRef<AbortController | null>(null);
+  const streamIdRef = useRef<string | null>(null);
 
   // Auto-scroll to bottom when new messages arrive
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
   }, [messages]);
 
+  const refreshSessions = useCallback(async () => {
+    try {
+      const response = await apiFetch("/api/sessions");
+      if (!response.ok) throw new Error("Failed to load sessions");
+      const data = await response.json();
+      setSessions(data.sessions);
+    } catch (error) {
+      console.error("Error:", error);
+    }
+  }, []);
+
+  // Cases load after sessions, so a missing key is asked for only once.
+  // Without the cases scope the list stays empty and no case is offered.
+  useEffect(() => {
+    refreshSessions()
+      .then(() => apiFetch("/api/cases"))
+      .then((response) => (response.ok ? response.json() : { cases: [] }))
+      .then((data) => setCases(data.cases))
+      .catch((error) => console.error("Error:", error));
+  }, [refreshSessions]);
+
+  const startNewChat = () => {
+    if (isLoading) return;
+    setSessionId(null);
+    setMessages([]);
+    setActiveCitation(null);
+  };
+
+  const openSession = async (id: string) => {
+    if (isLoading || id === sessionId) return;
+
+    try {
+      const response = await apiFetch(`/api/sessions/${id}`);
+      if (!response.ok) throw new Error("Failed to load session");
+      const session: Session = await response.json();
+
+      setSessionId(session.id);
+      setActiveCitation(null);
+      setMessages(
+        session.messages.map((m) => ({
+          id: m.id,
+          role: m.role,
+          content: m.content,
+          sources: m.sources,
+          model: m.model,
+          caseId: m.caseId,
+        }))
+      );
+    } catch (error) {
+      console.error("Error:", error);
+    }
+  };
+
+  const renameChat = async (session: SessionSummary) => {
+    const title = window.prompt("Rename conversation", session.title);
+    if (title === null || !title.trim()) return;
+
+    try {
+      const response = await apiFetch(`/api/sessions/${session.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ title }),
+      });
+      if (!response.ok) throw new Error("Failed to rename session");
+      await refreshSessions();
+    } catch (error) {
+      console.error("Error:", error);
+    }
+  };
+
+  const deleteChat = async (session: SessionSummary) => {
+    if (!window.confirm(`Delete "${session.title}"?`)) return;
+
+    try {
+      const response = await apiFetch(`/api/sessions/${session.id}`, { method: "DELETE" });
+      if (!response.ok) throw new Error("Failed to delete session");
+      if (session.id === sessionId) startNewChat();
+      await refreshSessions();
+    } catch (error) {
+      console.error("Error:", error);
+    }
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!input.trim() || isLoading) return;
@@ -38,59 +258,97 @@ export default function Home() {
     const assistantId = (Date.now() + 1).toString();
     setMessages((prev) => [
       ...prev,
-      { id: assistantId, role: "assistant", content: "" },
+      { id: assistantId, role: "assistant", content: "", caseId: caseId || undefined },
     ]);
 
     try {
-      const response = await fetch("/api/chat", {
+      // The server keeps the history; a new conversation starts a session
+      let currentSessionId = sessionId;
+      if (!currentSessionId) {
+        const created = await apiFetch("/api/sessions", { method: "POST" });
+        if (!created.ok) throw new Error("Failed to create session");
+        currentSessionId = ((await created.json()) as Session).id;
+        setSessionId(currentSessionId);
+      }
+
+      const controller = new AbortController();
+      abortRef.current = controller;
+
+      let response = await apiFetch("/api/v1/chat", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
-          messages: [...messages, userMessage].map((m) => ({
-            role: m.role,
-            content: m.content,
-          })),
+          messages: [{ role: userMessage.role, content: userMessage.content }],
+          sessionId: currentSessionId,
+          caseId: caseId || undefined,
           stream: true,
         }),
+        signal: controller.signal,
       });
 
       if (!response.ok) throw new Error("Failed to get response");
+      const streamId = response.headers.get("X-Stream-Id");
+      streamIdRef.current = streamId;
 
-      const reader = response.body?.getReader();
-      if (!reader) throw new Error("No reader available");
-
-      const decoder = new TextDecoder();
       let accumulatedContent = "";
-      let sources: Array<{ fileName: string; content: string }> = [];
-
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
-
-        const text = decoder.decode(value);
-        const lines = text.split("\n");
-
-        for (const line of lines) {
-          if (line.startsWith("data: ")) {
-            try {
-              const data = JSON.parse(line.slice(6));
-
-              if (data.done) {
-                sources = data.sources || [];
-              } else if (data.content) {
-                accumulatedContent += data.content;
-                setMessages((prev) =>
-                  prev.map((m) =>
-                    m.id === assistantId
-                      ? { ...m, content: accumulatedContent }
-                      : m
-                  )
-                );
+      let sources: SourceCitation[] = [];
+      const tools: string[] = [];
+      let unsupportedClaims: UnsupportedClaim[] = [];
+      let model: string | undefined;
+      let traceId: string | undefined;
+      let lastEventId: string | null = null;
+      let finished = false;
+
+      for (let attempt = 0; !finished; attempt++) {
+        try {
+          if (!response.body) throw new Error("No response body");
+
+          for await (const message of parseSSE(response.body)) {
+            lastEventId = message.id;
+            const data = JSON.parse(message.data);
+
+            if (message.event === "token") {
+              accumulatedContent += data.content;
+              setMessages((prev) =>
+                prev.map((m) =>
+                  m.id === assistantId
+                    ? { ...m, content: accumulatedContent }
+                    : m
+                )
+              );
+            } else if (message.event === "tool") {
+              if (data.phase === "call" && !tools.includes(data.toolName)) {
+                tools.push(data.toolName);
               }
-            } catch {
-              // Ignore parse errors for incomplete chunks
+            } else if (message.event === "sources") {
+              sources = data.sources || [];
+              unsupportedClaims = data.unsupportedClaims || [];
+            } else if (message.event === "error") {
+              throw new StreamError(data.error);
+            } else if (message.event === "done") {
+              model = data.model;
+              traceId = data.traceId;
+              finished = true;
             }
           }
+          if (!finished) throw new Error("Stream ended early");
+        } catch (error) {
+          // Reconnect after a dropped connection and pick up after the
+          // last event received; errors from the server are final
+          if (
+            error instanceof StreamError ||
+            controller.signal.aborted ||
+            !streamId ||
+            attempt >= MAX_RESUME_ATTEMPTS
+          ) {
+            throw error;
+          }
+          console.warn("Stream interrupted, resuming:", error);
+          response = await apiFetch(`/api/v1/chat/streams/${streamId}`, {
+            headers: lastEventId ? { "Last-Event-ID": lastEventId } : {},
+            signal: controller.signal,
+          });
+          if (!response.ok) throw new Error("Failed to resume response");
         }
       }
 
@@ -98,11 +356,22 @@ export default function Home() {
       setMessages((prev) =>
         prev.map((m) =>
           m.id === assistantId
-            ? { ...m, content: accumulatedContent, sources }
+            ? { ...m, content: accumulatedContent, sources, tools, unsupportedClaims, model, traceId }
             : m
         )
       );
     } catch (error) {
+      // Stopped by the user: keep what was already answered
+      if (abortRef.current?.signal.aborted) {
+        setMessages((prev) =>
+          prev.map((m) =>
+            m.id === assistantId
+              ? { ...m, content: m.content || "Stopped." }
+              : m
+          )
+        );
+        return;
+      }
       console.error("Error:", error);
       setMessages((prev) =>
         prev.map((m) =>
@@ -112,115 +381,321 @@ export default function Home() {
         )
       );
     } finally {
+      abortRef.current = null;
+      streamIdRef.current = null;
       setIsLoading(false);
+      refreshSessions();
     }
   };
 
+  // Save a rating of an answer, or change the one already given
+  const rateAnswer = async (message: Message, rating: FeedbackRating, correction?: string) => {
+    const index = messages.findIndex((m) => m.id === message.id);
+    const question = messages
+      .slice(0, index)
+      .reverse()
+      .find((m) => m.role === "user")?.content;
+    if (!question) return;
+
+    try {
+      const response = message.feedback
+        ? await apiFetch(`/api/feedback/${message.feedback.id}`, {
+            method: "PATCH",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ rating, correction }),
+          })
+        : await apiFetch("/api/feedback", {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({
+              rating,
+              correction,
+              question,
+              answer: message.content,
+              sources: message.sources ?? [],
+              model: message.model,
+              sessionId: sessionId ?? undefined,
+              traceId: message.traceId,
+              caseId: message.caseId,
+            }),
+          });
+      if (!response.ok) throw new Error("Failed to save feedback");
+      const saved: Feedback = await response.json();
+
+      setMessages((prev) =>
+        prev.map((m) =>
+          m.id === message.id
+            ? { ...m, feedback: { id: saved.id, rating: saved.rating, correction: saved.correction } }
+            : m
+        )
+      );
+    } catch (error) {
+      console.error("Error:", error);
+    }
+  };
+
+  // Stop the answer in progress, and its model call on the server
+  const handleStop = () => {
+    abortRef.current?.abort();
+    const streamId = streamIdRef.current;
+    if (streamId) {
+      apiFetch(`/api/v1/chat/streams/${streamId}`, { method: "DELETE" }).catch((error) =>
+        console.warn("Failed to cancel stream:", error)
+      );
+    }
+  };
+
+  const toggleCitation = (messageId: string, id: number) => {
+    setActiveCitation((prev) =>
+      prev?.messageId === messageId && prev.id === id ? null : { messageId, id }
+    );
+  };
+
   return (
-    <div className="flex min-h-screen flex-col bg-zinc-50 dark:bg-zinc-900">
-      {/* Header */}
-      <header className="border-b border-zinc-200 bg-white px-6 py-4 dark:border-zinc-800 dark:bg-zinc-950">
-        <h1 className="text-xl font-semibold text-zinc-900 dark:text-zinc-100">
-          VEFC Vocational Expert
-        </h1>
-        <p className="text-sm text-zinc-500 dark:text-zinc-400">
-          Ask questions about vocational rehabilitation, job analysis, and DOT codes
-        </p>
-      </header>
-
-      {/* Messages */}
-      <main className="flex-1 overflow-y-auto px-4 py-6">
-        <div className="mx-auto max-w-3xl space-y-6">
-          {messages.length === 0 && (
-            <div className="text-center text-zinc-500 dark:text-zinc-400 py-12">
-              <p className="text-lg mb-2">Welcome to the VEFC Vocational Expert!</p>
-              <p className="text-sm">Try asking questions like:</p>
-              <ul className="mt-4 space-y-2 text-sm">
-                <li>&quot;What is the DOT code for Human Resource Advisor?&quot;</li>
-                <li>&quot;What training is required for an HR Specialist?&quot;</li>
-                <li>&quot;What are the physical demands for this job?&quot;</li>
-                <li>&quot;Tell me about Michael&apos;s case&quot;</li>
-              </ul>
-            </div>
+    <div className="flex h-screen bg-zinc-50 dark:bg-zinc-900">
+      {/* Session sidebar */}
+      <aside className="flex w-64 shrink-0 flex-col border-r border-zinc-200 bg-white dark:border-zinc-800 dark:bg-zinc-950">
+        <div className="p-3">
+          <button
+            type="button"
+            onClick={startNewChat}
+            disabled={isLoading}
+            className="w-full rounded-xl border border-zinc-300 px-4 py-2 text-sm font-medium text-zinc-700 transition-colors hover:bg-zinc-100 disabled:opacity-50 dark:border-zinc-700 dark:text-zinc-300 dark:hover:bg-zinc-800"
+          >
+            + New conversation
+          </button>
+          {cases.length > 0 && (
+            <select
+              value={caseId}
+              onChange={(e) => setCaseId(e.target.value)}
+              aria-label="Case"
+              className="mt-2 w-full rounded-lg border border-zinc-300 bg-white px-2 py-1.5 text-sm text-zinc-700 dark:border-zinc-700 dark:bg-zinc-900 dark:text-zinc-300"
+            >
+              <option value="">No case (shared KB only)</option>
+              {cases.map((workspace) => (
+                <option key={workspace.id} value={workspace.id}>
+                  {workspace.name}
+                </option>
+              ))}
+            </select>
           )}
-
-          {messages.map((message) => (
+        </div>
+        <nav className="flex-1 overflow-y-auto px-2 pb-3">
+          {sessions.map((session) => (
             <div
-              key={message.id}
-              className={`flex ${
-                message.role === "user" ? "justify-end" : "justify-start"
+              key={session.id}
+              className={`group flex items-center rounded-lg text-sm ${
+                session.id === sessionId
+                  ? "bg-zinc-100 text-zinc-900 dark:bg-zinc-800 dark:text-zinc-100"
+                  : "text-zinc-600 hover:bg-zinc-50 dark:text-zinc-400 dark:hover:bg-zinc-900"
               }`}
             >
+              <button
+                type="button"
+                onClick={() => openSession(session.id)}
+                className="flex-1 truncate px-3 py-2 text-left"
+                title={session.title}
+              >
+                {session.title}
+              </button>
+              <div className="hidden shrink-0 pr-2 group-hover:flex gap-1 text-xs">
+                <button
+                  type="button"
+                  onClick={() => renameChat(session)}
+                  className="text-zinc-400 hover:text-zinc-700 dark:hover:text-zinc-200"
+                >
+                  Rename
+                </button>
+                <button
+                  type="button"
+                  onClick={() => deleteChat(session)}
+                  className="text-zinc-400 hover:text-red-600"
+                >
+                  Delete
+                </button>
+              </div>
+            </div>
+          ))}
+        </nav>
+      </aside>
+
+      <div className="flex flex-1 flex-col min-w-0">
+        {/* Header */}
+        <header className="border-b border-zinc-200 bg-white px-6 py-4 dark:border-zinc-800 dark:bg-zinc-950">
+          <h1 className="text-xl font-semibold text-zinc-900 dark:text-zinc-100">
+            VEFC Vocational Expert
+          </h1>
+          <p className="text-sm text-zinc-500 dark:text-zinc-400">
+            Ask questions about vocational rehabilitation, job analysis, and DOT codes
+          </p>
+        </header>
+
+        {/* Messages */}
+        <main className="flex-1 overflow-y-auto px-4 py-6">
+          <div className="mx-auto max-w-3xl space-y-6">
+            {messages.length === 0 && (
+              <div className="text-center text-zinc-500 dark:text-zinc-400 py-12">
+                <p className="text-lg mb-2">Welcome to the VEFC Vocational Expert!</p>
+                <p className="text-sm">Try asking questions like:</p>
+                <ul className="mt-4 space-y-2 text-sm">
+                  <li>&quot;What is the DOT code for Human Resource Advisor?&quot;</li>
+                  <li>&quot;What training is required for an HR Specialist?&quot;</li>
+                  <li>&quot;What are the physical demands for this job?&quot;</li>
+                  <li>&quot;Summarize the claimant&apos;s work history&quot;</li>
+                </ul>
+                <p className="mt-4 text-xs">
+                  To ask about a claimant, select their case in the sidebar first; cases are imported with{" "}
+                  <code>pnpm import-case</code>.
+                </p>
+              </div>
+            )}
+
+            {messages.map((message) => (
               <div
-                className={`max-w-[85%] rounded-2xl px-4 py-3 ${
-                  message.role === "user"
-                    ? "bg-blue-600 text-white"
-                    : "bg-white text-zinc-900 shadow-sm border border-zinc-200 dark:bg-zinc-800 dark:text-zinc-100 dark:border-zinc-700"
+                key={message.id}
+                className={`flex ${
+                  message.role === "user" ? "justify-end" : "justify-start"
                 }`}
               >
-                <div className="whitespace-pre-wrap">{message.content}</div>
+                <div
+                  className={`max-w-[85%] rounded-2xl px-4 py-3 ${
+                    message.role === "user"
+                      ? "bg-blue-600 text-white"
+                      : "bg-white text-zinc-900 shadow-sm border border-zinc-200 dark:bg-zinc-800 dark:text-zinc-100 dark:border-zinc-700"
+                  }`}
+                >
+                  <div className="whitespace-pre-wrap">
+                    {renderWithCitations(message.content, message.sources, (id) =>
+                      toggleCitation(message.id, id)
+                    )}
+                  </div>
+
+                  {/* Tools used */}
+                  {message.tools && message.tools.length > 0 && (
+                    <p className="mt-2 text-xs text-zinc-400 dark:text-zinc-500">
+                      Looked up with: {message.tools.join(", ")}
+                    </p>
+                  )}
 
-                {/* Sources */}
-                {message.sources && message.sources.length > 0 && (
-                  <div className="mt-3 pt-3 border-t border-zinc-200 dark:border-zinc-600">
-                    <p className="text-xs font-medium text-zinc-500 dark:text-zinc-400 mb-2">
-                      Sources:
+                  {/* Facts the verification pass could not find in the sources */}
+                  {message.unsupportedClaims && message.unsupportedClaims.length > 0 && (
+                    <p className="mt-2 text-xs text-amber-600 dark:text-amber-400">
+                      Not found in the sources:{" "}
+                      {message.unsupportedClaims
+                        .map((claim) => (claim.type === "svp" ? `SVP ${claim.value}` : claim.value))
+                        .join(", ")}
                     </p>
-                    <div className="space-y-1">
-                      {message.sources.map((source, i) => (
-                        <div
-                          key={i}
-                          className="text-xs text-zinc-600 dark:text-zinc-400"
-                        >
-                          {source.fileName}
-                        </div>
-                      ))}
+                  )}
+
+                  {/* Sources */}
+                  {message.sources && message.sources.length > 0 && (
+                    <div className="mt-3 pt-3 border-t border-zinc-200 dark:border-zinc-600">
+                      <p className="text-xs font-medium text-zinc-500 dark:text-zinc-400 mb-2">
+                        Sources:
+                      </p>
+                      <div className="space-y-1">
+                        {message.sources.map((source) => (
+                          <button
+                            key={source.id}
+                            type="button"
+                            onClick={() => toggleCitation(message.id, source.id)}
+                            className={`block text-left text-xs hover:underline ${
+                              source.cited
+                                ? "text-zinc-700 dark:text-zinc-300"
+                                : "text-zinc-400 dark:text-zinc-500"
+                            }`}
+                          >
+                            [{source.id}] {source.fileName}
+                            {source.pageNumber ? `, p. ${source.pageNumber}` : ""}
+                          </button>
+                        ))}
+                      </div>
+
+                      {/* Cited passage */}
+                      {activeCitation?.messageId === message.id &&
+                        message.sources
+                          .filter((source) => source.id === activeCitation.id)
+                          .map((source) => (
+                            <div
+                              key={source.id}
+                              className="mt-3 rounded-lg bg-zinc-50 p-3 text-xs text-zinc-700 dark:bg-zinc-900 dark:text-zinc-300"
+                            >
+                              <p className="mb-2 font-medium">
+                                [{source.id}] {source.fileName}
+                                {source.pageNumber ? `, page ${source.pageNumber}` : ""}
+                                {source.startChar !== undefined
+                                  ? ` (chars ${source.startChar}-${source.endChar})`
+                                  : ""}
+                              </p>
+                              <p className="whitespace-pre-wrap">{source.content}</p>
+                            </div>
+                          ))}
                     </div>
-                  </div>
-                )}
+                  )}
+
+                  {/* Rating, once the answer is complete */}
+                  {message.role === "assistant" &&
+                    message.content &&
+                    !(isLoading && message.id === messages[messages.length - 1]?.id) && (
+                      <FeedbackControls
+                        feedback={message.feedback}
+                        onRate={(rating, correction) => rateAnswer(message, rating, correction)}
+                      />
+                    )}
+                </div>
               </div>
-            </div>
-          ))}
+            ))}
 
-          {isLoading && messages[messages.length - 1]?.content === "" && (
-            <div className="flex justify-start">
-              <div className="bg-white text-zinc-900 shadow-sm border border-zinc-200 dark:bg-zinc-800 dark:text-zinc-100 dark:border-zinc-700 rounded-2xl px-4 py-3">
-                <div className="flex items-center space-x-2">
-                  <div className="w-2 h-2 bg-zinc-400 rounded-full animate-bounce" />
-                  <div className="w-2 h-2 bg-zinc-400 rounded-full animate-bounce delay-100" />
-                  <div className="w-2 h-2 bg-zinc-400 rounded-full animate-bounce delay-200" />
+            {isLoading && messages[messages.length - 1]?.content === "" && (
+              <div className="flex justify-start">
+                <div className="bg-white text-zinc-900 shadow-sm border border-zinc-200 dark:bg-zinc-800 dark:text-zinc-100 dark:border-zinc-700 rounded-2xl px-4 py-3">
+                  <div className="flex items-center space-x-2">
+                    <div className="w-2 h-2 bg-zinc-400 rounded-full animate-bounce" />
+                    <div className="w-2 h-2 bg-zinc-400 rounded-full animate-bounce delay-100" />
+                    <div className="w-2 h-2 bg-zinc-400 rounded-full animate-bounce delay-200" />
+                  </div>
                 </div>
               </div>
-            </div>
-          )}
+            )}
 
-          <div ref={messagesEndRef} />
-        </div>
-      </main>
+            <div ref={messagesEndRef} />
+          </div>
+        </main>
 
-      {/* Input */}
-      <footer className="border-t border-zinc-200 bg-white px-4 py-4 dark:border-zinc-800 dark:bg-zinc-950">
-        <form
-          onSubmit={handleSubmit}
-          className="mx-auto max-w-3xl flex items-center gap-3"
-        >
-          <input
-            type="text"
-            value={input}
-            onChange={(e) => setInput(e.target.value)}
-            placeholder="Ask a question about vocational rehabilitation..."
-            className="flex-1 rounded-xl border border-zinc-300 bg-zinc-50 px-4 py-3 text-zinc-900 placeholder-zinc-500 focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-500/20 dark:border-zinc-700 dark:bg-zinc-900 dark:text-zinc-100 dark:placeholder-zinc-400"
-            disabled={isLoading}
-          />
-          <button
-            type="submit"
-            disabled={isLoading || !input.trim()}
-            className="rounded-xl bg-blue-600 px-6 py-3 font-medium text-white transition-colors hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+        {/* Input */}
+        <footer className="border-t border-zinc-200 bg-white px-4 py-4 dark:border-zinc-800 dark:bg-zinc-950">
+          <form
+            onSubmit={handleSubmit}
+            className="mx-auto max-w-3xl flex items-center gap-3"
           >
-            Send
-          </button>
-        </form>
-      </footer>
+            <input
+              type="text"
+              value={input}
+              onChange={(e) => setInput(e.target.value)}
+              placeholder="Ask a question about vocational rehabilitation..."
+              className="flex-1 rounded-xl border border-zinc-300 bg-zinc-50 px-4 py-3 text-zinc-900 placeholder-zinc-500 focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-500/20 dark:border-zinc-700 dark:bg-zinc-900 dark:text-zinc-100 dark:placeholder-zinc-400"
+              disabled={isLoading}
+            />
+            {isLoading ? (
+              <button
+                type="button"
+                onClick={handleStop}
+                className="rounded-xl bg-zinc-600 px-6 py-3 font-medium text-white transition-colors hover:bg-zinc-700"
+              >
+                Stop
+              </button>
+            ) : (
+              <button
+                type="submit"
+                disabled={!input.trim()}
+                className="rounded-xl bg-blue-600 px-6 py-3 font-medium text-white transition-colors hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Send
+              </button>
+            )}
+          </form>
+        </footer>
+      </div>
     </div>
   );
 }
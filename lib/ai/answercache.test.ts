@@ -0,0 +1,93 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { afterAll, afterEach, describe, expect, it, vi } from "vitest";
+
+// The cache file is chosen on import, so it is pointed at a temp dir first
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), "answer-cache-"));
+const cacheFile = path.join(dir, "answer-cache.json");
+vi.stubEnv("ANSWER_CACHE_FILE", cacheFile);
+
+const { clearAnswerCache, lookupAnswer, normalizeQuestion, replayTokens, storeAnswer } = await import("./answercache");
+
+// Follow-ups are matched by exact question only, so no embeddings are needed
+const scope = { indexVersion: "v1", history: [{ role: "user" as const, content: "Hi" }], settings: {} };
+const answer = { answer: "SVP 7 [1].", model: "groq:a", sources: [], toolCalls: [] };
+
+function storedEntries(): { question: string; hits: number }[] {
+  return JSON.parse(fs.readFileSync(cacheFile, "utf-8")).entries;
+}
+
+afterEach(() => {
+  clearAnswerCache();
+  vi.unstubAllEnvs();
+});
+
+afterAll(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe("normalizeQuestion", () => {
+  it("ignores case, punctuation and spacing", () => {
+    expect(normalizeQuestion("  What's the SVP   of an HR advisor?? ")).toBe("whats the svp of an hr advisor");
+  });
+
+  it("keeps letters and digits from any script", () => {
+    expect(normalizeQuestion("Ｄｏｔ １６６.２６７—０４６ café")).toBe("dot 166267046 café");
+  });
+});
+
+describe("replayTokens", () => {
+  it("splits an answer into tokens that rejoin to it", () => {
+    const text = "It is light work.\n\nSVP 7 [1].";
+    expect(replayTokens(text).join("")).toBe(text);
+    expect(replayTokens(text)[0]).toBe("It ");
+  });
+});
+
+describe("lookupAnswer and storeAnswer", () => {
+  it("finds an answer to the same question however it is written", async () => {
+    storeAnswer(await lookupAnswer("What is the SVP?", scope), answer);
+    const { hit } = await lookupAnswer("what is the svp", scope);
+    expect(hit).toMatchObject({ match: "exact", similarity: 1, answer: "SVP 7 [1].", question: "What is the SVP?" });
+  });
+
+  it("misses when the scope differs", async () => {
+    storeAnswer(await lookupAnswer("What is the SVP?", scope), answer);
+    const { hit } = await lookupAnswer("What is the SVP?", { ...scope, indexVersion: "v2" });
+    expect(hit).toBeNull();
+  });
+
+  it("saves hits with the next write instead of on every hit", async () => {
+    storeAnswer(await lookupAnswer("What is the SVP?", scope), answer);
+    const written = fs.statSync(cacheFile).mtimeMs;
+
+    await lookupAnswer("What is the SVP?", scope);
+    await lookupAnswer("What is the SVP?", scope);
+    expect(fs.statSync(cacheFile).mtimeMs).toBe(written);
+
+    storeAnswer(await lookupAnswer("Another question?", scope), answer);
+    expect(storedEntries()).toEqual([
+      expect.objectContaining({ question: "What is the SVP?", hits: 2 }),
+      expect.objectContaining({ question: "Another question?", hits: 0 }),
+    ]);
+  });
+
+  it("evicts the least recently used answers", async () => {
+    vi.stubEnv("ANSWER_CACHE_MAX_ENTRIES", "2");
+    vi.useFakeTimers();
+    try {
+      for (const question of ["First?", "Second?"]) {
+        storeAnswer(await lookupAnswer(question, scope), answer);
+        vi.advanceTimersByTime(1000);
+      }
+      // Using the first answer keeps it over the second
+      await lookupAnswer("First?", scope);
+      vi.advanceTimersByTime(1000);
+      storeAnswer(await lookupAnswer("Third?", scope), answer);
+    } finally {
+      vi.useRealTimers();
+    }
+    expect(storedEntries().map((entry) => entry.question)).toEqual(["Third?", "First?"]);
+  });
+});
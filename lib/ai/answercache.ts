@@ -0,0 +1,252 @@
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import { cosineSimilarity, generateEmbeddings } from "../kb/vectorstore";
+import type { ToolCallRecord } from "./chain";
+import type { SourceCitation } from "./citations";
+import type { UnsupportedClaim } from "./faithfulness";
+import type { ChatMessage } from "./history";
+import type { StructuredAnswer } from "./structured";
+
+// Cache of finished answers, in one JSON file. An answer is reused for the
+// same normalized question asked with the same index versions, history and
+// settings, or (for standalone questions) for any question whose embedding
+// is close enough to a cached one.
+
+const ANSWER_CACHE_FILE = process.env.ANSWER_CACHE_FILE || path.join(process.cwd(), ".answer-cache.json");
+
+const DEFAULT_MAX_ENTRIES = 500;
+
+// Cosine similarity above which a differently worded question reuses an
+// answer; MiniLM puts paraphrases around 0.9-0.97 and related but
+// different questions (another claimant, another job) lower
+const DEFAULT_SIMILARITY = 0.95;
+
+// Decimals kept of stored embeddings: similarities stay exact to 1e-4 and
+// the file is less than half the size
+const EMBEDDING_DECIMALS = 5;
+
+// Everything an answer depends on besides the question itself
+export interface AnswerCacheScope {
+  // Versions of the indexes searched (getIndexVersion)
+  indexVersion: string;
+  // Earlier turns; only questions without any are matched by meaning
+  history: ChatMessage[];
+  // Request settings that change the answer: model, format, retrieval...
+  settings: Record<string, unknown>;
+}
+
+export interface CachedAnswer {
+  answer: string;
+  // With format "structured"
+  response?: StructuredAnswer;
+  model: string;
+  sources: SourceCitation[];
+  toolCalls: ToolCallRecord[];
+  unsupportedClaims?: UnsupportedClaim[];
+}
+
+export interface AnswerCacheHit extends CachedAnswer {
+  match: "exact" | "semantic";
+  // The cached question, as first asked
+  question: string;
+  similarity: number;
+}
+
+// Result of a lookup; pass it to storeAnswer to cache the answer on a miss
+export interface AnswerLookup {
+  key: string;
+  scope: string;
+  question: string;
+  embedding: number[] | null;
+  hit: AnswerCacheHit | null;
+}
+
+interface AnswerCacheEntry extends CachedAnswer {
+  key: string;
+  // Hash of the AnswerCacheScope
+  scope: string;
+  question: string;
+  embedding?: number[];
+  createdAt: string;
+  lastUsedAt: string;
+  hits: number;
+}
+
+interface AnswerCacheStore {
+  entries: AnswerCacheEntry[];
+}
+
+/**
+ * Whether answers are cached: on unless ANSWER_CACHE is "off"
+ */
+export function isAnswerCacheEnabled(): boolean {
+  return process.env.ANSWER_CACHE?.toLowerCase() !== "off";
+}
+
+function getMaxEntries(): number {
+  const value = Number(process.env.ANSWER_CACHE_MAX_ENTRIES);
+  return value > 0 ? value : DEFAULT_MAX_ENTRIES;
+}
+
+// Above 1 (e.g. ANSWER_CACHE_SIMILARITY=2) turns the semantic tier off
+function getSimilarityThreshold(): number {
+  const value = Number(process.env.ANSWER_CACHE_SIMILARITY);
+  return value > 0 ? value : DEFAULT_SIMILARITY;
+}
+
+/**
+ * Case, punctuation and spacing don't change a question
+ */
+export function normalizeQuestion(question: string): string {
+  return question
+    .normalize("NFKC")
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, "")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function hash(value: string): string {
+  return crypto.createHash("sha256").update(value).digest("hex");
+}
+
+// Read fresh on every call, so `pnpm seed-kb` clearing the file takes
+// effect in a running server
+function readStore(): AnswerCacheStore {
+  if (!fs.existsSync(ANSWER_CACHE_FILE)) return { entries: [] };
+  try {
+    return JSON.parse(fs.readFileSync(ANSWER_CACHE_FILE, "utf-8")) as AnswerCacheStore;
+  } catch (error) {
+    console.warn("Could not read the answer cache, starting empty:", error);
+    return { entries: [] };
+  }
+}
+
+// Write via a temp file so a crash never leaves a half-written cache. A
+// cache that can't be written only costs the next asker a generation, so
+// failures are logged rather than thrown.
+function writeStore(store: AnswerCacheStore): void {
+  try {
+    fs.mkdirSync(path.dirname(ANSWER_CACHE_FILE), { recursive: true });
+    const tmpPath = `${ANSWER_CACHE_FILE}.tmp`;
+    fs.writeFileSync(tmpPath, JSON.stringify(store));
+    fs.renameSync(tmpPath, ANSWER_CACHE_FILE);
+  } catch (error) {
+    console.warn("Could not save the answer cache:", error);
+  }
+}
+
+// Hits not yet saved. They are applied by the next storeAnswer, so a hit
+// costs no write and cannot race another request's write.
+const pendingHits = new Map<string, { hits: number; lastUsedAt: string }>();
+
+function recordHit(key: string): void {
+  const pending = pendingHits.get(key);
+  pendingHits.set(key, { hits: (pending?.hits ?? 0) + 1, lastUsedAt: new Date().toISOString() });
+}
+
+function applyPendingHits(store: AnswerCacheStore): void {
+  for (const entry of store.entries) {
+    const pending = pendingHits.get(entry.key);
+    if (!pending) continue;
+    entry.hits += pending.hits;
+    if (pending.lastUsedAt > entry.lastUsedAt) entry.lastUsedAt = pending.lastUsedAt;
+  }
+  pendingHits.clear();
+}
+
+function toHit(entry: AnswerCacheEntry, match: AnswerCacheHit["match"], similarity: number): AnswerCacheHit {
+  const { answer, response, model, sources, toolCalls, unsupportedClaims, question } = entry;
+  return { answer, response, model, sources, toolCalls, unsupportedClaims, question, match, similarity };
+}
+
+/**
+ * Find a cached answer: first by normalized question, then by embedding
+ * similarity among standalone questions asked with the same scope
+ */
+export async function lookupAnswer(question: string, scope: AnswerCacheScope): Promise<AnswerLookup> {
+  const scopeHash = hash(JSON.stringify(scope));
+  const key = hash(`${scopeHash}\n${normalizeQuestion(question)}`);
+  const lookup: AnswerLookup = { key, scope: scopeHash, question, embedding: null, hit: null };
+
+  const entries = readStore().entries;
+  const exact = entries.find((entry) => entry.key === key);
+  if (exact) {
+    recordHit(key);
+    lookup.hit = toHit(exact, "exact", 1);
+    return lookup;
+  }
+
+  // A follow-up's meaning depends on the conversation, not its wording
+  const threshold = getSimilarityThreshold();
+  if (scope.history.length > 0 || threshold > 1) return lookup;
+
+  // Embedded even with nothing to compare against, so storeAnswer can keep it
+  const [embedding] = (await generateEmbeddings([question])) ?? [];
+  if (!embedding) return lookup;
+  lookup.embedding = embedding;
+
+  let best: { entry: AnswerCacheEntry; similarity: number } | null = null;
+  for (const entry of entries) {
+    if (entry.scope !== scopeHash || !entry.embedding || entry.embedding.length !== embedding.length) continue;
+    const similarity = cosineSimilarity(embedding, entry.embedding);
+    if (!best || similarity > best.similarity) best = { entry, similarity };
+  }
+
+  if (best && best.similarity >= threshold) {
+    recordHit(best.entry.key);
+    lookup.hit = toHit(best.entry, "semantic", best.similarity);
+  }
+  return lookup;
+}
+
+/**
+ * Cache an answer under a lookup's question and scope, evicting the least
+ * recently used answers beyond ANSWER_CACHE_MAX_ENTRIES. The store is read,
+ * changed and written without yielding, so writes within the server never
+ * interleave.
+ */
+export function storeAnswer(lookup: AnswerLookup, answer: CachedAnswer): void {
+  const store = readStore();
+  applyPendingHits(store);
+  const now = new Date().toISOString();
+  const factor = 10 ** EMBEDDING_DECIMALS;
+
+  store.entries = store.entries.filter((entry) => entry.key !== lookup.key);
+  store.entries.push({
+    ...answer,
+    key: lookup.key,
+    scope: lookup.scope,
+    question: lookup.question,
+    embedding: lookup.embedding?.map((value) => Math.round(value * factor) / factor),
+    createdAt: now,
+    lastUsedAt: now,
+    hits: 0,
+  });
+
+  const maxEntries = getMaxEntries();
+  if (store.entries.length > maxEntries) {
+    store.entries.sort((a, b) => b.lastUsedAt.localeCompare(a.lastUsedAt));
+    store.entries.length = maxEntries;
+  }
+
+  writeStore(store);
+}
+
+/**
+ * Drop every cached answer; returns how many there were
+ */
+export function clearAnswerCache(): number {
+  const count = readStore().entries.length;
+  pendingHits.clear();
+  fs.rmSync(ANSWER_CACHE_FILE, { force: true });
+  return count;
+}
+
+/**
+ * Split a cached answer into word-sized tokens for streamed replay
+ */
+export function replayTokens(answer: string): string[] {
+  return answer.split(/(?<=\s)(?=\S)/);
+}
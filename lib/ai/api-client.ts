@@ -0,0 +1,25 @@
+// Browser-side fetch with the API key the user entered (see proxy.ts).
+// Kept free of server imports so the app's pages can use it.
+
+// Where this browser keeps its API key
+const API_KEY_STORAGE = "vefc-api-key";
+
+/**
+ * fetch with the saved API key, asking for one if the server requires it
+ */
+export async function apiFetch(url: string, init: RequestInit = {}): Promise<Response> {
+  const send = () => {
+    const headers = new Headers(init.headers);
+    const key = localStorage.getItem(API_KEY_STORAGE);
+    if (key) headers.set("Authorization", `Bearer ${key}`);
+    return fetch(url, { ...init, headers });
+  };
+
+  const response = await send();
+  if (response.status !== 401) return response;
+
+  const key = window.prompt("This server requires an API key");
+  if (!key?.trim()) return response;
+  localStorage.setItem(API_KEY_STORAGE, key.trim());
+  return send();
+}
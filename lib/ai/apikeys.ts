@@ -0,0 +1,215 @@
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+
+// API keys for the HTTP API, stored hashed in one JSON file with each key's
+// scopes, quotas and usage. The plain key is only shown when it is created.
+
+const API_KEYS_FILE = process.env.API_KEYS_FILE || path.join(process.cwd(), ".apikeys.json");
+
+const KEY_PREFIX = "vefc_";
+
+// Characters of the key kept to tell keys apart in listings
+const DISPLAY_PREFIX_CHARS = 12;
+
+// Days of daily usage kept per key
+const USAGE_DAYS = 90;
+
+// What a key may call: chat (/api/chat, /api/feedback), speech (/api/speak,
+// /api/transcribe), sessions, cases, occupations (/api/occupations,
+// /api/transferable-skills) and admin (/api/admin)
+export const API_SCOPES = ["chat", "speech", "sessions", "cases", "occupations", "admin"] as const;
+export type ApiScope = (typeof API_SCOPES)[number];
+
+// Scope each API route needs, by path prefix
+const ROUTE_SCOPES: [string, ApiScope][] = [
+  ["/api/chat", "chat"],
+  ["/api/v1/chat", "chat"],
+  ["/api/feedback", "chat"],
+  ["/api/speak", "speech"],
+  ["/api/transcribe", "speech"],
+  ["/api/sessions", "sessions"],
+  ["/api/cases", "cases"],
+  ["/api/occupations", "occupations"],
+  ["/api/transferable-skills", "occupations"],
+  ["/api/admin", "admin"],
+];
+
+/**
+ * The scope a route needs, or null for routes open to everyone
+ */
+export function scopeForPath(pathname: string): ApiScope | null {
+  const match = ROUTE_SCOPES.find(
+    ([prefix]) => pathname === prefix || pathname.startsWith(`${prefix}/`)
+  );
+  return match ? match[1] : null;
+}
+
+export interface ApiKeyQuotas {
+  // Token bucket refill rate
+  requestsPerMinute: number;
+  // Token bucket size: requests allowed at once after a quiet period
+  burst: number;
+  // Cap per UTC day, if any
+  requestsPerDay?: number;
+}
+
+export const DEFAULT_QUOTAS: ApiKeyQuotas = { requestsPerMinute: 30, burst: 10 };
+
+export interface ApiKeyUsage {
+  requests: number;
+  // Requests refused for being over a quota
+  rejected: number;
+  lastUsedAt: string | null;
+  // Per UTC day ("2025-01-31")
+  days: Record<string, { requests: number; rejected: number }>;
+  scopes: Partial<Record<ApiScope, number>>;
+}
+
+export interface ApiKey {
+  id: string;
+  name: string;
+  // Start of the key, e.g. "vefc_Ab12Cd3"
+  prefix: string;
+  // SHA-256 of the key
+  hash: string;
+  scopes: ApiScope[];
+  quotas: ApiKeyQuotas;
+  createdAt: string;
+  revokedAt?: string;
+  usage: ApiKeyUsage;
+}
+
+// A key as listed: everything but the hash
+export type ApiKeyInfo = Omit<ApiKey, "hash">;
+
+interface ApiKeyStore {
+  keys: ApiKey[];
+}
+
+function hashKey(secret: string): string {
+  return crypto.createHash("sha256").update(secret).digest("hex");
+}
+
+function toInfo(key: ApiKey): ApiKeyInfo {
+  const info: Partial<ApiKey> = { ...key };
+  delete info.hash;
+  return info as ApiKeyInfo;
+}
+
+export function utcDay(date: Date = new Date()): string {
+  return date.toISOString().slice(0, 10);
+}
+
+// Read fresh on every call: keys created through the admin API must take
+// effect at once, and usage is written by every request
+function readStore(): ApiKeyStore {
+  if (!fs.existsSync(API_KEYS_FILE)) return { keys: [] };
+  return JSON.parse(fs.readFileSync(API_KEYS_FILE, "utf-8")) as ApiKeyStore;
+}
+
+// Write via a temp file so a crash never leaves a half-written store
+function writeStore(store: ApiKeyStore): void {
+  fs.mkdirSync(path.dirname(API_KEYS_FILE), { recursive: true });
+  const tmpPath = `${API_KEYS_FILE}.tmp`;
+  fs.writeFileSync(tmpPath, JSON.stringify(store, null, 2), { mode: 0o600 });
+  fs.renameSync(tmpPath, API_KEYS_FILE);
+}
+
+/**
+ * Whether requests need an API key: API_AUTH "on" or "off", or by default
+ * as soon as any key exists. Admin routes need one regardless (see proxy.ts).
+ */
+export function isAuthRequired(): boolean {
+  const setting = process.env.API_AUTH?.toLowerCase();
+  if (setting === "on") return true;
+  if (setting === "off") return false;
+  return readStore().keys.length > 0;
+}
+
+/**
+ * Create a key; returns the plain key, which is not stored
+ */
+export function createApiKey(options: {
+  name: string;
+  scopes: ApiScope[];
+  quotas?: Partial<ApiKeyQuotas>;
+}): { key: ApiKeyInfo; secret: string } {
+  const secret = `${KEY_PREFIX}${crypto.randomBytes(24).toString("base64url")}`;
+  const key: ApiKey = {
+    id: crypto.randomUUID(),
+    name: options.name.trim(),
+    prefix: secret.slice(0, DISPLAY_PREFIX_CHARS),
+    hash: hashKey(secret),
+    scopes: [...new Set(options.scopes)],
+    quotas: { ...DEFAULT_QUOTAS, ...options.quotas },
+    createdAt: new Date().toISOString(),
+    usage: { requests: 0, rejected: 0, lastUsedAt: null, days: {}, scopes: {} },
+  };
+
+  const store = readStore();
+  store.keys.push(key);
+  writeStore(store);
+  return { key: toInfo(key), secret };
+}
+
+export function listApiKeys(): ApiKeyInfo[] {
+  return readStore().keys.map(toInfo);
+}
+
+export function getApiKey(id: string): ApiKeyInfo | null {
+  const key = readStore().keys.find((k) => k.id === id);
+  return key ? toInfo(key) : null;
+}
+
+export function revokeApiKey(id: string): ApiKeyInfo | null {
+  const store = readStore();
+  const key = store.keys.find((k) => k.id === id);
+  if (!key) return null;
+
+  key.revokedAt ??= new Date().toISOString();
+  writeStore(store);
+  return toInfo(key);
+}
+
+/**
+ * The active key matching a plain key, if any
+ */
+export function findApiKey(secret: string): ApiKeyInfo | null {
+  if (!secret.startsWith(KEY_PREFIX)) return null;
+  const hash = Buffer.from(hashKey(secret), "hex");
+
+  const key = readStore().keys.find((k) => crypto.timingSafeEqual(Buffer.from(k.hash, "hex"), hash));
+  return key && !key.revokedAt ? toInfo(key) : null;
+}
+
+/**
+ * Count a request against a key, accepted or refused over quota
+ */
+export function recordUsage(id: string, scope: ApiScope, rejected: boolean = false): void {
+  const store = readStore();
+  const key = store.keys.find((k) => k.id === id);
+  if (!key) return;
+
+  const now = new Date();
+  const day = utcDay(now);
+  const today = (key.usage.days[day] ??= { requests: 0, rejected: 0 });
+
+  if (rejected) {
+    key.usage.rejected++;
+    today.rejected++;
+  } else {
+    key.usage.requests++;
+    today.requests++;
+    key.usage.scopes[scope] = (key.usage.scopes[scope] ?? 0) + 1;
+    key.usage.lastUsedAt = now.toISOString();
+  }
+
+  // Keep the most recent days only
+  const days = Object.keys(key.usage.days).sort();
+  for (const old of days.slice(0, Math.max(0, days.length - USAGE_DAYS))) {
+    delete key.usage.days[old];
+  }
+
+  writeStore(store);
+}
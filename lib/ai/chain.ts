@@ -1,23 +1,137 @@
-import { createGroq } from "@ai-sdk/groq";
-import { generateText, streamText } from "ai";
+import { generateText, Output, stepCountIs, streamText, type ModelMessage } from "ai";
 import { Document } from "@langchain/core/documents";
-import { queryVectorStore } from "../kb/vectorstore";
-import { VOCATIONAL_SYSTEM_PROMPT, RAG_PROMPT_TEMPLATE } from "./prompts";
+import { queryVectorStore, RetrievalOptions } from "../kb/vectorstore";
+import { findOccupationsInText, formatOccupation } from "../kb/occupations";
+import {
+  VOCATIONAL_SYSTEM_PROMPT,
+  RAG_PROMPT_TEMPLATE,
+  CONDENSED_QUESTION_PROMPT,
+  STRUCTURED_RESPONSE_PROMPT,
+  FAITHFULNESS_CORRECTION_PROMPT,
+} from "./prompts";
+import {
+  ChatMessage,
+  formatChatHistory,
+  toModelMessages,
+  trimHistory,
+} from "./history";
+import {
+  CANDIDATE_MULTIPLIER,
+  RerankOptions,
+  rerankDocuments,
+} from "./rerank";
+import {
+  ChatStreamEvent,
+  ModelConfig,
+  getLanguageModel,
+  getModelChain,
+  streamWithFallback,
+  withModelFallback,
+} from "./providers";
+import { createChatTools, MAX_TOOL_STEPS } from "./tools";
+import { OpenSpan, TokenUsage, toTokenUsage, Trace, traced } from "./tracing";
+import {
+  normalizeStructuredAnswer,
+  StructuredAnswer,
+  structuredAnswerSchema,
+} from "./structured";
+import {
+  findUnsupportedClaims,
+  formatUnsupportedClaims,
+  UnsupportedClaim,
+  VerifyMode,
+} from "./faithfulness";
 
-// Initialize Groq client
-const groq = createGroq({
-  apiKey: process.env.GROQ_API_KEY,
-});
+// A tool the model called while answering, with its result
+export interface ToolCallRecord {
+  toolCallId: string;
+  toolName: string;
+  input: unknown;
+  output?: unknown;
+}
+
+export interface RAGChainOptions {
+  // Prior conversation turns, oldest first (excluding the current question)
+  history?: ChatMessage[];
+  // Token budget for the history passed to the model
+  maxHistoryTokens?: number;
+  // Hybrid retrieval weighting
+  retrieval?: RetrievalOptions;
+  // Second-stage reranking and MMR de-duplication of retrieved chunks
+  rerank?: RerankOptions;
+  // "provider:modelId" to try before the configured models (LLM_MODELS)
+  model?: string;
+  // Check the answer's facts against the sources (default "flag")
+  verify?: VerifyMode;
+  // Cancels a streamed answer's model call
+  abortSignal?: AbortSignal;
+  // Records retrieval, the prompt, model calls and verification as spans
+  trace?: Trace;
+}
+
+// Retrieval settings for the chain's own search and its tools' searches
+function retrievalOptions(options: RAGChainOptions): RetrievalOptions {
+  return { ...options.retrieval, trace: options.trace };
+}
+
+/**
+ * Run a model call as a "generation" span with the model that answered,
+ * its token usage and its output
+ */
+function traceGeneration<T extends { text: string; totalUsage: TokenUsage; finishReason: string }>(
+  trace: Trace | undefined,
+  attributes: Record<string, unknown>,
+  generate: () => Promise<{ result: T; model: string }>
+): Promise<{ result: T; model: string }> {
+  return traced(trace, "generation", attributes, async (span) => {
+    const generated = await generate();
+    span.model = generated.model;
+    span.usage = toTokenUsage(generated.result.totalUsage);
+    span.finishReason = generated.result.finishReason;
+    span.text = generated.result.text;
+    return generated;
+  });
+}
 
-// Use Llama 3.3 70B model
-const model = groq("llama-3.3-70b-versatile");
+// Pass a stream's events through, recording its text, time to first token
+// and token usage on the span; the span ends with the stream
+async function* traceStream(
+  events: AsyncIterable<ChatStreamEvent>,
+  span: OpenSpan | undefined
+): AsyncGenerator<ChatStreamEvent> {
+  if (!span) {
+    yield* events;
+    return;
+  }
 
-// Format documents for context
+  const started = Date.now();
+  let text = "";
+  try {
+    for await (const event of events) {
+      if (event.type === "text") {
+        span.attributes.timeToFirstTokenMs ??= Date.now() - started;
+        text += event.text;
+      } else if (event.type === "finish") {
+        span.attributes.usage = toTokenUsage(event.usage);
+      }
+      yield event;
+    }
+  } catch (error) {
+    span.attributes.text = text;
+    span.fail(error);
+    throw error;
+  } finally {
+    span.end({ text });
+  }
+}
+
+// Format documents for context, numbered so the model can cite them as [n]
 function formatDocuments(docs: Document[]): string {
   return docs
-    .map((doc) => {
+    .map((doc, i) => {
       const source = doc.metadata.fileName || doc.metadata.source || "Unknown";
-      return `[Source: ${source}]\n${doc.pageContent}`;
+      const page = doc.metadata.pageNumber ?? doc.metadata.loc?.pageNumber;
+      return `[${i + 1}] (Source: ${source}${page ? `, page ${page}` : ""})\n${doc.pageContent}`;
     })
     .join("\n\n---\n\n");
 }
@@ -31,62 +145,328 @@ function buildPrompt(question: string, context: string): string {
   return ragPrompt;
 }
 
+// Tool calls from every step, paired with their results
+function collectToolCalls(
+  steps: { toolCalls: ToolCallRecord[]; toolResults: { toolCallId: string; output: unknown }[] }[]
+): ToolCallRecord[] {
+  return steps.flatMap((step) =>
+    step.toolCalls.map((call) => {
+      const output = step.toolResults.find((r) => r.toolCallId === call.toolCallId);
+      return {
+        toolCallId: call.toolCallId,
+        toolName: call.toolName,
+        input: call.input,
+        output: output?.output,
+      };
+    })
+  );
+}
+
 /**
- * Query the RAG chain with automatic KB lookup
+ * Facts in the answer that neither the question, the retrieved passages,
+ * the occupation records nor the tool results support. Undefined when
+ * verification is off.
  */
-export async function queryRAGChain(
+export function verifyAnswer(
   question: string,
-  k: number = 5
-): Promise<{ answer: string; sources: Document[] }> {
-  // Retrieve relevant documents
-  const relevantDocs = await queryVectorStore(question, k);
+  answer: string,
+  sources: Document[],
+  toolOutputs: unknown[],
+  options: RAGChainOptions = {}
+): UnsupportedClaim[] | undefined {
+  if (options.verify === "off") return undefined;
+
+  // Facts the user gave in earlier turns count as support too
+  const userTurns = (options.history ?? []).filter((m) => m.role === "user").map((m) => m.content);
+  const claims = findUnsupportedClaims(answer, {
+    question: [...userTurns, question].join("\n"),
+    sources,
+    toolOutputs,
+  });
+
+  options.trace?.event("verification", { mode: options.verify ?? "flag", unsupportedClaims: claims });
+  return claims;
+}
+
+// Follow-up turn asking the model to correct its unsupported claims
+function correctionMessages(
+  messages: ModelMessage[],
+  answer: string,
+  claims: UnsupportedClaim[]
+): ModelMessage[] {
+  return [
+    ...messages,
+    { role: "assistant", content: answer },
+    { role: "user", content: FAITHFULNESS_CORRECTION_PROMPT.replace("{claims}", formatUnsupportedClaims(claims)) },
+  ];
+}
+
+/**
+ * Rewrite a follow-up question into a standalone question using the history
+ */
+async function condenseQuestion(
+  question: string,
+  history: ChatMessage[],
+  models: ModelConfig[] = getModelChain()
+): Promise<string> {
+  if (history.length === 0) {
+    return question;
+  }
+
+  try {
+    const prompt = CONDENSED_QUESTION_PROMPT.replace(
+      "{chat_history}",
+      formatChatHistory(history)
+    ).replace("{question}", question);
+
+    const { result } = await withModelFallback(models, (model, abortSignal) =>
+      generateText({ model, prompt, abortSignal })
+    );
+    const condensed = result.text.trim();
+    return condensed || question;
+  } catch (error) {
+    console.warn("Could not condense question, using it as-is:", error);
+    return question;
+  }
+}
+
+/**
+ * Retrieve context for the question and assemble the model messages
+ */
+async function prepareRAGChain(
+  question: string,
+  k: number,
+  options: RAGChainOptions,
+  models: ModelConfig[]
+): Promise<{ messages: ModelMessage[]; sources: Document[] }> {
+  const history = trimHistory(options.history ?? [], options.maxHistoryTokens);
+
+  // Follow-ups like "what about its physical demands?" need the earlier turns
+  const standaloneQuestion =
+    history.length > 0
+      ? await traced(options.trace, "condense", { question, historyTurns: history.length }, async (span) => {
+          span.standaloneQuestion = await condenseQuestion(question, history, models);
+          return span.standaloneQuestion as string;
+        })
+      : question;
+
+  // Over-fetch candidates, then rerank and drop near-duplicate chunks
+  const rerank = options.rerank ?? {};
+  const candidates = await queryVectorStore(
+    standaloneQuestion,
+    Math.max(rerank.candidates ?? k * CANDIDATE_MULTIPLIER, k),
+    retrievalOptions(options)
+  );
+  const relevantDocs = await traced(
+    options.trace,
+    "rerank",
+    { mode: rerank.mode, mmrLambda: rerank.mmrLambda, candidates: candidates.length, k },
+    async (span) => {
+      const docs = await rerankDocuments(standaloneQuestion, candidates, k, rerank, getLanguageModel(models[0]));
+      span.selected = docs.map((doc) => ({
+        chunkId: doc.metadata.chunkId,
+        fileName: doc.metadata.fileName ?? doc.metadata.source,
+        pageNumber: doc.metadata.pageNumber,
+        retrievalRank: candidates.indexOf(doc) + 1,
+      }));
+      return docs;
+    }
+  );
 
   // Format context from retrieved documents
-  const context = formatDocuments(relevantDocs);
+  let context = formatDocuments(relevantDocs);
+
+  // Exact facts for any DOT codes mentioned come from the structured records
+  const occupations = findOccupationsInText(standaloneQuestion);
+  if (occupations.length > 0) {
+    const facts = occupations.map(formatOccupation).join("\n\n");
+    context = `[Source: Occupation records]\n${facts}\n\n---\n\n${context}`;
+  }
 
   // Build the full prompt
   const prompt = buildPrompt(question, context);
-
-  // Generate response
-  const { text } = await generateText({
-    model,
-    system: VOCATIONAL_SYSTEM_PROMPT,
-    prompt,
+  const messages: ModelMessage[] = [...toModelMessages(history), { role: "user", content: prompt }];
+  options.trace?.event("prompt", {
+    messages,
+    occupationRecords: occupations.map((occupation) => occupation.dotCode),
   });
 
+  return { messages, sources: relevantDocs };
+}
+
+/**
+ * Query the RAG chain with automatic KB lookup
+ * `model` in the result is the "provider:modelId" that answered
+ */
+export async function queryRAGChain(
+  question: string,
+  k: number = 5,
+  options: RAGChainOptions = {}
+): Promise<{
+  answer: string;
+  sources: Document[];
+  model: string;
+  toolCalls: ToolCallRecord[];
+  unsupportedClaims?: UnsupportedClaim[];
+}> {
+  const models = getModelChain(options.model);
+  const { messages, sources } = await prepareRAGChain(question, k, options, models);
+
+  // Generate response, falling back through the model chain
+  const generate = (messages: ModelMessage[], attempt: string) =>
+    traceGeneration(options.trace, { attempt, system: VOCATIONAL_SYSTEM_PROMPT }, () =>
+      withModelFallback(models, (model, abortSignal, responded) =>
+        generateText({
+          model,
+          system: VOCATIONAL_SYSTEM_PROMPT,
+          messages,
+          tools: createChatTools(retrievalOptions(options)),
+          stopWhen: stepCountIs(MAX_TOOL_STEPS),
+          onStepFinish: responded,
+          abortSignal,
+        })
+      )
+    );
+
+  let { result, model } = await generate(messages, "answer");
+  let toolCalls = collectToolCalls(result.steps);
+  let unsupportedClaims = verifyAnswer(
+    question,
+    result.text,
+    sources,
+    toolCalls.map((call) => call.output),
+    options
+  );
+
+  // One chance to correct unsupported facts; whatever remains is flagged
+  if (options.verify === "regenerate" && unsupportedClaims?.length) {
+    ({ result, model } = await generate(correctionMessages(messages, result.text, unsupportedClaims), "correction"));
+    toolCalls = [...toolCalls, ...collectToolCalls(result.steps)];
+    unsupportedClaims = verifyAnswer(
+      question,
+      result.text,
+      sources,
+      toolCalls.map((call) => call.output),
+      options
+    );
+  }
+
   return {
-    answer: text,
-    sources: relevantDocs,
+    answer: result.text,
+    sources,
+    model,
+    toolCalls,
+    unsupportedClaims,
   };
 }
 
 /**
- * Stream RAG chain response
+ * Query the RAG chain for a schema-validated answer: a spoken summary, the
+ * detailed answer, extracted entities, follow-ups and a confidence flag
  */
-export async function streamRAGChain(
+export async function queryStructuredRAGChain(
   question: string,
-  k: number = 5
-): Promise<{ stream: ReturnType<typeof streamText>; sources: Document[] }> {
-  // Retrieve relevant documents
-  const relevantDocs = await queryVectorStore(question, k);
+  k: number = 5,
+  options: RAGChainOptions = {}
+): Promise<{
+  answer: StructuredAnswer;
+  sources: Document[];
+  model: string;
+  toolCalls: ToolCallRecord[];
+  unsupportedClaims?: UnsupportedClaim[];
+}> {
+  const models = getModelChain(options.model);
+  const { messages, sources } = await prepareRAGChain(question, k, options, models);
 
-  // Format context from retrieved documents
-  const context = formatDocuments(relevantDocs);
+  // A model whose output does not match the schema counts as a failure
+  const system = `${VOCATIONAL_SYSTEM_PROMPT}\n\n${STRUCTURED_RESPONSE_PROMPT}`;
+  const generate = (messages: ModelMessage[], attempt: string) =>
+    traceGeneration(options.trace, { attempt, system }, () =>
+      withModelFallback(models, (model, abortSignal, responded) =>
+        generateText({
+          model,
+          system,
+          messages,
+          tools: createChatTools(retrievalOptions(options)),
+          stopWhen: stepCountIs(MAX_TOOL_STEPS),
+          output: Output.object({ schema: structuredAnswerSchema, name: "answer" }),
+          onStepFinish: responded,
+          abortSignal,
+        })
+      )
+    );
 
-  // Build the full prompt
-  const prompt = buildPrompt(question, context);
+  // Both the spoken and the detailed answer are checked
+  const answerText = (answer: StructuredAnswer) => `${answer.detailedAnswer}\n\n${answer.spokenSummary}`;
 
-  // Create streaming response
-  const stream = streamText({
-    model,
-    system: VOCATIONAL_SYSTEM_PROMPT,
-    prompt,
-  });
+  let { result, model } = await generate(messages, "answer");
+  let toolCalls = collectToolCalls(result.steps);
+  let unsupportedClaims = verifyAnswer(
+    question,
+    answerText(result.output),
+    sources,
+    toolCalls.map((call) => call.output),
+    options
+  );
+
+  if (options.verify === "regenerate" && unsupportedClaims?.length) {
+    const correction = correctionMessages(messages, JSON.stringify(result.output), unsupportedClaims);
+    ({ result, model } = await generate(correction, "correction"));
+    toolCalls = [...toolCalls, ...collectToolCalls(result.steps)];
+    unsupportedClaims = verifyAnswer(
+      question,
+      answerText(result.output),
+      sources,
+      toolCalls.map((call) => call.output),
+      options
+    );
+  }
 
   return {
-    stream,
-    sources: relevantDocs,
+    answer: normalizeStructuredAnswer(result.output),
+    sources,
+    model,
+    toolCalls,
+    unsupportedClaims,
   };
 }
 
-export { formatDocuments, model };
+/**
+ * Stream RAG chain response
+ */
+export async function streamRAGChain(
+  question: string,
+  k: number = 5,
+  options: RAGChainOptions = {}
+): Promise<{ events: AsyncIterable<ChatStreamEvent>; sources: Document[]; model: string }> {
+  const models = getModelChain(options.model);
+  const { messages, sources } = await prepareRAGChain(question, k, options, models);
+
+  // Create streaming response with the first model that starts answering
+  const span = options.trace?.startSpan("generation", { attempt: "answer", system: VOCATIONAL_SYSTEM_PROMPT });
+  try {
+    const { events, model } = await streamWithFallback(models, (model, abortSignal) =>
+      streamText({
+        model,
+        system: VOCATIONAL_SYSTEM_PROMPT,
+        messages,
+        tools: createChatTools(retrievalOptions(options)),
+        stopWhen: stepCountIs(MAX_TOOL_STEPS),
+        abortSignal,
+      }),
+      options.abortSignal
+    );
+    if (span) span.attributes.model = model;
+
+    return {
+      events: traceStream(events, span),
+      sources,
+      model,
+    };
+  } catch (error) {
+    span?.fail(error);
+    throw error;
+  }
+}
+
+export { formatDocuments, condenseQuestion };
@@ -0,0 +1,46 @@
+import { Document } from "@langchain/core/documents";
+
+// A retrieved passage as returned to clients, numbered to match [n] markers
+export interface SourceCitation {
+  id: number;
+  chunkId: string;
+  fileName: string;
+  pageNumber?: number;
+  startChar?: number;
+  endChar?: number;
+  content: string;
+  // Whether the answer actually carries a [n] marker for this passage
+  cited: boolean;
+}
+
+/**
+ * Collect the [n] citation markers used in an answer
+ */
+export function extractCitationMarkers(text: string): Set<number> {
+  const markers = new Set<number>();
+  for (const match of text.matchAll(/\[(\d+(?:\s*,\s*\d+)*)\]/g)) {
+    for (const n of match[1].split(",")) {
+      markers.add(Number(n.trim()));
+    }
+  }
+  return markers;
+}
+
+/**
+ * Map retrieved documents to numbered citations, in the same order they
+ * were numbered in the prompt
+ */
+export function toCitations(docs: Document[], answer: string): SourceCitation[] {
+  const markers = extractCitationMarkers(answer);
+
+  return docs.map((doc, i) => ({
+    id: i + 1,
+    chunkId: doc.metadata.chunkId,
+    fileName: doc.metadata.fileName || doc.metadata.source,
+    pageNumber: doc.metadata.pageNumber ?? doc.metadata.loc?.pageNumber,
+    startChar: doc.metadata.startChar,
+    endChar: doc.metadata.endChar,
+    content: doc.pageContent,
+    cited: markers.has(i + 1),
+  }));
+}
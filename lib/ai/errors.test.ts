@@ -0,0 +1,34 @@
+import { describe, expect, it } from "vitest";
+import { z } from "zod";
+import { parseJsonBody } from "./errors";
+
+const schema = z.object({
+  name: z.string().min(1),
+  items: z.array(z.object({ count: z.number() })).default([]),
+});
+
+const request = (body: string) => new Request("http://localhost/api/test", { method: "POST", body });
+
+describe("parseJsonBody", () => {
+  it("returns the parsed body with defaults applied", async () => {
+    expect(await parseJsonBody(request('{"name":"a"}'), schema)).toEqual({ data: { name: "a", items: [] } });
+  });
+
+  it("answers invalid JSON with invalid_request", async () => {
+    const { error } = await parseJsonBody(request("{name:"), schema);
+    expect(error?.status).toBe(400);
+    expect(await error?.json()).toEqual({ error: "Request body must be valid JSON", code: "invalid_request" });
+  });
+
+  it("lists each invalid field by its dotted path", async () => {
+    const { error } = await parseJsonBody(request('{"items":[{"count":"2"}]}'), schema);
+    const body = await error?.json();
+    expect(body.code).toBe("invalid_request");
+    expect(body.fields.map((field: { path: string }) => field.path)).toEqual(["name", "items.0.count"]);
+  });
+
+  it("validates an empty body as an empty object", async () => {
+    const { error } = await parseJsonBody(request(""), schema);
+    expect((await error?.json()).fields).toHaveLength(1);
+  });
+});
@@ -0,0 +1,89 @@
+import { z } from "zod";
+
+// The API's error envelope: { "error": message, "code": stable code,
+// "fields"?: per-field problems }. Clients branch on `code`; `error` is for
+// people and may change. Internal error details are logged, never sent.
+
+export const ERROR_STATUS = {
+  invalid_request: 400,
+  unauthorized: 401,
+  forbidden: 403,
+  not_found: 404,
+  payload_too_large: 413,
+  unsupported_media_type: 415,
+  rate_limited: 429,
+  quota_exceeded: 429,
+  internal_error: 500,
+} as const;
+
+export type ErrorCode = keyof typeof ERROR_STATUS;
+
+export const ERROR_CODES = Object.keys(ERROR_STATUS) as ErrorCode[];
+
+export interface FieldError {
+  // Dotted path into the body, e.g. "messages.0.content"
+  path: string;
+  message: string;
+}
+
+export interface ErrorBody {
+  error: string;
+  code: ErrorCode;
+  fields?: FieldError[];
+}
+
+export function errorResponse(
+  code: ErrorCode,
+  message: string,
+  init: { fields?: FieldError[]; headers?: HeadersInit } = {}
+): Response {
+  const body: ErrorBody = { error: message, code, ...(init.fields && { fields: init.fields }) };
+  return Response.json(body, { status: ERROR_STATUS[code], headers: init.headers });
+}
+
+export function notFound(what: string, id: string): Response {
+  return errorResponse("not_found", `${what} not found: ${id}`);
+}
+
+/**
+ * Log an unexpected error and answer with a generic 500
+ */
+export function internalError(message: string, error: unknown): Response {
+  console.error(`${message}:`, error);
+  return errorResponse("internal_error", message);
+}
+
+function toFieldErrors(error: z.ZodError): FieldError[] {
+  return error.issues.map((issue) => ({
+    path: issue.path.map(String).join("."),
+    message: issue.message,
+  }));
+}
+
+/**
+ * Parse and validate a JSON request body; `error` is a 400 response with
+ * one entry per invalid field
+ */
+export async function parseJsonBody<T extends z.ZodType>(
+  req: Request,
+  schema: T
+): Promise<{ data: z.output<T>; error?: undefined } | { data?: undefined; error: Response }> {
+  // An empty body is an empty object, so required fields are reported
+  const text = await req.text();
+  let json: unknown = {};
+  try {
+    if (text.trim()) json = JSON.parse(text);
+  } catch {
+    return { error: errorResponse("invalid_request", "Request body must be valid JSON") };
+  }
+
+  const result = schema.safeParse(json);
+  if (!result.success) {
+    return {
+      error: errorResponse("invalid_request", "Invalid request body", {
+        fields: toFieldErrors(result.error),
+      }),
+    };
+  }
+  return { data: result.data };
+}
@@ -0,0 +1,336 @@
+import fs from "fs";
+import path from "path";
+import { generateText } from "ai";
+import { caseIndexDir, findCaseByName } from "../kb/cases";
+import { queryVectorStore, RetrievalOptions } from "../kb/vectorstore";
+import { queryRAGChain, RAGChainOptions } from "./chain";
+import { extractFacts } from "./faithfulness";
+import { EVAL_JUDGE_PROMPT } from "./prompts";
+import { getModelChain, withModelFallback } from "./providers";
+
+// Retrieval and answer quality over a golden question set: recall@k and MRR
+// of the expected source documents, exact match of expected DOT code / SVP /
+// strength facts, and an LLM judge of the answer against a reference answer
+
+export const DEFAULT_GOLDEN_PATH = path.join(process.cwd(), "eval", "golden.json");
+export const DEFAULT_RESULTS_DIR = path.join(process.cwd(), "eval", "results");
+
+export interface GoldenQuestion {
+  id: string;
+  question: string;
+  // Reference answer for the judge
+  expectedAnswer: string;
+  // File names of the documents that answer the question
+  expectedSources: string[];
+  // Name of the case workspace the question is about (see pnpm import-case)
+  case?: string;
+  // Facts the answer must state exactly
+  expectedFacts?: {
+    dotCodes?: string[];
+    svp?: number[];
+    strength?: string[];
+  };
+}
+
+export type JudgeVerdict = "correct" | "partial" | "incorrect";
+
+const VERDICT_SCORES: Record<JudgeVerdict, number> = { correct: 1, partial: 0.5, incorrect: 0 };
+
+export interface QuestionResult {
+  id: string;
+  question: string;
+  // File names of the top-k retrieved chunks, best first
+  retrieved: string[];
+  recall: number;
+  reciprocalRank: number;
+  answer?: string;
+  model?: string;
+  // null when the question has no expected facts
+  exactMatch?: boolean | null;
+  missingFacts?: string[];
+  unsupportedClaims?: number;
+  judge?: { verdict: JudgeVerdict; score: number; reason: string };
+  error?: string;
+}
+
+export interface EvalSummary {
+  questions: number;
+  recallAtK: number;
+  mrr: number;
+  // Over questions with expected facts
+  exactMatch: number | null;
+  // Mean judge score (correct 1, partial 0.5, incorrect 0)
+  judgeScore: number | null;
+  unsupportedClaims: number | null;
+  errors: number;
+}
+
+export interface EvalRun {
+  timestamp: string;
+  goldenSet: string;
+  k: number;
+  model: string | null;
+  judgeModel: string | null;
+  summary: EvalSummary;
+  results: QuestionResult[];
+}
+
+export interface EvalOptions {
+  k?: number;
+  // Run retrieval metrics only, without the chain or the judge
+  retrievalOnly?: boolean;
+  // "provider:modelId" for answers, and for judging (defaults to the same)
+  model?: string;
+  judgeModel?: string;
+  chain?: Omit<RAGChainOptions, "model">;
+  onResult?: (result: QuestionResult, index: number) => void;
+}
+
+export function loadGoldenSet(filePath: string = DEFAULT_GOLDEN_PATH): GoldenQuestion[] {
+  const data = JSON.parse(fs.readFileSync(filePath, "utf-8"));
+  const questions = Array.isArray(data) ? data : data.questions;
+
+  if (!Array.isArray(questions)) {
+    throw new Error(`Golden set ${filePath} must be an array or have a "questions" array`);
+  }
+  for (const [i, q] of questions.entries()) {
+    if (!q?.id || !q.question || !q.expectedAnswer || !Array.isArray(q.expectedSources)) {
+      throw new Error(
+        `Golden question ${i + 1} needs "id", "question", "expectedAnswer" and "expectedSources"`
+      );
+    }
+  }
+  return questions as GoldenQuestion[];
+}
+
+/**
+ * Share of the expected documents found in the retrieved list
+ */
+export function recallAtK(retrieved: string[], expected: string[]): number {
+  if (expected.length === 0) return 1;
+  const found = new Set(retrieved);
+  return expected.filter((source) => found.has(source)).length / expected.length;
+}
+
+/**
+ * 1 / rank of the first expected document, 0 when none was retrieved
+ */
+export function reciprocalRank(retrieved: string[], expected: string[]): number {
+  const rank = retrieved.findIndex((source) => expected.includes(source));
+  return rank === -1 ? 0 : 1 / (rank + 1);
+}
+
+/**
+ * Expected facts the answer does not state; null without expected facts
+ */
+export function missingFacts(answer: string, expected: GoldenQuestion["expectedFacts"]): string[] | null {
+  const wanted = [
+    ...(expected?.dotCodes ?? []).map((code) => ({ type: "dot-code" as const, value: code })),
+    ...(expected?.svp ?? []).map((svp) => ({ type: "svp" as const, value: String(svp) })),
+    ...(expected?.strength ?? []).map((strength) => ({ type: "strength" as const, value: strength })),
+  ];
+  if (wanted.length === 0) return null;
+
+  const facts = extractFacts(answer);
+  return wanted
+    .filter((fact) => !facts[fact.type].some((value) => value.toLowerCase() === fact.value.toLowerCase()))
+    .map((fact) => `${fact.type} ${fact.value}`);
+}
+
+function parseVerdict(text: string): { verdict: JudgeVerdict; reason: string } {
+  const [first = "", ...rest] = text.trim().split("\n");
+  const verdict = first.toLowerCase().match(/\b(correct|partial|incorrect)\b/)?.[1] as JudgeVerdict | undefined;
+  if (!verdict) {
+    throw new Error(`Judge reply has no verdict: "${first}"`);
+  }
+  return { verdict, reason: rest.join(" ").trim() };
+}
+
+async function judgeAnswer(question: GoldenQuestion, answer: string, judgeModel?: string) {
+  const prompt = EVAL_JUDGE_PROMPT.replace("{question}", question.question)
+    .replace("{expected}", question.expectedAnswer)
+    .replace("{answer}", answer);
+
+  const { result } = await withModelFallback(getModelChain(judgeModel), (model, abortSignal) =>
+    generateText({ model, prompt, abortSignal })
+  );
+  const { verdict, reason } = parseVerdict(result.text);
+  return { verdict, score: VERDICT_SCORES[verdict], reason };
+}
+
+// A question about a claimant also searches that claimant's case, as a chat
+// request selecting the case would
+function retrievalFor(question: GoldenQuestion, retrieval: RetrievalOptions = {}): RetrievalOptions {
+  if (!question.case) return retrieval;
+
+  const workspace = findCaseByName(question.case);
+  if (!workspace) {
+    throw new Error(`Case "${question.case}" not found; import it with pnpm import-case`);
+  }
+  return { ...retrieval, indexDirs: [...(retrieval.indexDirs ?? []), caseIndexDir(workspace.id)] };
+}
+
+async function evaluateQuestion(question: GoldenQuestion, options: EvalOptions): Promise<QuestionResult> {
+  const k = options.k ?? 5;
+  let retrieval: RetrievalOptions;
+  try {
+    retrieval = retrievalFor(question, options.chain?.retrieval);
+  } catch (error) {
+    console.warn(`Evaluating "${question.id}" failed:`, error);
+    return {
+      id: question.id,
+      question: question.question,
+      retrieved: [],
+      recall: 0,
+      reciprocalRank: 0,
+      error: String(error),
+    };
+  }
+
+  const docs = await queryVectorStore(question.question, k, retrieval);
+  const retrieved = docs.map((doc) => doc.metadata.fileName || doc.metadata.source);
+
+  const result: QuestionResult = {
+    id: question.id,
+    question: question.question,
+    retrieved,
+    recall: recallAtK(retrieved, question.expectedSources),
+    reciprocalRank: reciprocalRank(retrieved, question.expectedSources),
+  };
+  if (options.retrievalOnly) return result;
+
+  try {
+    const { answer, model, unsupportedClaims } = await queryRAGChain(question.question, k, {
+      ...options.chain,
+      retrieval,
+      model: options.model,
+    });
+    const missing = missingFacts(answer, question.expectedFacts);
+
+    result.answer = answer;
+    result.model = model;
+    result.exactMatch = missing === null ? null : missing.length === 0;
+    result.missingFacts = missing ?? undefined;
+    result.unsupportedClaims = unsupportedClaims?.length;
+    result.judge = await judgeAnswer(question, answer, options.judgeModel ?? options.model);
+  } catch (error) {
+    console.warn(`Evaluating "${question.id}" failed:`, error);
+    result.error = String(error);
+  }
+  return result;
+}
+
+function mean(values: number[]): number | null {
+  return values.length === 0 ? null : values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+export function summarize(results: QuestionResult[]): EvalSummary {
+  const defined = <T>(values: (T | null | undefined)[]) =>
+    values.filter((v): v is T => v !== null && v !== undefined);
+
+  return {
+    questions: results.length,
+    recallAtK: mean(results.map((r) => r.recall)) ?? 0,
+    mrr: mean(results.map((r) => r.reciprocalRank)) ?? 0,
+    exactMatch: mean(defined(results.map((r) => r.exactMatch)).map(Number)),
+    judgeScore: mean(defined(results.map((r) => r.judge?.score))),
+    unsupportedClaims: mean(defined(results.map((r) => r.unsupportedClaims))),
+    errors: results.filter((r) => r.error).length,
+  };
+}
+
+/**
+ * Run every golden question through retrieval, the chain and the judge
+ * (one at a time, to stay within provider rate limits)
+ */
+export async function runEval(goldenPath: string, options: EvalOptions = {}): Promise<EvalRun> {
+  const questions = loadGoldenSet(goldenPath);
+  const results: QuestionResult[] = [];
+
+  for (const [i, question] of questions.entries()) {
+    const result = await evaluateQuestion(question, options);
+    results.push(result);
+    options.onResult?.(result, i);
+  }
+
+  return {
+    timestamp: new Date().toISOString(),
+    goldenSet: path.relative(process.cwd(), goldenPath),
+    k: options.k ?? 5,
+    model: options.retrievalOnly ? null : options.model ?? getModelChain()[0].id,
+    judgeModel: options.retrievalOnly ? null : options.judgeModel ?? options.model ?? getModelChain()[0].id,
+    summary: summarize(results),
+    results,
+  };
+}
+
+/**
+ * Save a run as <resultsDir>/<timestamp>.json; returns the file path
+ */
+export function saveEvalRun(run: EvalRun, resultsDir: string = DEFAULT_RESULTS_DIR): string {
+  fs.mkdirSync(resultsDir, { recursive: true });
+  const filePath = path.join(resultsDir, `${run.timestamp.replace(/[:.]/g, "-")}.json`);
+  fs.writeFileSync(filePath, JSON.stringify(run, null, 2));
+  return filePath;
+}
+
+export function loadEvalRun(filePath: string): EvalRun {
+  return JSON.parse(fs.readFileSync(filePath, "utf-8")) as EvalRun;
+}
+
+/**
+ * Most recent saved run, if any
+ */
+export function latestEvalRun(resultsDir: string = DEFAULT_RESULTS_DIR): string | null {
+  if (!fs.existsSync(resultsDir)) return null;
+  const files = fs
+    .readdirSync(resultsDir)
+    .filter((file) => file.endsWith(".json"))
+    .sort();
+  return files.length > 0 ? path.join(resultsDir, files[files.length - 1]) : null;
+}
+
+export interface EvalDiff {
+  // Summary metrics that changed, as [before, after]
+  metrics: Partial<Record<keyof EvalSummary, [number | null, number | null]>>;
+  // Questions whose per-question results changed
+  questions: { id: string; changes: string[] }[];
+}
+
+/**
+ * What changed between two runs
+ */
+export function diffEvalRuns(before: EvalRun, after: EvalRun): EvalDiff {
+  const metrics: EvalDiff["metrics"] = {};
+  for (const key of Object.keys(after.summary) as (keyof EvalSummary)[]) {
+    if (before.summary[key] !== after.summary[key]) {
+      metrics[key] = [before.summary[key], after.summary[key]];
+    }
+  }
+
+  const previous = new Map(before.results.map((r) => [r.id, r]));
+  const questions: EvalDiff["questions"] = [];
+
+  for (const result of after.results) {
+    const old = previous.get(result.id);
+    if (!old) {
+      questions.push({ id: result.id, changes: ["new question"] });
+      continue;
+    }
+
+    const changes: string[] = [];
+    const compare = (name: string, a: unknown, b: unknown) => {
+      if (a !== b) changes.push(`${name}: ${a ?? "-"} -> ${b ?? "-"}`);
+    };
+    compare("recall", old.recall, result.recall);
+    compare("reciprocal rank", old.reciprocalRank, result.reciprocalRank);
+    compare("exact match", old.exactMatch, result.exactMatch);
+    compare("judge", old.judge?.verdict, result.judge?.verdict);
+    compare("unsupported claims", old.unsupportedClaims, result.unsupportedClaims);
+    compare("error", old.error, result.error);
+
+    if (changes.length > 0) questions.push({ id: result.id, changes });
+  }
+
+  return { metrics, questions };
+}
@@ -0,0 +1,66 @@
+import { Document } from "@langchain/core/documents";
+import { describe, expect, it, vi } from "vitest";
+import { extractFacts, findUnsupportedClaims } from "./faithfulness";
+
+// One known occupation, so the tests don't depend on a seeded KB
+vi.mock("../kb/occupations", () => ({
+  getOccupation: (code: string) => (code === "166.267-046" ? { dotCode: code } : null),
+  findOccupationsInText: () => [],
+  formatOccupation: () => "",
+}));
+
+describe("extractFacts", () => {
+  it("normalizes DOT codes, SVP and strength levels", () => {
+    const facts = extractFacts(
+      "The HR Advisor (DOT 166267046) is SVP 7 and light work. Strength: S - Sedentary; \"strength\":\"M\"."
+    );
+    expect(facts["dot-code"]).toEqual(["166.267-046"]);
+    expect(facts.svp).toEqual(["7"]);
+    expect(facts.strength).toEqual(["Light", "Sedentary", "Medium"]);
+  });
+
+  it("keeps numbers only when they have a unit", () => {
+    const facts = extractFacts("Lifts 10-25 lbs. for 2 years at $45,000 and 50% of the time, 3 times a day.");
+    expect(facts.number).toEqual(["10 lb", "25 lb", "2 year", "$45000", "50%"]);
+  });
+
+  it("lists each fact once", () => {
+    expect(extractFacts("SVP 7. Again, SVP: 7.").svp).toEqual(["7"]);
+  });
+});
+
+describe("findUnsupportedClaims", () => {
+  const evidence = (content: string, toolOutputs: unknown[] = []) => ({
+    question: "What does the HR advisor job require?",
+    sources: [new Document({ pageContent: content })],
+    toolOutputs,
+  });
+
+  it("accepts facts stated in the sources", () => {
+    const claims = findUnsupportedClaims(
+      "It is light work with an SVP of 7 [1].",
+      evidence("Strength: L - Light. SVP: 7 (over 2 years up to 4 years).")
+    );
+    expect(claims).toEqual([]);
+  });
+
+  it("reports facts nothing supports, with their sentence", () => {
+    const claims = findUnsupportedClaims(
+      "It is light work. It requires lifting 50 pounds occasionally.",
+      evidence("Strength: L - Light. Lifting up to 20 pounds.")
+    );
+    expect(claims).toEqual([
+      { type: "number", value: "50 lb", sentence: "It requires lifting 50 pounds occasionally." },
+    ]);
+  });
+
+  it("accepts facts from tool results", () => {
+    const claims = findUnsupportedClaims("The job is SVP 5.", evidence("", [{ svp: 5 }]));
+    expect(claims).toEqual([]);
+  });
+
+  it("accepts DOT codes from the occupation records", () => {
+    const claims = findUnsupportedClaims("See DOT 166.267-046 and DOT 999.999-999.", evidence(""));
+    expect(claims.map((claim) => claim.value)).toEqual(["999.999-999"]);
+  });
+});
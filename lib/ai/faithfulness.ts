@@ -0,0 +1,212 @@
+import { Document } from "@langchain/core/documents";
+import { findOccupationsInText, formatOccupation, getOccupation } from "../kb/occupations";
+import { normalizeDotCode, STRENGTH_NAMES, StrengthLevel } from "../kb/skilltran";
+
+// Post-generation check that the DOT codes, SVP levels, strength levels and
+// numbers in an answer appear in what the model was given: the retrieved
+// passages, the occupation records and the tool results
+
+export type ClaimType = "dot-code" | "svp" | "strength" | "number";
+
+export interface UnsupportedClaim {
+  type: ClaimType;
+  // Normalized value, e.g. "166.267-046", "7", "Light", "20 lb", "$52000"
+  value: string;
+  // The sentence of the answer that makes the claim
+  sentence: string;
+}
+
+// "flag" reports unsupported claims; "regenerate" also asks the model once
+// to correct its answer (non-streaming only); "off" skips the check
+export const VERIFY_MODES = ["flag", "regenerate", "off"] as const;
+export type VerifyMode = (typeof VERIFY_MODES)[number];
+
+// What an answer may draw on
+export interface Evidence {
+  // The user's question, with any earlier user turns
+  question: string;
+  sources: Document[];
+  // Tool results from the answer's tool calls
+  toolOutputs: unknown[];
+}
+
+interface Claim {
+  type: ClaimType;
+  value: string;
+  index: number;
+}
+
+const DOT_CODE = /\b\d{3}\.?\d{3}-?\d{3}\b/g;
+
+// "SVP 7", "SVP: 7", "SVP level of 7", "svp":7
+const SVP_VALUE = /\bsvp["'\s]*(?:level\s*)?(?:of|is|=|:)?["'\s]*([1-9])\b/gi;
+
+const STRENGTH_WORDS = "very heavy|sedentary|light|medium|heavy";
+// "light work", "sedentary exertional level", "Strength: L - Light",
+// "StrengthLight", "strength":"L"
+const STRENGTH_NAMED = new RegExp(
+  `\\b(${STRENGTH_WORDS})\\s+(?:work|exertion|exertional|strength|duty)\\b|strength["'\\s]*(?:level\\s*)?(?:of|is|=|:)?["'\\s]*(?:[SLMHV]\\s*-\\s*)?(${STRENGTH_WORDS})\\b`,
+  "gi"
+);
+const STRENGTH_CODE = /\bstrength\b["'\s]*(?:level\s*)?(?:of|is|=|:)?["'\s]*([SLMHV])\b/gi;
+
+// Numbers (and ranges) with a unit: "20 pounds", "10-25 lbs.", "$45,000", "2 years"
+const NUMBER_UNITS: Record<string, string> = {
+  pound: "lb",
+  pounds: "lb",
+  lb: "lb",
+  lbs: "lb",
+  percent: "%",
+  hour: "hour",
+  hours: "hour",
+  day: "day",
+  days: "day",
+  week: "week",
+  weeks: "week",
+  month: "month",
+  months: "month",
+  year: "year",
+  years: "year",
+  minute: "minute",
+  minutes: "minute",
+  foot: "foot",
+  feet: "foot",
+  inch: "inch",
+  inches: "inch",
+};
+const NUMBER = "\\d[\\d,]*(?:\\.\\d+)?";
+const NUMBER_WITH_UNIT = new RegExp(
+  `(\\$)?(${NUMBER})(?:\\s*(?:-|–|to)\\s*\\$?(${NUMBER}))?(?:\\s*(${Object.keys(NUMBER_UNITS).join("|")})\\b|\\s*(%))?`,
+  "gi"
+);
+
+function toNumber(text: string): string {
+  return String(Number(text.replace(/,/g, "")));
+}
+
+function formatNumber(value: string, unit: string): string {
+  if (unit === "$") return `$${value}`;
+  if (unit === "%") return `${value}%`;
+  return `${value} ${unit}`;
+}
+
+function strengthName(word: string): string {
+  return word
+    .toLowerCase()
+    .split(" ")
+    .map((part) => part[0].toUpperCase() + part.slice(1))
+    .join(" ");
+}
+
+/**
+ * Find DOT codes, SVP levels, strength levels and numbers with units
+ */
+function extractClaims(text: string): Claim[] {
+  const claims: Claim[] = [];
+
+  for (const match of text.matchAll(DOT_CODE)) {
+    const code = normalizeDotCode(match[0]);
+    if (code) claims.push({ type: "dot-code", value: code, index: match.index! });
+  }
+
+  for (const match of text.matchAll(SVP_VALUE)) {
+    claims.push({ type: "svp", value: match[1], index: match.index! });
+  }
+
+  for (const match of text.matchAll(STRENGTH_NAMED)) {
+    claims.push({ type: "strength", value: strengthName(match[1] ?? match[2]), index: match.index! });
+  }
+  for (const match of text.matchAll(STRENGTH_CODE)) {
+    const name = STRENGTH_NAMES[match[1].toUpperCase() as StrengthLevel];
+    claims.push({ type: "strength", value: name, index: match.index! });
+  }
+
+  for (const match of text.matchAll(NUMBER_WITH_UNIT)) {
+    const [, dollar, first, second, word, percent] = match;
+    const unit = dollar ? "$" : word ? NUMBER_UNITS[word.toLowerCase()] : percent ? "%" : null;
+    // Bare numbers are too ambiguous to check
+    if (!unit) continue;
+    for (const number of second ? [first, second] : [first]) {
+      claims.push({ type: "number", value: formatNumber(toNumber(number), unit), index: match.index! });
+    }
+  }
+
+  return claims;
+}
+
+/**
+ * DOT codes, SVP levels, strength levels and numbers stated in a text,
+ * normalized as in UnsupportedClaim.value
+ */
+export function extractFacts(text: string): Record<ClaimType, string[]> {
+  const facts: Record<ClaimType, string[]> = { "dot-code": [], svp: [], strength: [], number: [] };
+  for (const claim of extractClaims(text)) {
+    if (!facts[claim.type].includes(claim.value)) facts[claim.type].push(claim.value);
+  }
+  return facts;
+}
+
+function claimKey(claim: { type: ClaimType; value: string }): string {
+  return `${claim.type}:${claim.value}`;
+}
+
+/**
+ * The sentence around a position in the text
+ */
+function sentenceAt(text: string, index: number): string {
+  let start = 0;
+  for (const match of text.slice(0, index).matchAll(/[.!?]\s+|\n/g)) {
+    start = match.index! + match[0].length;
+  }
+  const end = text.slice(index).search(/[.!?](?=\s|$)|\n/);
+  return text.slice(start, end === -1 ? text.length : index + end + 1).trim();
+}
+
+function evidenceText(evidence: Evidence, answer: string): string {
+  const records = findOccupationsInText(`${evidence.question}\n${answer}`).map(formatOccupation);
+  const outputs = evidence.toolOutputs.map((output) => JSON.stringify(output) ?? "");
+
+  return [
+    evidence.question,
+    ...evidence.sources.map((doc) => doc.pageContent),
+    ...records,
+    ...outputs,
+  ].join("\n\n");
+}
+
+// DOT codes in the occupation records are real codes even when not retrieved
+function isKnownDotCode(code: string): boolean {
+  try {
+    return getOccupation(code) !== null;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Claims in the answer that nothing in the evidence supports
+ */
+export function findUnsupportedClaims(answer: string, evidence: Evidence): UnsupportedClaim[] {
+  const supported = new Set(extractClaims(evidenceText(evidence, answer)).map(claimKey));
+
+  const unsupported: UnsupportedClaim[] = [];
+  const reported = new Set<string>();
+
+  for (const claim of extractClaims(answer)) {
+    const key = claimKey(claim);
+    if (supported.has(key) || reported.has(key)) continue;
+    if (claim.type === "dot-code" && isKnownDotCode(claim.value)) continue;
+
+    reported.add(key);
+    unsupported.push({ type: claim.type, value: claim.value, sentence: sentenceAt(answer, claim.index) });
+  }
+
+  return unsupported;
+}
+
+/**
+ * List unsupported claims for the correction prompt
+ */
+export function formatUnsupportedClaims(claims: UnsupportedClaim[]): string {
+  return claims.map((claim) => `- ${claim.type} ${claim.value}: "${claim.sentence}"`).join("\n");
+}
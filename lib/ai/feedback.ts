@@ -0,0 +1,164 @@
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import { CuratedQA, writeCuratedQA } from "../kb/curated";
+import type { SourceCitation } from "./citations";
+
+// Ratings and corrections users give answers, and their review. Kept in one
+// JSON file; a reviewer promotes corrected answers into the curated Q&A
+// document (see lib/kb/curated.ts).
+
+const FEEDBACK_FILE = process.env.FEEDBACK_FILE || path.join(process.cwd(), ".feedback.json");
+
+export const FEEDBACK_RATINGS = ["up", "down"] as const;
+export type FeedbackRating = (typeof FEEDBACK_RATINGS)[number];
+
+// open: waiting for review; promoted: in the curated Q&A; dismissed: no action
+export const FEEDBACK_STATUSES = ["open", "promoted", "dismissed"] as const;
+export type FeedbackStatus = (typeof FEEDBACK_STATUSES)[number];
+
+export interface Feedback {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+  rating: FeedbackRating;
+  // What the user says the answer should have been
+  correction?: string;
+  question: string;
+  answer: string;
+  // Passages retrieved for the answer
+  sources: SourceCitation[];
+  model?: string;
+  sessionId?: string;
+  traceId?: string;
+  // Case workspace the answer searched; its feedback may hold case facts, so
+  // it stays out of the shared curated Q&A
+  caseId?: string;
+  status: FeedbackStatus;
+  // The entry written to the curated Q&A, while promoted
+  curated?: CuratedQA & { promotedAt: string };
+}
+
+export type FeedbackInput = Pick<
+  Feedback,
+  "rating" | "correction" | "question" | "answer" | "sources" | "model" | "sessionId" | "traceId" | "caseId"
+>;
+
+interface FeedbackStore {
+  feedback: Feedback[];
+}
+
+function readStore(): FeedbackStore {
+  if (!fs.existsSync(FEEDBACK_FILE)) return { feedback: [] };
+  return JSON.parse(fs.readFileSync(FEEDBACK_FILE, "utf-8")) as FeedbackStore;
+}
+
+// Write via a temp file so a crash never leaves a half-written store
+function writeStore(store: FeedbackStore): void {
+  fs.mkdirSync(path.dirname(FEEDBACK_FILE), { recursive: true });
+  const tmpPath = `${FEEDBACK_FILE}.tmp`;
+  fs.writeFileSync(tmpPath, JSON.stringify(store, null, 2));
+  fs.renameSync(tmpPath, FEEDBACK_FILE);
+}
+
+// Apply `change` to one entry and save it; null if there is no such entry
+function updateEntry(id: string, change: (entry: Feedback) => void): Feedback | null {
+  const store = readStore();
+  const entry = store.feedback.find((f) => f.id === id);
+  if (!entry) return null;
+
+  change(entry);
+  entry.updatedAt = new Date().toISOString();
+  writeStore(store);
+  return entry;
+}
+
+// The curated Q&A holds every promoted entry, oldest promotion first
+function syncCuratedQA(): void {
+  const entries = readStore()
+    .feedback.flatMap((f) => (f.status === "promoted" && f.curated ? [f.curated] : []))
+    .sort((a, b) => a.promotedAt.localeCompare(b.promotedAt));
+  writeCuratedQA(entries);
+}
+
+export function createFeedback(input: FeedbackInput): Feedback {
+  const now = new Date().toISOString();
+  const feedback: Feedback = {
+    id: crypto.randomUUID(),
+    createdAt: now,
+    updatedAt: now,
+    ...input,
+    correction: input.correction?.trim() || undefined,
+    status: "open",
+  };
+
+  const store = readStore();
+  store.feedback.push(feedback);
+  writeStore(store);
+  return feedback;
+}
+
+export function getFeedback(id: string): Feedback | null {
+  return readStore().feedback.find((f) => f.id === id) ?? null;
+}
+
+/**
+ * Change a rating or correction, e.g. a thumbs down followed by the
+ * corrected answer
+ */
+export function updateFeedback(
+  id: string,
+  update: Partial<Pick<Feedback, "rating" | "correction">>
+): Feedback | null {
+  return updateEntry(id, (entry) => {
+    if (update.rating) entry.rating = update.rating;
+    if (update.correction !== undefined) entry.correction = update.correction.trim() || undefined;
+  });
+}
+
+export interface FeedbackQuery {
+  rating?: FeedbackRating;
+  status?: FeedbackStatus;
+  limit?: number;
+}
+
+/**
+ * Feedback, most recent first
+ */
+export function listFeedback(query: FeedbackQuery = {}): Feedback[] {
+  return readStore()
+    .feedback.filter(
+      (f) => (!query.rating || f.rating === query.rating) && (!query.status || f.status === query.status)
+    )
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+    .slice(0, query.limit ?? 100);
+}
+
+/**
+ * Mark feedback reviewed without promoting it, or reopen it. A promoted
+ * entry leaves the curated Q&A.
+ */
+export function setFeedbackStatus(id: string, status: "open" | "dismissed"): Feedback | null {
+  const wasPromoted = getFeedback(id)?.status === "promoted";
+  const feedback = updateEntry(id, (entry) => {
+    entry.status = status;
+    delete entry.curated;
+  });
+
+  if (feedback && wasPromoted) syncCuratedQA();
+  return feedback;
+}
+
+/**
+ * Add a reviewed question and answer to the curated Q&A; promoting again
+ * replaces the entry
+ */
+export function promoteFeedback(id: string, curated: CuratedQA): Feedback | null {
+  const feedback = updateEntry(id, (entry) => {
+    entry.status = "promoted";
+    entry.curated = { ...curated, promotedAt: new Date().toISOString() };
+  });
+
+  if (feedback) syncCuratedQA();
+  return feedback;
+}
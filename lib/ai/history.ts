@@ -0,0 +1,58 @@
+import type { ModelMessage } from "ai";
+
+export interface ChatMessage {
+  role: "user" | "assistant";
+  content: string;
+}
+
+// Token budget for conversation history sent alongside the RAG prompt
+export const MAX_HISTORY_TOKENS = 2000;
+
+/**
+ * Rough token estimate (~4 characters per token for English text)
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Keep the most recent turns that fit within the token budget
+ */
+export function trimHistory(
+  history: ChatMessage[],
+  maxTokens: number = MAX_HISTORY_TOKENS
+): ChatMessage[] {
+  const trimmed: ChatMessage[] = [];
+  let used = 0;
+
+  // Walk backwards so the newest turns are kept first
+  for (let i = history.length - 1; i >= 0; i--) {
+    const tokens = estimateTokens(history[i].content);
+    if (used + tokens > maxTokens) break;
+    trimmed.unshift(history[i]);
+    used += tokens;
+  }
+
+  // Don't start the window on a dangling assistant reply
+  while (trimmed.length > 0 && trimmed[0].role !== "user") {
+    trimmed.shift();
+  }
+
+  return trimmed;
+}
+
+/**
+ * Format history as plain text for the condense-question prompt
+ */
+export function formatChatHistory(history: ChatMessage[]): string {
+  return history
+    .map((m) => `${m.role === "user" ? "Human" : "Assistant"}: ${m.content}`)
+    .join("\n");
+}
+
+/**
+ * Convert history into model messages for the answering call
+ */
+export function toModelMessages(history: ChatMessage[]): ModelMessage[] {
+  return history.map((m) => ({ role: m.role, content: m.content }));
+}
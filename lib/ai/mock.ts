@@ -0,0 +1,175 @@
+import { simulateReadableStream, type LanguageModel } from "ai";
+import { MockLanguageModelV3 } from "ai/test";
+import { tokenize } from "../kb/bm25";
+import { extractFacts } from "./faithfulness";
+
+// Offline stand-in model ("mock:extractive") for evals. It answers from the
+// passages in its own prompt (no tools, no outside knowledge), so results
+// depend only on retrieval. Only scripts/eval.ts registers it, so it never
+// ships with the app.
+
+type CallOptions = Parameters<MockLanguageModelV3["doGenerate"]>[0];
+type StreamPart =
+  Awaited<ReturnType<MockLanguageModelV3["doStream"]>>["stream"] extends ReadableStream<infer T> ? T : never;
+
+// Share of the reference answer's tokens found in the answer for each verdict
+const JUDGE_CORRECT_OVERLAP = 0.6;
+const JUDGE_PARTIAL_OVERLAP = 0.3;
+
+// Sentences quoted from the best passage
+const ANSWER_SENTENCES = 2;
+const MIN_SENTENCE_TOKENS = 4;
+
+const USAGE = {
+  inputTokens: { total: 0, noCache: 0, cacheRead: 0, cacheWrite: 0 },
+  outputTokens: { total: 0, text: 0, reasoning: 0 },
+};
+
+function messageText(message: CallOptions["prompt"][number]): string {
+  if (typeof message.content === "string") return message.content;
+  return message.content.map((part) => ("text" in part ? part.text : "")).join("");
+}
+
+// Share of `reference` tokens that also appear in `text`
+function overlap(reference: string, text: string): number {
+  const referenceTokens = new Set(tokenize(reference));
+  if (referenceTokens.size === 0) return 0;
+  const tokens = new Set(tokenize(text));
+  let shared = 0;
+  for (const token of referenceTokens) {
+    if (tokens.has(token)) shared++;
+  }
+  return shared / referenceTokens.size;
+}
+
+function between(text: string, start: string, end: string): string {
+  const from = text.indexOf(start);
+  if (from === -1) return "";
+  const rest = text.slice(from + start.length);
+  const to = rest.indexOf(end);
+  return (to === -1 ? rest : rest.slice(0, to)).trim();
+}
+
+// Numbered passages ("[n] (Source: ...)") from the RAG prompt
+function parsePassages(prompt: string): { id: number; content: string }[] {
+  const context = between(prompt, "knowledge:", "User Question:");
+  return context.split("\n\n---\n\n").flatMap((block) => {
+    const match = block.match(/^\[(\d+)\] \(Source: [^)]*\)\n([\s\S]*)$/);
+    return match ? [{ id: Number(match[1]), content: match[2] }] : [];
+  });
+}
+
+function answerFromPassages(prompt: string): string {
+  const question = between(prompt, "User Question:", "\n");
+  const passages = parsePassages(prompt);
+  if (passages.length === 0) {
+    return "I don't have that information in my current knowledge base.";
+  }
+
+  const best = passages.reduce((a, b) => (overlap(question, b.content) > overlap(question, a.content) ? b : a));
+  // Headings and fragments say little; prefer full sentences
+  const sentences = best.content
+    .split(/(?<=[a-z0-9)][.!?])\s+|\n+/)
+    .map((sentence) => sentence.trim())
+    .filter((sentence) => tokenize(sentence).length >= MIN_SENTENCE_TOKENS);
+  const quoted = sentences
+    .map((sentence, i) => ({ sentence, i, score: overlap(question, sentence) }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, ANSWER_SENTENCES)
+    .sort((a, b) => a.i - b.i)
+    .map(({ sentence }) => sentence.replace(/[.!?]?$/, ` [${best.id}].`));
+
+  return quoted.join(" ");
+}
+
+function respond(options: CallOptions): string {
+  const userMessages = options.prompt.filter((m) => m.role === "user").map(messageText);
+  const last = userMessages[userMessages.length - 1] ?? "";
+
+  // Question condensing: keep the follow-up as it is
+  if (last.includes("Standalone question:")) {
+    return between(last, "Follow Up Input:", "\n");
+  }
+
+  // LLM reranking: score passages by overlap with the question
+  if (last.includes('in the form "number: score"')) {
+    const question = between(last, "Question:", "\n");
+    const passages = between(last, "Passages:", "Reply with").split(/\n(?=\[\d+\])/);
+    return passages
+      .map((passage) => {
+        const id = passage.match(/^\[(\d+)\]/)?.[1];
+        return id ? `${id}: ${Math.round(overlap(question, passage) * 10)}` : "";
+      })
+      .filter(Boolean)
+      .join("\n");
+  }
+
+  // Answer grading: token overlap with the reference answer
+  if (last.includes("grading a vocational expert chatbot's answer")) {
+    const reference = between(last, "Reference answer:", "\n\n");
+    const score = overlap(reference, between(last, "Chatbot answer:", "\n\nThe answer is"));
+    const verdict =
+      score >= JUDGE_CORRECT_OVERLAP ? "correct" : score >= JUDGE_PARTIAL_OVERLAP ? "partial" : "incorrect";
+    return `${verdict}\nThe answer covers ${Math.round(score * 100)}% of the reference answer's terms.`;
+  }
+
+  // RAG answer (a correction request re-answers the original question)
+  const ragPrompt = [...userMessages].reverse().find((text) => text.includes("User Question:")) ?? last;
+  const answer = answerFromPassages(ragPrompt);
+
+  // Structured output
+  if (options.responseFormat?.type === "json") {
+    const facts = extractFacts(answer);
+    return JSON.stringify({
+      spokenSummary: answer.replace(/\s*\[\d+\]/g, ""),
+      detailedAnswer: answer,
+      entities: {
+        dotCodes: facts["dot-code"].map((code) => ({ code })),
+        svp: facts.svp.map(Number),
+        strength: facts.strength,
+      },
+      followUps: [],
+      confidence: "medium",
+    });
+  }
+
+  return answer;
+}
+
+/**
+ * A deterministic offline model; `modelId` is only reported back
+ */
+export function createMockModel(modelId: string): LanguageModel {
+  return new MockLanguageModelV3({
+    provider: "mock",
+    modelId,
+    doGenerate: async (options) => ({
+      content: [{ type: "text", text: respond(options) }],
+      finishReason: { unified: "stop", raw: "stop" },
+      usage: USAGE,
+      warnings: [],
+    }),
+    doStream: async (options) => {
+      const words = respond(options).split(/(?<= )/);
+      return {
+        stream: simulateReadableStream<StreamPart>({
+          chunks: [
+            { type: "stream-start", warnings: [] },
+            { type: "text-start", id: "0" },
+            ...words.map((delta) => ({ type: "text-delta" as const, id: "0", delta })),
+            { type: "text-end", id: "0" },
+            { type: "finish", finishReason: { unified: "stop", raw: "stop" }, usage: USAGE },
+          ],
+        }).pipeThrough(
+          // Stop like a provider's request does when the call is aborted
+          new TransformStream({
+            transform(chunk, controller) {
+              if (options.abortSignal?.aborted) controller.error(options.abortSignal.reason);
+              else controller.enqueue(chunk);
+            },
+          })
+        ),
+      };
+    },
+  });
+}
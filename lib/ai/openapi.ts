@@ -0,0 +1,464 @@
+import { z } from "zod";
+import { CASE_DOCUMENT_TYPES } from "../kb/cases";
+import { scopeForPath } from "./apikeys";
+import { FEEDBACK_RATINGS, FEEDBACK_STATUSES } from "./feedback";
+import {
+  apiKeyCreatedSchema,
+  apiKeyCreateSchema,
+  apiKeyInfoSchema,
+  caseCreateSchema,
+  caseIndexResultSchema,
+  caseSchema,
+  chatEventSchemas,
+  chatRequestSchema,
+  chatResponseSchema,
+  errorBodySchema,
+  feedbackCreateSchema,
+  feedbackPromoteSchema,
+  feedbackSchema,
+  feedbackStatusSchema,
+  feedbackUpdateSchema,
+  occupationSchema,
+  sessionCreateSchema,
+  sessionRenameSchema,
+  sessionSchema,
+  sessionSummarySchema,
+  speakRequestSchema,
+  traceSchema,
+  traceSummarySchema,
+  transcriptionSchema,
+  transferableSkillsRequestSchema,
+  transferableSkillsResultSchema,
+} from "./schemas";
+import { TRACE_STATUSES } from "./tracing";
+
+// OpenAPI 3.1 document of the API, generated from the zod schemas the routes
+// validate with. Served at /api/v1/openapi.json and written to openapi.json
+// by `pnpm openapi`.
+
+export const API_VERSION = "1.0.0";
+
+const COMPONENTS: Record<string, z.ZodType> = {
+  ApiKey: apiKeyInfoSchema,
+  ApiKeyCreated: apiKeyCreatedSchema,
+  ApiKeyCreateRequest: apiKeyCreateSchema,
+  Case: caseSchema,
+  CaseCreateRequest: caseCreateSchema,
+  CaseIndexResult: caseIndexResultSchema,
+  ChatRequest: chatRequestSchema,
+  ChatResponse: chatResponseSchema,
+  Error: errorBodySchema,
+  Feedback: feedbackSchema,
+  FeedbackCreateRequest: feedbackCreateSchema,
+  FeedbackPromoteRequest: feedbackPromoteSchema,
+  FeedbackStatusRequest: feedbackStatusSchema,
+  FeedbackUpdateRequest: feedbackUpdateSchema,
+  Occupation: occupationSchema,
+  Session: sessionSchema,
+  SessionSummary: sessionSummarySchema,
+  SessionCreateRequest: sessionCreateSchema,
+  SessionRenameRequest: sessionRenameSchema,
+  SpeakRequest: speakRequestSchema,
+  Trace: traceSchema,
+  TraceSummary: traceSummarySchema,
+  Transcription: transcriptionSchema,
+  TransferableSkillsRequest: transferableSkillsRequestSchema,
+  TransferableSkillsResult: transferableSkillsResultSchema,
+  ...Object.fromEntries(
+    Object.entries(chatEventSchemas).map(([name, schema]) => [
+      `ChatEvent${name[0].toUpperCase()}${name.slice(1)}`,
+      schema,
+    ])
+  ),
+};
+
+const ref = (name: keyof typeof COMPONENTS) => ({ $ref: `#/components/schemas/${name}` });
+
+function componentSchemas() {
+  const registry = z.registry<{ id: string }>();
+  for (const [id, schema] of Object.entries(COMPONENTS)) registry.add(schema, { id });
+
+  // Request schemas are described as sent, so fields with defaults are optional
+  const { schemas } = z.toJSONSchema(registry, {
+    io: "input",
+    uri: (id) => `#/components/schemas/${id}`,
+  });
+
+  // Components carry no $schema or $id of their own
+  for (const schema of Object.values(schemas)) {
+    delete schema.$schema;
+    delete schema.$id;
+  }
+  return schemas;
+}
+
+function errorResponses(...statuses: number[]) {
+  const descriptions: Record<number, string> = {
+    400: "Invalid request (code invalid_request, with fields)",
+    401: "Missing, unknown or revoked API key (code unauthorized)",
+    403: "The API key lacks the route's scope (code forbidden)",
+    404: "Not found (code not_found)",
+    413: "Body too large (code payload_too_large)",
+    415: "Unsupported audio (code unsupported_media_type)",
+    429: "Over the rate limit or daily quota (code rate_limited or quota_exceeded); see Retry-After",
+    500: "Internal error (code internal_error)",
+  };
+  return Object.fromEntries(
+    [...statuses, 401, 403, 429, 500].map((status) => [
+      String(status),
+      { description: descriptions[status], content: { "application/json": { schema: ref("Error") } } },
+    ])
+  );
+}
+
+const json = (schema: object) => ({ "application/json": { schema } });
+
+const idParam = (name: string) => ({ name, in: "path", required: true, schema: { type: "string" } });
+
+const listOf = (property: string, name: keyof typeof COMPONENTS) =>
+  json({ type: "object", properties: { [property]: { type: "array", items: ref(name) } }, required: [property] });
+
+const limitParam = (defaultLimit: number, maximum?: number) => ({
+  name: "limit",
+  in: "query",
+  schema: { type: "integer", minimum: 1, maximum, default: defaultLimit },
+});
+
+const enumParam = (name: string, values: readonly string[]) => ({ name, in: "query", schema: { type: "string", enum: values } });
+
+type Operation = Record<string, unknown>;
+
+// Every operation lists the API key scope it needs (see ROUTE_SCOPES in
+// apikeys.ts) as its security requirement and as x-scope; routes outside
+// every scope need no key
+function withScopes(paths: Record<string, Record<string, Operation>>) {
+  return Object.fromEntries(
+    Object.entries(paths).map(([route, operations]) => {
+      const scope = scopeForPath(route);
+      const scoped = Object.fromEntries(
+        Object.entries(operations).map(([method, operation]) => [
+          method,
+          scope
+            ? { ...operation, security: [{ bearerAuth: [scope] }, { apiKeyHeader: [scope] }], "x-scope": scope }
+            : { ...operation, security: [] },
+        ])
+      );
+      return [route, scoped];
+    })
+  );
+}
+
+export function buildOpenAPIDocument() {
+  const events = Object.keys(chatEventSchemas);
+
+  const chat = {
+    summary: "Answer the last user message from the knowledge base",
+    requestBody: { required: true, content: json(ref("ChatRequest")) },
+    responses: {
+      "200": {
+        description: `With stream false (or format structured), the answer as JSON. Otherwise Server-Sent Events named ${events.join(", ")}, each with an id and JSON data (schemas ChatEvent*); the X-Stream-Id header names the stream.`,
+        headers: { "X-Stream-Id": { schema: { type: "string" }, description: "Streaming only" } },
+        content: {
+          ...json(ref("ChatResponse")),
+          "text/event-stream": {
+            schema: { type: "string" },
+            "x-events": Object.fromEntries(
+              events.map((name) => [name, ref(`ChatEvent${name[0].toUpperCase()}${name.slice(1)}`)])
+            ),
+          },
+        },
+      },
+      ...errorResponses(400, 404),
+    },
+  };
+
+  const streams = {
+    get: {
+      summary: "Resume a streamed answer after the last event received",
+      parameters: [
+        idParam("streamId"),
+        { name: "Last-Event-ID", in: "header", schema: { type: "integer", minimum: 0 } },
+        { name: "lastEventId", in: "query", schema: { type: "integer", minimum: 0 } },
+      ],
+      responses: {
+        "200": { description: "The remaining events", content: { "text/event-stream": { schema: { type: "string" } } } },
+        ...errorResponses(400, 404),
+      },
+    },
+    delete: {
+      summary: "Stop a streamed answer and its model call",
+      parameters: [idParam("streamId")],
+      responses: { "204": { description: "Stopped" }, ...errorResponses(404) },
+    },
+  };
+
+  return {
+    openapi: "3.1.0",
+    info: {
+      title: "VEFC Vocational Expert Chatbot API",
+      version: API_VERSION,
+      description:
+        'Errors use one envelope: { "error": message, "code": stable code, "fields"?: [{ path, message }] }. Branch on `code`; messages may change.',
+    },
+    security: [{ bearerAuth: [] }, { apiKeyHeader: [] }],
+    paths: withScopes({
+      "/api/v1/chat": { post: chat },
+      "/api/v1/chat/streams/{streamId}": streams,
+      "/api/chat": { post: { ...chat, deprecated: true, summary: "Unversioned alias of /api/v1/chat" } },
+      "/api/chat/streams/{streamId}": {
+        get: { ...streams.get, deprecated: true },
+        delete: { ...streams.delete, deprecated: true },
+      },
+      "/api/feedback": {
+        post: {
+          summary: "Rate an answer, optionally with a correction",
+          requestBody: { required: true, content: json(ref("FeedbackCreateRequest")) },
+          responses: { "201": { description: "The feedback", content: json(ref("Feedback")) }, ...errorResponses(400) },
+        },
+      },
+      "/api/feedback/{feedbackId}": {
+        patch: {
+          summary: "Change a rating or correction",
+          parameters: [idParam("feedbackId")],
+          requestBody: { required: true, content: json(ref("FeedbackUpdateRequest")) },
+          responses: { "200": { description: "The feedback", content: json(ref("Feedback")) }, ...errorResponses(400, 404) },
+        },
+      },
+      "/api/sessions": {
+        get: {
+          summary: "List sessions, most recently updated first",
+          responses: {
+            "200": {
+              description: "Sessions",
+              content: json({ type: "object", properties: { sessions: { type: "array", items: ref("SessionSummary") } } }),
+            },
+            ...errorResponses(),
+          },
+        },
+        post: {
+          summary: "Start a session",
+          requestBody: { content: json(ref("SessionCreateRequest")) },
+          responses: { "201": { description: "The new session", content: json(ref("Session")) }, ...errorResponses(400) },
+        },
+      },
+      "/api/sessions/{sessionId}": {
+        get: {
+          summary: "A session with its messages",
+          parameters: [idParam("sessionId")],
+          responses: { "200": { description: "The session", content: json(ref("Session")) }, ...errorResponses(404) },
+        },
+        patch: {
+          summary: "Rename a session",
+          parameters: [idParam("sessionId")],
+          requestBody: { required: true, content: json(ref("SessionRenameRequest")) },
+          responses: { "200": { description: "The session", content: json(ref("Session")) }, ...errorResponses(400, 404) },
+        },
+        delete: {
+          summary: "Delete a session",
+          parameters: [idParam("sessionId")],
+          responses: { "204": { description: "Deleted" }, ...errorResponses(404) },
+        },
+      },
+      "/api/speak": {
+        post: {
+          summary: "Text to speech, streamed sentence by sentence",
+          requestBody: { required: true, content: json(ref("SpeakRequest")) },
+          responses: {
+            "200": { description: "16-bit mono WAV", content: { "audio/wav": { schema: { type: "string", format: "binary" } } } },
+            ...errorResponses(400),
+          },
+        },
+      },
+      "/api/transcribe": {
+        post: {
+          summary: "Speech to text",
+          requestBody: {
+            required: true,
+            content: {
+              "audio/wav": { schema: { type: "string", format: "binary" } },
+              "multipart/form-data": {
+                schema: { type: "object", properties: { file: { type: "string", format: "binary" } }, required: ["file"] },
+              },
+            },
+          },
+          responses: {
+            "200": { description: "The transcription", content: json(ref("Transcription")) },
+            ...errorResponses(400, 413, 415),
+          },
+        },
+      },
+      "/api/occupations": {
+        get: {
+          summary: "Search DOT occupations by title or code",
+          parameters: [{ name: "q", in: "query", required: true, schema: { type: "string" } }, limitParam(10)],
+          responses: { "200": { description: "Matching occupations", content: listOf("occupations", "Occupation") }, ...errorResponses(400) },
+        },
+      },
+      "/api/occupations/{dotCode}": {
+        get: {
+          summary: "One occupation by DOT code, e.g. 166.267-046",
+          parameters: [idParam("dotCode")],
+          responses: { "200": { description: "The occupation", content: json(ref("Occupation")) }, ...errorResponses(400, 404) },
+        },
+      },
+      "/api/transferable-skills": {
+        post: {
+          summary: "Occupations past work's skills transfer to within a residual functional capacity",
+          requestBody: { required: true, content: json(ref("TransferableSkillsRequest")) },
+          responses: {
+            "200": { description: "The analysis", content: json(ref("TransferableSkillsResult")) },
+            ...errorResponses(400),
+          },
+        },
+      },
+      "/api/cases": {
+        get: {
+          summary: "List case workspaces",
+          responses: { "200": { description: "Cases", content: listOf("cases", "Case") }, ...errorResponses() },
+        },
+        post: {
+          summary: "Create a case workspace",
+          requestBody: { required: true, content: json(ref("CaseCreateRequest")) },
+          responses: { "201": { description: "The new case", content: json(ref("Case")) }, ...errorResponses(400) },
+        },
+      },
+      "/api/cases/{caseId}": {
+        get: {
+          summary: "A case with its documents",
+          parameters: [idParam("caseId")],
+          responses: { "200": { description: "The case", content: json(ref("Case")) }, ...errorResponses(404) },
+        },
+        delete: {
+          summary: "Delete a case, its documents and its index",
+          parameters: [idParam("caseId")],
+          responses: { "204": { description: "Deleted" }, ...errorResponses(404) },
+        },
+      },
+      "/api/cases/{caseId}/documents": {
+        post: {
+          summary: "Upload documents to a case and index them",
+          parameters: [idParam("caseId")],
+          requestBody: {
+            required: true,
+            content: {
+              "multipart/form-data": {
+                schema: {
+                  type: "object",
+                  properties: {
+                    files: { type: "array", items: { type: "string", format: "binary" } },
+                    documentType: { type: "string", enum: CASE_DOCUMENT_TYPES, default: "other" },
+                  },
+                  required: ["files"],
+                },
+              },
+            },
+          },
+          responses: {
+            "200": { description: "The case and what indexing changed", content: json(ref("CaseIndexResult")) },
+            ...errorResponses(400, 404, 413),
+          },
+        },
+      },
+      "/api/cases/{caseId}/documents/{fileName}": {
+        delete: {
+          summary: "Remove a document from a case and re-index",
+          parameters: [idParam("caseId"), idParam("fileName")],
+          responses: {
+            "200": { description: "The case and what indexing changed", content: json(ref("CaseIndexResult")) },
+            ...errorResponses(404),
+          },
+        },
+      },
+      "/api/admin/keys": {
+        get: {
+          summary: "List API keys with their usage",
+          responses: { "200": { description: "API keys", content: listOf("keys", "ApiKey") }, ...errorResponses() },
+        },
+        post: {
+          summary: "Create an API key",
+          requestBody: { required: true, content: json(ref("ApiKeyCreateRequest")) },
+          responses: {
+            "201": { description: "The key, with its only copy of the secret", content: json(ref("ApiKeyCreated")) },
+            ...errorResponses(400),
+          },
+        },
+      },
+      "/api/admin/keys/{keyId}": {
+        get: {
+          summary: "One API key with its usage",
+          parameters: [idParam("keyId")],
+          responses: { "200": { description: "The key", content: json(ref("ApiKey")) }, ...errorResponses(404) },
+        },
+        delete: {
+          summary: "Revoke an API key (its usage is kept)",
+          parameters: [idParam("keyId")],
+          responses: { "200": { description: "The revoked key", content: json(ref("ApiKey")) }, ...errorResponses(404) },
+        },
+      },
+      "/api/admin/feedback": {
+        get: {
+          summary: "List feedback, most recent first",
+          parameters: [enumParam("rating", FEEDBACK_RATINGS), enumParam("status", FEEDBACK_STATUSES), limitParam(100, 500)],
+          responses: { "200": { description: "Feedback", content: listOf("feedback", "Feedback") }, ...errorResponses(400) },
+        },
+      },
+      "/api/admin/feedback/{feedbackId}": {
+        patch: {
+          summary: "Dismiss or reopen feedback; a promoted entry leaves the curated Q&A",
+          parameters: [idParam("feedbackId")],
+          requestBody: { required: true, content: json(ref("FeedbackStatusRequest")) },
+          responses: { "200": { description: "The feedback", content: json(ref("Feedback")) }, ...errorResponses(400, 404) },
+        },
+      },
+      "/api/admin/feedback/{feedbackId}/promote": {
+        post: {
+          summary: "Add the corrected answer to the curated Q&A",
+          parameters: [idParam("feedbackId")],
+          requestBody: { content: json(ref("FeedbackPromoteRequest")) },
+          responses: { "200": { description: "The feedback", content: json(ref("Feedback")) }, ...errorResponses(400, 404) },
+        },
+      },
+      "/api/admin/traces": {
+        get: {
+          summary: "List recent traces, newest first, without their spans",
+          parameters: [
+            enumParam("status", TRACE_STATUSES),
+            { name: "q", in: "query", description: "Text in the question or answer", schema: { type: "string" } },
+            limitParam(50, 500),
+          ],
+          responses: { "200": { description: "Traces", content: listOf("traces", "TraceSummary") }, ...errorResponses(400) },
+        },
+      },
+      "/api/admin/traces/{traceId}": {
+        get: {
+          summary: "One trace with its spans and request",
+          parameters: [idParam("traceId")],
+          responses: { "200": { description: "The trace", content: json(ref("Trace")) }, ...errorResponses(404) },
+        },
+      },
+      "/api/admin/traces/{traceId}/replay": {
+        post: {
+          summary: "Ask a traced chat question again against the current index and models",
+          parameters: [idParam("traceId")],
+          responses: {
+            "200": { description: "The answer; its traceId names the new trace", content: json(ref("ChatResponse")) },
+            ...errorResponses(400, 404),
+          },
+        },
+      },
+      "/api/v1/openapi.json": {
+        get: {
+          summary: "This document",
+          responses: { "200": { description: "OpenAPI document", content: json({ type: "object" }) } },
+        },
+      },
+    }),
+    components: {
+      schemas: componentSchemas(),
+      securitySchemes: {
+        bearerAuth: { type: "http", scheme: "bearer", description: "API key as a bearer token" },
+        apiKeyHeader: { type: "apiKey", in: "header", name: "X-API-Key" },
+      },
+    },
+  };
+}
@@ -0,0 +1,90 @@
+import type { LanguageModel } from "ai";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { getModelChain, parseModelSpec, registerProvider, withModelFallback } from "./providers";
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.unstubAllEnvs();
+  vi.useRealTimers();
+});
+
+describe("parseModelSpec", () => {
+  it("splits provider and model at the first colon", () => {
+    expect(parseModelSpec(" Ollama:llama3.1:8b ")).toEqual({
+      id: "ollama:llama3.1:8b",
+      provider: "ollama",
+      modelId: "llama3.1:8b",
+    });
+  });
+
+  it("rejects unknown providers and missing models", () => {
+    expect(parseModelSpec("llama3")).toBeNull();
+    expect(parseModelSpec("acme:model")).toBeNull();
+    expect(parseModelSpec("groq:")).toBeNull();
+  });
+
+  it("accepts registered providers", () => {
+    expect(parseModelSpec("offline:x")).toBeNull();
+    registerProvider("offline", () => ({}) as LanguageModel);
+    expect(parseModelSpec("offline:x")?.provider).toBe("offline");
+  });
+});
+
+describe("getModelChain", () => {
+  it("puts the requested model first without repeating it", () => {
+    vi.stubEnv("LLM_MODELS", "groq:a, ollama:b");
+    expect(getModelChain("ollama:b").map((config) => config.id)).toEqual(["ollama:b", "groq:a"]);
+  });
+
+  it("skips invalid configured models", () => {
+    vi.stubEnv("LLM_MODELS", "groq:a,bogus");
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    expect(getModelChain().map((config) => config.id)).toEqual(["groq:a"]);
+  });
+});
+
+describe("withModelFallback", () => {
+  const chain = [parseModelSpec("groq:a")!, parseModelSpec("groq:b")!];
+
+  // Resolves after `ms`, or rejects when the call is aborted
+  const wait = (ms: number, signal: AbortSignal) =>
+    new Promise((resolve, reject) => {
+      const timer = setTimeout(resolve, ms);
+      signal.addEventListener("abort", () => {
+        clearTimeout(timer);
+        reject(signal.reason);
+      });
+    });
+
+  it("falls back when a model errors", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    let calls = 0;
+    const { result, model } = await withModelFallback(chain, async () => {
+      if (calls++ === 0) throw new Error("rate limited");
+      return "answer";
+    });
+    expect({ result, model }).toEqual({ result: "answer", model: "groq:b" });
+  });
+
+  it("abandons a model that does not respond in time", async () => {
+    vi.useFakeTimers();
+    vi.stubEnv("LLM_TIMEOUT_MS", "100");
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const pending = withModelFallback(chain, (model, signal) => wait(500, signal)).catch((error) => error);
+    await vi.advanceTimersByTimeAsync(250);
+    expect(String(await pending)).toContain("All models failed");
+  });
+
+  it("lets a call that has responded run past the timeout", async () => {
+    vi.useFakeTimers();
+    vi.stubEnv("LLM_TIMEOUT_MS", "100");
+    const pending = withModelFallback(chain, async (model, signal, responded) => {
+      await wait(50, signal);
+      responded();
+      await wait(500, signal);
+      return "answer";
+    });
+    await vi.advanceTimersByTimeAsync(600);
+    expect(await pending).toEqual({ result: "answer", model: "groq:a" });
+  });
+});
@@ -0,0 +1,268 @@
+import { createGroq } from "@ai-sdk/groq";
+import { createOpenAICompatible } from "@ai-sdk/openai-compatible";
+import type { LanguageModel, LanguageModelUsage, TextStreamPart, ToolSet } from "ai";
+
+// LLM provider layer: models are named "provider:modelId" (for example
+// "groq:llama-3.3-70b-versatile" or "ollama:llama3.1:8b") and tried in order
+// until one answers. Other providers, such as the offline mock model used by
+// evals, exist only in the process that registers them.
+
+export const PROVIDERS = ["groq", "openai", "ollama", "llamacpp"] as const;
+export type ProviderName = (typeof PROVIDERS)[number];
+
+export interface ModelConfig {
+  // Full "provider:modelId" name, reported with each answer
+  id: string;
+  // A built-in ProviderName or a registered provider
+  provider: string;
+  modelId: string;
+}
+
+type ProviderFactory = (modelId: string) => LanguageModel;
+
+// Providers added with registerProvider
+const registeredProviders = new Map<string, ProviderFactory>();
+
+/**
+ * Add a provider for this process only, e.g. "mock" in scripts/eval.ts.
+ * Its models are accepted in LLM_MODELS but never in API requests.
+ */
+export function registerProvider(name: string, create: ProviderFactory): void {
+  registeredProviders.set(name.toLowerCase(), create);
+}
+
+export function isBuiltInProvider(provider: string): provider is ProviderName {
+  return (PROVIDERS as readonly string[]).includes(provider);
+}
+
+const DEFAULT_MODELS = "groq:llama-3.3-70b-versatile";
+
+// Time allowed for a model to start answering (its first streamed output,
+// or the first step of a non-streaming call) before falling back
+const DEFAULT_TIMEOUT_MS = 30000;
+
+/**
+ * Parse "provider:modelId"; null for unknown providers or a missing model
+ */
+export function parseModelSpec(spec: string): ModelConfig | null {
+  const separator = spec.indexOf(":");
+  if (separator === -1) return null;
+
+  const provider = spec.slice(0, separator).trim().toLowerCase();
+  const modelId = spec.slice(separator + 1).trim();
+  if (!(isBuiltInProvider(provider) || registeredProviders.has(provider)) || !modelId) return null;
+
+  return { id: `${provider}:${modelId}`, provider, modelId };
+}
+
+/**
+ * Configured models in fallback order (LLM_MODELS, comma-separated)
+ */
+export function getConfiguredModels(): ModelConfig[] {
+  const specs = (process.env.LLM_MODELS || DEFAULT_MODELS).split(",");
+  const models: ModelConfig[] = [];
+
+  for (const spec of specs) {
+    if (!spec.trim()) continue;
+    const config = parseModelSpec(spec);
+    if (config) {
+      models.push(config);
+    } else {
+      console.warn(`Ignoring invalid model in LLM_MODELS: "${spec.trim()}"`);
+    }
+  }
+
+  if (models.length === 0) {
+    throw new Error("No valid models configured. Set LLM_MODELS, e.g. groq:llama-3.3-70b-versatile");
+  }
+  return models;
+}
+
+/**
+ * Models to try for a request: the requested model first, then the
+ * configured fallbacks
+ */
+export function getModelChain(preferred?: string): ModelConfig[] {
+  const configured = getConfiguredModels();
+  const first = preferred ? parseModelSpec(preferred) : null;
+  if (!first) return configured;
+
+  return [first, ...configured.filter((config) => config.id !== first.id)];
+}
+
+function getTimeoutMs(): number {
+  const value = Number(process.env.LLM_TIMEOUT_MS);
+  return value > 0 ? value : DEFAULT_TIMEOUT_MS;
+}
+
+// Provider clients, created on first use
+const providerCache = new Map<ProviderName, ProviderFactory>();
+
+function createProvider(provider: ProviderName): ProviderFactory {
+  switch (provider) {
+    case "groq":
+      return createGroq({ apiKey: process.env.GROQ_API_KEY });
+    case "openai":
+      return createOpenAICompatible({
+        name: "openai",
+        baseURL: process.env.OPENAI_BASE_URL || "https://api.openai.com/v1",
+        apiKey: process.env.OPENAI_API_KEY,
+      });
+    case "ollama":
+      return createOpenAICompatible({
+        name: "ollama",
+        baseURL: process.env.OLLAMA_BASE_URL || "http://localhost:11434/v1",
+      });
+    case "llamacpp":
+      return createOpenAICompatible({
+        name: "llamacpp",
+        baseURL: process.env.LLAMACPP_BASE_URL || "http://localhost:8080/v1",
+      });
+  }
+}
+
+export function getLanguageModel(config: ModelConfig): LanguageModel {
+  const registered = registeredProviders.get(config.provider);
+  if (registered) return registered(config.modelId);
+  if (!isBuiltInProvider(config.provider)) throw new Error(`Unknown provider: ${config.provider}`);
+
+  let provider = providerCache.get(config.provider);
+  if (!provider) {
+    provider = createProvider(config.provider);
+    providerCache.set(config.provider, provider);
+  }
+  return provider(config.modelId);
+}
+
+function allFailed(errors: string[]): Error {
+  return new Error(`All models failed: ${errors.join("; ")}`);
+}
+
+/**
+ * Run a model call against each model in turn until one succeeds. A model
+ * that gives no response within the timeout is abandoned; calls with tool
+ * steps report their first response through `responded` (for example from
+ * onStepFinish) so later steps are not cut short.
+ */
+export async function withModelFallback<T>(
+  chain: ModelConfig[],
+  run: (model: LanguageModel, abortSignal: AbortSignal, responded: () => void) => Promise<T>
+): Promise<{ result: T; model: string }> {
+  const errors: string[] = [];
+
+  for (const config of chain) {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(new Error("Timed out")), getTimeoutMs());
+
+    try {
+      const result = await run(getLanguageModel(config), controller.signal, () => clearTimeout(timer));
+      return { result, model: config.id };
+    } catch (error) {
+      console.warn(`Model ${config.id} failed, trying the next one:`, error);
+      errors.push(`${config.id}: ${String(error)}`);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  throw allFailed(errors);
+}
+
+// What a streamed answer produces: text, any tool calls made on the way,
+// and finally the tokens used
+export type ChatStreamEvent =
+  | { type: "text"; text: string }
+  | { type: "tool-call"; toolCallId: string; toolName: string; input: unknown }
+  | { type: "tool-result"; toolCallId: string; toolName: string; output: unknown }
+  | { type: "tool-error"; toolCallId: string; toolName: string; error: string }
+  | { type: "finish"; usage: LanguageModelUsage };
+
+// Events of a stream, raising the stream's error and abort parts instead of
+// silently ending (as textStream does)
+async function* streamEvents<TOOLS extends ToolSet>(
+  fullStream: AsyncIterable<TextStreamPart<TOOLS>>
+): AsyncGenerator<ChatStreamEvent> {
+  for await (const part of fullStream) {
+    switch (part.type) {
+      case "text-delta":
+        yield { type: "text", text: part.text };
+        break;
+      case "tool-call":
+        yield {
+          type: "tool-call",
+          toolCallId: part.toolCallId,
+          toolName: part.toolName,
+          input: part.input,
+        };
+        break;
+      case "tool-result":
+        yield {
+          type: "tool-result",
+          toolCallId: part.toolCallId,
+          toolName: part.toolName,
+          output: part.output,
+        };
+        break;
+      case "tool-error":
+        yield {
+          type: "tool-error",
+          toolCallId: part.toolCallId,
+          toolName: part.toolName,
+          error: String(part.error),
+        };
+        break;
+      case "finish":
+        yield { type: "finish", usage: part.totalUsage };
+        break;
+      case "error":
+        throw part.error;
+      // An aborted stream closes normally after this part, which would
+      // pass for a finished answer
+      case "abort":
+        throw new DOMException(part.reason ?? "The stream was aborted", "AbortError");
+    }
+  }
+}
+
+/**
+ * Start a streaming call, falling back to the next model if one errors or
+ * produces no output before the timeout. Once a model has started
+ * answering (text or a tool call) the stream is committed to it.
+ * Aborting `cancelSignal` cancels the call without trying another model.
+ */
+export async function streamWithFallback<TOOLS extends ToolSet>(
+  chain: ModelConfig[],
+  start: (
+    model: LanguageModel,
+    abortSignal: AbortSignal
+  ) => { fullStream: AsyncIterable<TextStreamPart<TOOLS>> },
+  cancelSignal?: AbortSignal
+): Promise<{ events: AsyncGenerator<ChatStreamEvent>; model: string }> {
+  const errors: string[] = [];
+
+  for (const config of chain) {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(new Error("Timed out")), getTimeoutMs());
+    const abortSignal = cancelSignal ? AbortSignal.any([controller.signal, cancelSignal]) : controller.signal;
+
+    try {
+      const iterator = streamEvents(start(getLanguageModel(config), abortSignal).fullStream);
+      const first = await iterator.next();
+      clearTimeout(timer);
+
+      const events = (async function* () {
+        if (!first.done) yield first.value;
+        yield* iterator;
+      })();
+      return { events, model: config.id };
+    } catch (error) {
+      clearTimeout(timer);
+      controller.abort();
+      if (cancelSignal?.aborted) throw cancelSignal.reason;
+      console.warn(`Model ${config.id} failed, trying the next one:`, error);
+      errors.push(`${config.id}: ${String(error)}`);
+    }
+  }
+
+  throw allFailed(errors);
+}
@@ -0,0 +1,41 @@
+// Token bucket rate limiting, in memory per server process. Each bucket
+// holds up to `capacity` tokens and refills continuously; a request takes
+// one token or is refused until the next token arrives.
+
+export interface TokenBucketOptions {
+  capacity: number;
+  refillPerSecond: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  // Whole tokens left after this request
+  remaining: number;
+  // Seconds until a token is available (0 when allowed)
+  retryAfterSeconds: number;
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+const buckets = new Map<string, Bucket>();
+
+export function takeToken(id: string, options: TokenBucketOptions, now: number = Date.now()): RateLimitResult {
+  const bucket = buckets.get(id) ?? { tokens: options.capacity, updatedAt: now };
+
+  // Refill for the time since the last request, up to the capacity
+  const elapsedSeconds = Math.max(0, now - bucket.updatedAt) / 1000;
+  bucket.tokens = Math.min(options.capacity, bucket.tokens + elapsedSeconds * options.refillPerSecond);
+  bucket.updatedAt = now;
+  buckets.set(id, bucket);
+
+  if (bucket.tokens >= 1) {
+    bucket.tokens -= 1;
+    return { allowed: true, remaining: Math.floor(bucket.tokens), retryAfterSeconds: 0 };
+  }
+
+  const retryAfterSeconds = Math.ceil((1 - bucket.tokens) / options.refillPerSecond);
+  return { allowed: false, remaining: 0, retryAfterSeconds };
+}
@@ -0,0 +1,227 @@
+import { generateText, type LanguageModel } from "ai";
+import { Document } from "@langchain/core/documents";
+import { cosineSimilarity, getVectorStore } from "../kb/vectorstore";
+import { tokenize } from "../kb/bm25";
+import { RERANK_PROMPT_TEMPLATE } from "./prompts";
+
+// Second-stage ranking of retrieved chunks: score each candidate against the
+// question, then pick a diverse top k with maximal marginal relevance (MMR)
+
+export const RERANK_MODES = ["cross-encoder", "llm", "none"] as const;
+export type RerankMode = (typeof RERANK_MODES)[number];
+
+export interface RerankOptions {
+  // "none" keeps the retrieval order (MMR still applies)
+  mode?: RerankMode;
+  // Candidates to fetch before reranking (default k * CANDIDATE_MULTIPLIER)
+  candidates?: number;
+  // MMR trade-off: 1 = relevance only, 0 = diversity only
+  mmrLambda?: number;
+}
+
+export const DEFAULT_RERANK_MODE: RerankMode = "cross-encoder";
+export const CANDIDATE_MULTIPLIER = 4;
+export const DEFAULT_MMR_LAMBDA = 0.7;
+
+const CROSS_ENCODER_MODEL = "Xenova/ms-marco-MiniLM-L-6-v2";
+
+// Passage length shown to the LLM scorer, to keep the prompt small
+const LLM_PASSAGE_CHARS = 500;
+
+// Cross-encoder singleton (tokenizer + sequence classification model)
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+let crossEncoder: { tokenizer: any; model: any } | null = null;
+// Set when the model cannot be loaded, so we only try once
+let crossEncoderUnavailable = false;
+
+async function getCrossEncoder() {
+  if (crossEncoderUnavailable) {
+    return null;
+  }
+
+  if (!crossEncoder) {
+    try {
+      console.log("Loading reranking model (first time may take a moment)...");
+      const { AutoTokenizer, AutoModelForSequenceClassification } = await import(
+        "@xenova/transformers"
+      );
+      crossEncoder = {
+        tokenizer: await AutoTokenizer.from_pretrained(CROSS_ENCODER_MODEL),
+        model: await AutoModelForSequenceClassification.from_pretrained(CROSS_ENCODER_MODEL),
+      };
+    } catch (error) {
+      console.warn("Failed to load reranking model, keeping retrieval order:", error);
+      crossEncoderUnavailable = true;
+      return null;
+    }
+  }
+  return crossEncoder;
+}
+
+/**
+ * Score (question, passage) pairs with the local cross-encoder
+ */
+async function scoreWithCrossEncoder(query: string, docs: Document[]): Promise<number[] | null> {
+  const encoder = await getCrossEncoder();
+  if (!encoder) return null;
+
+  try {
+    const inputs = encoder.tokenizer(new Array(docs.length).fill(query), {
+      text_pair: docs.map((doc) => doc.pageContent),
+      padding: true,
+      truncation: true,
+    });
+    const { logits } = await encoder.model(inputs);
+    return Array.from(logits.data as ArrayLike<number>);
+  } catch (error) {
+    console.warn("Cross-encoder scoring failed, keeping retrieval order:", error);
+    return null;
+  }
+}
+
+/**
+ * Ask the LLM to grade each passage 0-10 for the question
+ */
+async function scoreWithLLM(
+  query: string,
+  docs: Document[],
+  model: LanguageModel
+): Promise<number[] | null> {
+  const passages = docs
+    .map((doc, i) => `[${i + 1}] ${doc.pageContent.slice(0, LLM_PASSAGE_CHARS)}`)
+    .join("\n\n");
+  const prompt = RERANK_PROMPT_TEMPLATE.replace("{question}", query).replace(
+    "{passages}",
+    passages
+  );
+
+  try {
+    const { text } = await generateText({ model, prompt, temperature: 0 });
+
+    const scores = new Array<number>(docs.length).fill(0);
+    let parsed = 0;
+    for (const match of text.matchAll(/\[?(\d+)\]?\s*:\s*(\d+(?:\.\d+)?)/g)) {
+      const i = Number(match[1]) - 1;
+      if (i >= 0 && i < docs.length) {
+        scores[i] = Number(match[2]);
+        parsed++;
+      }
+    }
+
+    if (parsed === 0) {
+      console.warn("Could not parse LLM rerank scores, keeping retrieval order");
+      return null;
+    }
+    return scores;
+  } catch (error) {
+    console.warn("LLM reranking failed, keeping retrieval order:", error);
+    return null;
+  }
+}
+
+// Scale scores to [0, 1] so they are comparable with similarities in MMR
+function normalize(scores: number[]): number[] {
+  const min = Math.min(...scores);
+  const max = Math.max(...scores);
+  return scores.map((score) => (max > min ? (score - min) / (max - min) : 1));
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 && b.size === 0) return 0;
+  let shared = 0;
+  for (const token of a) {
+    if (b.has(token)) shared++;
+  }
+  return shared / (a.size + b.size - shared);
+}
+
+/**
+ * Pairwise similarity between candidates: cosine of the stored embeddings
+ * where available, token overlap otherwise
+ */
+async function similarityMatrix(docs: Document[]): Promise<(i: number, j: number) => number> {
+  let embeddings: Array<ArrayLike<number> | null> = docs.map(() => null);
+  try {
+    embeddings = (await getVectorStore()).getEmbeddings(docs);
+  } catch (error) {
+    console.warn("Stored embeddings unavailable for MMR, using token overlap:", error);
+  }
+
+  const tokens = docs.map((doc) => new Set(tokenize(doc.pageContent)));
+
+  return (i, j) => {
+    const a = embeddings[i];
+    const b = embeddings[j];
+    return a && b ? cosineSimilarity(a, b) : jaccard(tokens[i], tokens[j]);
+  };
+}
+
+/**
+ * Greedy MMR selection: each pick maximizes
+ * lambda * relevance - (1 - lambda) * max similarity to the picks so far
+ */
+export function maximalMarginalRelevance(
+  relevance: number[],
+  similarity: (i: number, j: number) => number,
+  k: number,
+  lambda: number = DEFAULT_MMR_LAMBDA
+): number[] {
+  const selected: number[] = [];
+  const remaining = new Set(relevance.map((_, i) => i));
+  // Highest similarity of each candidate to any selected item
+  const redundancy = new Array<number>(relevance.length).fill(0);
+
+  while (selected.length < k && remaining.size > 0) {
+    let best = -1;
+    let bestScore = -Infinity;
+
+    for (const i of remaining) {
+      const score = lambda * relevance[i] - (1 - lambda) * redundancy[i];
+      if (score > bestScore) {
+        best = i;
+        bestScore = score;
+      }
+    }
+
+    selected.push(best);
+    remaining.delete(best);
+    for (const i of remaining) {
+      redundancy[i] = Math.max(redundancy[i], similarity(i, best));
+    }
+  }
+
+  return selected;
+}
+
+/**
+ * Rerank retrieved candidates (best first) and return a diverse top k.
+ * `model` is required for the "llm" mode.
+ */
+export async function rerankDocuments(
+  query: string,
+  candidates: Document[],
+  k: number,
+  options: RerankOptions = {},
+  model?: LanguageModel
+): Promise<Document[]> {
+  if (candidates.length <= 1) {
+    return candidates.slice(0, k);
+  }
+
+  const mode = options.mode ?? DEFAULT_RERANK_MODE;
+
+  let scores: number[] | null = null;
+  if (mode === "cross-encoder") {
+    scores = await scoreWithCrossEncoder(query, candidates);
+  } else if (mode === "llm" && model) {
+    scores = await scoreWithLLM(query, candidates, model);
+  }
+
+  // Without model scores, relevance follows the retrieval rank
+  const relevance = normalize(scores ?? candidates.map((_, i) => candidates.length - i));
+
+  const lambda = Math.min(Math.max(options.mmrLambda ?? DEFAULT_MMR_LAMBDA, 0), 1);
+  const similarity = await similarityMatrix(candidates);
+
+  return maximalMarginalRelevance(relevance, similarity, k, lambda).map((i) => candidates[i]);
+}
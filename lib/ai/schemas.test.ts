@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import { chatRequestSchema, transferableSkillsRequestSchema } from "./schemas";
+
+const question = [{ role: "user", content: "What is the SVP of an HR advisor?" }];
+
+// Dotted paths of the fields a body fails on
+function invalidPaths(result: { success: boolean; error?: { issues: { path: PropertyKey[] }[] } }): string[] {
+  return result.error?.issues.map((issue) => issue.path.map(String).join(".")) ?? [];
+}
+
+describe("chatRequestSchema", () => {
+  it("applies the defaults", () => {
+    expect(chatRequestSchema.parse({ messages: question })).toMatchObject({
+      stream: true,
+      format: "text",
+      audio: false,
+      verify: "flag",
+      cache: true,
+    });
+  });
+
+  it("requires the conversation to end with a user message", () => {
+    const result = chatRequestSchema.safeParse({ messages: [...question, { role: "assistant", content: "SVP 7" }] });
+    expect(invalidPaths(result)).toEqual(["messages"]);
+  });
+
+  it("accepts built-in providers only", () => {
+    expect(chatRequestSchema.safeParse({ messages: question, model: "ollama:llama3.1:8b" }).success).toBe(true);
+    expect(invalidPaths(chatRequestSchema.safeParse({ messages: question, model: "mock:extractive" }))).toEqual([
+      "model",
+    ]);
+    expect(invalidPaths(chatRequestSchema.safeParse({ messages: question, model: "llama3" }))).toEqual(["model"]);
+  });
+
+  it("bounds the retrieval settings", () => {
+    const result = chatRequestSchema.safeParse({ messages: question, keywordWeight: 2, efSearch: 0 });
+    expect(invalidPaths(result)).toEqual(["keywordWeight", "efSearch"]);
+  });
+});
+
+describe("transferableSkillsRequestSchema", () => {
+  const valid = { pastWork: ["166.267-046"], rfc: { strength: "L" } };
+
+  it("accepts a minimal request", () => {
+    expect(transferableSkillsRequestSchema.parse(valid)).toEqual(valid);
+  });
+
+  it("reports each invalid field", () => {
+    const result = transferableSkillsRequestSchema.safeParse({
+      pastWork: ["166.267"],
+      rfc: {
+        strength: "Light",
+        physicalDemands: { Climbing: "Sometimes" },
+        environmentalConditions: { Noise: "Loud", "Extreme Cold": "Often" },
+      },
+      education: "phd",
+      limit: 0,
+    });
+    expect(invalidPaths(result)).toEqual([
+      "pastWork.0",
+      "rfc.strength",
+      "rfc.physicalDemands.Climbing",
+      "rfc.environmentalConditions.Extreme Cold",
+      "education",
+      "limit",
+    ]);
+  });
+});
@@ -0,0 +1,424 @@
+import { z } from "zod";
+import { CASE_DOCUMENT_TYPES } from "../kb/cases";
+import { normalizeDotCode } from "../kb/skilltran";
+import {
+  DEMAND_FREQUENCIES,
+  EDUCATION_LEVELS,
+  isLimitLevel,
+  STRENGTH_ORDER,
+} from "../kb/transferable";
+import { API_SCOPES } from "./apikeys";
+import { ERROR_CODES } from "./errors";
+import { FEEDBACK_RATINGS, FEEDBACK_STATUSES } from "./feedback";
+import { VERIFY_MODES } from "./faithfulness";
+import { isBuiltInProvider, parseModelSpec, PROVIDERS } from "./providers";
+import { RERANK_MODES } from "./rerank";
+import { RESPONSE_FORMATS, structuredAnswerSchema } from "./structured";
+import { TRACE_STATUSES } from "./tracing";
+
+// Request and response schemas of the versioned API. Routes validate
+// request bodies with them and openapi.ts generates the API document from
+// them, so the two cannot drift apart.
+
+export const chatMessageSchema = z.object({
+  role: z.enum(["user", "assistant"]),
+  content: z.string(),
+});
+
+const stringOrStrings = z.union([z.string(), z.array(z.string())]);
+
+export const chatRequestSchema = z.object({
+  messages: z
+    .array(chatMessageSchema)
+    .min(1)
+    .refine((messages) => messages[messages.length - 1]?.role === "user", {
+      message: "The last message must be a user message",
+    })
+    .describe("Conversation so far, ending with the user's question"),
+  stream: z.boolean().default(true).describe("Stream the answer as Server-Sent Events"),
+  sessionId: z
+    .string()
+    .optional()
+    .describe("Server-side session; its stored turns are used as history instead of `messages`"),
+  caseId: z.string().optional().describe("Case workspace whose documents are searched alongside the KB"),
+  model: z
+    .string()
+    // Registered providers (the eval mock) are never selectable by clients
+    .refine((spec) => isBuiltInProvider(parseModelSpec(spec)?.provider ?? ""), {
+      message: `Expected "provider:modelId" with provider ${PROVIDERS.join(", ")}`,
+    })
+    .optional()
+    .describe("Model to try first, as provider:modelId"),
+  format: z.enum(RESPONSE_FORMATS).default("text").describe("structured adds a schema-validated response object"),
+  audio: z.boolean().default(false).describe("Add sentence-by-sentence speech"),
+  verify: z.enum(VERIFY_MODES).default("flag").describe("Check the answer's facts against the sources"),
+  keywordWeight: z.number().min(0).max(1).optional().describe("Weight of BM25 against embeddings"),
+  filter: z
+    .object({
+      category: stringOrStrings.optional(),
+      tags: z.array(z.string()).optional(),
+      fileName: stringOrStrings.optional(),
+    })
+    .optional()
+    .describe("Restrict retrieval by manifest metadata"),
+  efSearch: z.number().int().positive().optional().describe("HNSW candidate list size"),
+  rerank: z.enum(RERANK_MODES).optional().describe("Second-stage ranking of retrieved chunks"),
+  mmrLambda: z.number().min(0).max(1).optional().describe("Relevance against diversity; 1 disables de-duplication"),
+  cache: z.boolean().default(true).describe("Reuse a cached answer to the same or a similar question"),
+});
+
+export type ChatRequest = z.output<typeof chatRequestSchema>;
+
+export const sourceCitationSchema = z.object({
+  id: z.number().int().describe("Number of the [n] marker"),
+  chunkId: z.string(),
+  fileName: z.string(),
+  pageNumber: z.number().int().optional(),
+  startChar: z.number().int().optional(),
+  endChar: z.number().int().optional(),
+  content: z.string(),
+  cited: z.boolean().describe("Whether the answer carries a marker for this passage"),
+});
+
+export const unsupportedClaimSchema = z.object({
+  type: z.enum(["dot-code", "svp", "strength", "number"]),
+  value: z.string(),
+  sentence: z.string(),
+});
+
+export const speechChunkSchema = z.object({
+  index: z.number().int(),
+  text: z.string().describe("The sentence as spoken"),
+  audio: z.string().describe("Base64-encoded WAV (16-bit mono)"),
+});
+
+export const toolCallSchema = z.object({
+  toolCallId: z.string(),
+  toolName: z.string(),
+  input: z.unknown(),
+  output: z.unknown().optional(),
+});
+
+const cacheMatchSchema = z
+  .enum(["exact", "semantic"])
+  .describe("How a cached answer matched; absent when the answer was generated");
+
+const traceIdSchema = z.string().describe("The request's trace, for /admin/traces (absent with TRACING=off)");
+
+export const chatResponseSchema = z.object({
+  content: z.string().describe("The answer, with [n] citation markers"),
+  response: structuredAnswerSchema.optional().describe('With format "structured"'),
+  model: z.string().describe("The model that answered"),
+  sessionId: z.string().optional(),
+  sources: z.array(sourceCitationSchema),
+  toolCalls: z.array(toolCallSchema),
+  unsupportedClaims: z.array(unsupportedClaimSchema).optional(),
+  audio: z.array(speechChunkSchema).optional().describe("With audio: true"),
+  cached: cacheMatchSchema.optional(),
+  traceId: traceIdSchema.optional(),
+});
+
+export const errorBodySchema = z.object({
+  error: z.string().describe("Human-readable message"),
+  code: z.enum(ERROR_CODES).describe("Stable error code"),
+  fields: z
+    .array(z.object({ path: z.string(), message: z.string() }))
+    .optional()
+    .describe("Invalid request fields"),
+});
+
+// Data of each streamed chat event (see sse.ts)
+export const chatEventSchemas = {
+  token: z.object({ content: z.string() }),
+  tool: z.object({
+    phase: z.enum(["call", "result"]),
+    toolCallId: z.string(),
+    toolName: z.string(),
+    input: z.unknown().optional(),
+    output: z.unknown().optional(),
+    error: z.string().optional(),
+    isError: z.boolean().optional(),
+  }),
+  audio: speechChunkSchema,
+  sources: z.object({
+    sources: z.array(sourceCitationSchema),
+    unsupportedClaims: z.array(unsupportedClaimSchema).optional(),
+  }),
+  error: z.object({
+    error: z.string(),
+    code: z.enum([...ERROR_CODES, "cancelled"]),
+  }),
+  done: z.object({
+    model: z.string(),
+    sessionId: z.string().optional(),
+    streamId: z.string(),
+    cached: cacheMatchSchema.optional(),
+    traceId: traceIdSchema.optional(),
+  }),
+};
+
+export const sessionCreateSchema = z.object({
+  title: z.string().optional(),
+});
+
+export const sessionRenameSchema = z.object({
+  title: z.string(),
+});
+
+export const sessionSchema = z.object({
+  id: z.string(),
+  title: z.string(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+  messages: z.array(
+    chatMessageSchema.extend({
+      id: z.string(),
+      createdAt: z.string(),
+      sources: z.array(sourceCitationSchema).optional(),
+      model: z.string().optional(),
+      caseId: z.string().optional(),
+    })
+  ),
+});
+
+export const sessionSummarySchema = sessionSchema.omit({ messages: true }).extend({
+  messageCount: z.number().int(),
+});
+
+// Longest text accepted by /api/speak in one request
+export const MAX_SPEAK_TEXT_LENGTH = 5000;
+
+export const speakRequestSchema = z.object({
+  text: z.string().min(1).max(MAX_SPEAK_TEXT_LENGTH),
+});
+
+export const transcriptionSchema = z.object({
+  text: z.string(),
+  chunks: z.array(z.object({ text: z.string(), timestamp: z.tuple([z.number(), z.number().nullable()]) })),
+});
+
+export const feedbackCreateSchema = z.object({
+  rating: z.enum(FEEDBACK_RATINGS),
+  correction: z.string().max(10000).optional().describe("What the answer should have said"),
+  question: z.string().min(1).describe("The question the answer was given to"),
+  answer: z.string().describe("The answer as shown"),
+  sources: z.array(sourceCitationSchema).default([]).describe("The answer's sources"),
+  model: z.string().optional().describe("The model that answered"),
+  sessionId: z.string().optional(),
+  traceId: z.string().optional().describe("The answer's traceId"),
+  caseId: z.string().optional().describe("Case workspace the answer searched; such feedback cannot be promoted"),
+});
+
+export const feedbackUpdateSchema = feedbackCreateSchema.pick({ rating: true, correction: true }).partial();
+
+export const feedbackSchema = feedbackCreateSchema.extend({
+  id: z.string(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+  status: z.enum(FEEDBACK_STATUSES).describe("Review state: open, promoted to the curated Q&A, or dismissed"),
+  curated: z.object({ question: z.string(), answer: z.string(), promotedAt: z.string() }).optional(),
+});
+
+// Reviewer actions
+export const feedbackStatusSchema = z.object({
+  status: z.enum(["open", "dismissed"]),
+});
+
+export const feedbackPromoteSchema = z.object({
+  question: z.string().trim().min(1).optional().describe("Defaults to the question asked"),
+  answer: z.string().trim().min(1).optional().describe("Defaults to the user's correction"),
+});
+
+const dotCodeSchema = z.string().refine((code) => normalizeDotCode(code) !== null, {
+  message: "Expected a 9-digit DOT code, e.g. 166.267-046",
+});
+
+export const transferableSkillsRequestSchema = z.object({
+  pastWork: z.array(dotCodeSchema).min(1).describe("DOT codes of past relevant work, e.g. 166.267-046"),
+  rfc: z
+    .object({
+      strength: z
+        .enum(STRENGTH_ORDER)
+        .describe("Highest exertional level, as its code: S=Sedentary, L=Light, M=Medium, H=Heavy, V=Very Heavy"),
+      physicalDemands: z
+        .record(z.string(), z.enum(DEMAND_FREQUENCIES))
+        .optional()
+        .describe('Most often each DOT physical demand may be required, e.g. { "Climbing": "Never" }'),
+      environmentalConditions: z
+        .record(
+          z.string(),
+          z.string().refine(isLimitLevel, { message: "Expected a frequency (Never ... Constantly) or noise level" })
+        )
+        .optional()
+        .describe('Most each environmental condition may be present, e.g. { "Extreme Cold": "Never" }'),
+    })
+    .describe("Residual functional capacity"),
+  age: z.number().min(0).optional(),
+  education: z.enum(EDUCATION_LEVELS).optional(),
+  limit: z.number().int().positive().optional().describe("Maximum candidates returned (default 20)"),
+});
+
+const codedNameSchema = z.object({ code: z.string(), name: z.string() });
+
+export const occupationSchema = z.object({
+  dotCode: z.string(),
+  title: z.string(),
+  svp: z.number().int().optional(),
+  svpDescription: z.string().optional(),
+  strength: z.enum(STRENGTH_ORDER).optional(),
+  strengthName: z.string().optional(),
+  ged: z.object({
+    reasoning: z.number().int().optional(),
+    math: z.number().int().optional(),
+    language: z.number().int().optional(),
+  }),
+  physicalDemands: z.record(z.string(), z.enum(DEMAND_FREQUENCIES)),
+  environmentalConditions: z.record(z.string(), z.string()),
+  dataPeopleThings: z.object({
+    data: codedNameSchema.optional(),
+    people: codedNameSchema.optional(),
+    things: codedNameSchema.optional(),
+  }),
+  workFields: z.array(codedNameSchema),
+  mpsms: z.array(codedNameSchema),
+  onetCode: z.string().optional(),
+  onetTitle: z.string().optional(),
+  dateLastUpdated: z.string().optional(),
+  sources: z.array(z.string()).describe("Files the record was read from"),
+});
+
+export const transferableSkillsResultSchema = z.object({
+  pastWork: z.array(
+    z.object({
+      dotCode: z.string(),
+      title: z.string(),
+      svp: z.number().int().optional(),
+      strength: z.enum(STRENGTH_ORDER).optional(),
+      skilled: z.boolean(),
+    })
+  ),
+  unknownDotCodes: z.array(z.string()).describe("Past work codes not in the occupation data"),
+  ageCategory: z.string().optional(),
+  minimalAdjustmentRequired: z.boolean(),
+  candidates: z.array(
+    z.object({
+      dotCode: z.string(),
+      title: z.string(),
+      svp: z.number().int(),
+      strength: z.enum(STRENGTH_ORDER),
+      sourceDotCode: z.string().describe("The past work the skills transfer from"),
+      matchedWorkFields: z.array(codedNameSchema),
+      matchedMpsms: z.array(codedNameSchema),
+      score: z.number(),
+      explanation: z.array(z.string()),
+    })
+  ),
+  notes: z.array(z.string()),
+});
+
+export const caseCreateSchema = z.object({
+  name: z.string().trim().min(1),
+});
+
+export const apiKeyCreateSchema = z.object({
+  name: z.string().trim().min(1),
+  scopes: z.array(z.enum(API_SCOPES)).min(1),
+  quotas: z
+    .object({
+      requestsPerMinute: z.number().positive().optional(),
+      burst: z.number().positive().optional(),
+      requestsPerDay: z.number().positive().optional(),
+    })
+    .optional(),
+});
+
+export const caseSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+  files: z.array(
+    z.object({
+      fileName: z.string(),
+      documentType: z.enum(CASE_DOCUMENT_TYPES),
+      size: z.number().int(),
+      uploadedAt: z.string(),
+    })
+  ),
+});
+
+// What re-indexing a case changed, per file
+export const caseIndexResultSchema = z.object({
+  case: caseSchema,
+  diff: z.array(
+    z.object({
+      fileName: z.string(),
+      status: z.enum(["added", "updated", "removed", "unchanged"]),
+      added: z.number().int(),
+      updated: z.number().int(),
+      removed: z.number().int(),
+      unchanged: z.number().int(),
+    })
+  ),
+});
+
+// A key as listed: never the key itself
+export const apiKeyInfoSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  prefix: z.string().describe("Start of the key, to tell keys apart"),
+  scopes: z.array(z.enum(API_SCOPES)),
+  quotas: z.object({
+    requestsPerMinute: z.number(),
+    burst: z.number(),
+    requestsPerDay: z.number().optional(),
+  }),
+  createdAt: z.string(),
+  revokedAt: z.string().optional(),
+  usage: z.object({
+    requests: z.number().int(),
+    rejected: z.number().int(),
+    lastUsedAt: z.string().nullable(),
+    days: z.record(z.string(), z.object({ requests: z.number().int(), rejected: z.number().int() })),
+    scopes: z.record(z.string(), z.number().int()),
+  }),
+});
+
+export const apiKeyCreatedSchema = apiKeyInfoSchema.extend({
+  key: z.string().describe("The key; this response is its only copy"),
+});
+
+const tokenUsageSchema = z.object({
+  inputTokens: z.number().int().optional(),
+  outputTokens: z.number().int().optional(),
+  totalTokens: z.number().int().optional(),
+});
+
+export const traceSummarySchema = z.object({
+  id: z.string(),
+  route: z.string(),
+  startedAt: z.string(),
+  durationMs: z.number(),
+  status: z.enum(TRACE_STATUSES),
+  question: z.string().optional(),
+  model: z.string().optional(),
+  answer: z.string().optional(),
+  usage: tokenUsageSchema.optional(),
+  cached: z.enum(["exact", "semantic"]).optional(),
+  error: z.string().optional(),
+  replayOf: z.string().optional().describe("Trace of the request this one replayed"),
+});
+
+export const traceSchema = traceSummarySchema.extend({
+  request: z.unknown().describe("The validated request body"),
+  history: z.array(chatMessageSchema).optional(),
+  spans: z.array(
+    z.object({
+      name: z.string(),
+      startMs: z.number().describe("Milliseconds since the trace started"),
+      durationMs: z.number(),
+      attributes: z.record(z.string(), z.unknown()),
+      error: z.string().optional(),
+    })
+  ),
+});
@@ -0,0 +1,155 @@
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import type { SourceCitation } from "./citations";
+import type { ChatMessage } from "./history";
+
+// Server-side conversation sessions, one JSON file per session
+
+const SESSIONS_DIR = process.env.SESSIONS_DIR || path.join(process.cwd(), ".sessions");
+
+export const DEFAULT_SESSION_TITLE = "New conversation";
+
+// Length of titles generated from the first question
+const AUTO_TITLE_CHARS = 60;
+
+export interface SessionMessage extends ChatMessage {
+  id: string;
+  createdAt: string;
+  // Assistant turns only
+  sources?: SourceCitation[];
+  model?: string;
+  caseId?: string;
+}
+
+export interface Session {
+  id: string;
+  title: string;
+  createdAt: string;
+  updatedAt: string;
+  messages: SessionMessage[];
+}
+
+export interface SessionSummary {
+  id: string;
+  title: string;
+  createdAt: string;
+  updatedAt: string;
+  messageCount: number;
+}
+
+// Session IDs are UUIDs; anything else never reaches the filesystem
+function isSessionId(id: string): boolean {
+  return /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/.test(id);
+}
+
+function sessionPath(id: string): string {
+  return path.join(SESSIONS_DIR, `${id}.json`);
+}
+
+// Write via a temp file so a crash never leaves a half-written session
+function writeSession(session: Session): void {
+  fs.mkdirSync(SESSIONS_DIR, { recursive: true });
+  const filePath = sessionPath(session.id);
+  const tmpPath = `${filePath}.tmp`;
+  fs.writeFileSync(tmpPath, JSON.stringify(session, null, 2));
+  fs.renameSync(tmpPath, filePath);
+}
+
+function toSummary(session: Session): SessionSummary {
+  return {
+    id: session.id,
+    title: session.title,
+    createdAt: session.createdAt,
+    updatedAt: session.updatedAt,
+    messageCount: session.messages.length,
+  };
+}
+
+function cleanTitle(title: string): string {
+  return title.replace(/\s+/g, " ").trim();
+}
+
+export function createSession(title?: string): Session {
+  const now = new Date().toISOString();
+  const session: Session = {
+    id: crypto.randomUUID(),
+    title: cleanTitle(title ?? "") || DEFAULT_SESSION_TITLE,
+    createdAt: now,
+    updatedAt: now,
+    messages: [],
+  };
+  writeSession(session);
+  return session;
+}
+
+export function getSession(id: string): Session | null {
+  if (!isSessionId(id)) return null;
+
+  const filePath = sessionPath(id);
+  if (!fs.existsSync(filePath)) return null;
+
+  return JSON.parse(fs.readFileSync(filePath, "utf-8")) as Session;
+}
+
+/**
+ * All sessions, most recently updated first
+ */
+export function listSessions(): SessionSummary[] {
+  if (!fs.existsSync(SESSIONS_DIR)) return [];
+
+  const sessions: SessionSummary[] = [];
+  for (const file of fs.readdirSync(SESSIONS_DIR)) {
+    if (!file.endsWith(".json")) continue;
+    const session = getSession(path.basename(file, ".json"));
+    if (session) sessions.push(toSummary(session));
+  }
+
+  return sessions.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+export function renameSession(id: string, title: string): Session | null {
+  const session = getSession(id);
+  if (!session) return null;
+
+  session.title = cleanTitle(title) || DEFAULT_SESSION_TITLE;
+  session.updatedAt = new Date().toISOString();
+  writeSession(session);
+  return session;
+}
+
+export function deleteSession(id: string): boolean {
+  if (!getSession(id)) return false;
+  fs.unlinkSync(sessionPath(id));
+  return true;
+}
+
+/**
+ * Append turns to a session. Untitled sessions are named after their
+ * first question.
+ */
+export function appendMessages(
+  id: string,
+  messages: Array<Omit<SessionMessage, "id" | "createdAt">>
+): Session | null {
+  const session = getSession(id);
+  if (!session) return null;
+
+  const now = new Date().toISOString();
+  for (const message of messages) {
+    session.messages.push({ id: crypto.randomUUID(), createdAt: now, ...message });
+  }
+
+  if (session.title === DEFAULT_SESSION_TITLE) {
+    const question = session.messages.find((m) => m.role === "user");
+    if (question) {
+      const title = cleanTitle(question.content);
+      session.title =
+        title.length > AUTO_TITLE_CHARS ? `${title.slice(0, AUTO_TITLE_CHARS - 1)}…` : title;
+    }
+  }
+
+  session.updatedAt = now;
+  writeSession(session);
+  return session;
+}
@@ -0,0 +1,341 @@
+// Local speech models for the avatar: Whisper speech-to-text and a VITS
+// text-to-speech voice, both run on CPU via transformers.js
+
+const STT_MODEL = process.env.STT_MODEL || "Xenova/whisper-tiny.en";
+const TTS_MODEL = process.env.TTS_MODEL || "Xenova/mms-tts-eng";
+
+// Whisper expects 16 kHz mono audio
+const STT_SAMPLING_RATE = 16000;
+
+// Long recordings are transcribed in overlapping windows
+const STT_CHUNK_SECONDS = 30;
+const STT_STRIDE_SECONDS = 5;
+
+// Mono audio, samples scaled to -1..1
+export interface SpeechAudio {
+  samples: Float32Array;
+  samplingRate: number;
+}
+
+// Pipelines, loaded on first use
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+let transcriber: any = null;
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+let synthesizer: any = null;
+
+async function getTranscriber() {
+  if (!transcriber) {
+    console.log("Loading speech-to-text model (first time may take a moment)...");
+    const { pipeline } = await import("@xenova/transformers");
+    transcriber = await pipeline("automatic-speech-recognition", STT_MODEL);
+  }
+  return transcriber;
+}
+
+async function getSynthesizer() {
+  if (!synthesizer) {
+    console.log("Loading text-to-speech model (first time may take a moment)...");
+    const { pipeline } = await import("@xenova/transformers");
+    synthesizer = await pipeline("text-to-speech", TTS_MODEL);
+  }
+  return synthesizer;
+}
+
+function readChunkId(view: DataView, offset: number): string {
+  return String.fromCharCode(
+    view.getUint8(offset),
+    view.getUint8(offset + 1),
+    view.getUint8(offset + 2),
+    view.getUint8(offset + 3)
+  );
+}
+
+interface WavFormat {
+  // 1 = integer PCM, 3 = IEEE float
+  audioFormat: number;
+  channels: number;
+  samplingRate: number;
+  bitsPerSample: number;
+}
+
+// One sample scaled to -1..1
+function readSample(view: DataView, at: number, bitsPerSample: number, isFloat: boolean): number {
+  if (isFloat) return view.getFloat32(at, true);
+  switch (bitsPerSample) {
+    case 8:
+      return (view.getUint8(at) - 128) / 128;
+    case 16:
+      return view.getInt16(at, true) / 32768;
+    case 24:
+      // Shift the 3 bytes into the top of an int32 to keep the sign
+      return ((view.getUint8(at + 2) << 24) | (view.getUint8(at + 1) << 16) | (view.getUint8(at) << 8)) / 2147483648;
+    default:
+      return view.getInt32(at, true) / 2147483648;
+  }
+}
+
+/**
+ * Decode a WAV file (8/16/24/32-bit PCM or 32-bit float) into mono samples
+ */
+export function decodeWav(data: Buffer): SpeechAudio {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  if (data.byteLength < 12 || readChunkId(view, 0) !== "RIFF" || readChunkId(view, 8) !== "WAVE") {
+    throw new Error("Expected a WAV (RIFF/WAVE) file");
+  }
+
+  let format: WavFormat | null = null;
+  let offset = 12;
+
+  while (offset + 8 <= data.byteLength) {
+    const id = readChunkId(view, offset);
+    const size = view.getUint32(offset + 4, true);
+    const body = offset + 8;
+
+    if (id === "fmt ") {
+      format = {
+        audioFormat: view.getUint16(body, true),
+        channels: view.getUint16(body + 2, true),
+        samplingRate: view.getUint32(body + 4, true),
+        bitsPerSample: view.getUint16(body + 14, true),
+      };
+      // WAVE_FORMAT_EXTENSIBLE keeps the real format in its sub-format GUID
+      if (format.audioFormat === 0xfffe && size >= 26) {
+        format.audioFormat = view.getUint16(body + 24, true);
+      }
+    } else if (id === "data") {
+      if (!format) throw new Error("WAV file has no fmt chunk before its data");
+      const { audioFormat, channels, samplingRate, bitsPerSample } = format;
+      const bytesPerSample = bitsPerSample / 8;
+      const isFloat = audioFormat === 3 && bitsPerSample === 32;
+      if (!isFloat && (audioFormat !== 1 || ![8, 16, 24, 32].includes(bitsPerSample))) {
+        throw new Error(`Unsupported WAV encoding (format ${audioFormat}, ${bitsPerSample}-bit)`);
+      }
+
+      // Streamed WAVs may leave the data size unset
+      const end = Math.min(body + size, data.byteLength);
+      const frames = Math.floor((end - body) / (bytesPerSample * channels));
+      const samples = new Float32Array(frames);
+
+      for (let frame = 0; frame < frames; frame++) {
+        let sum = 0;
+        for (let channel = 0; channel < channels; channel++) {
+          const at = body + (frame * channels + channel) * bytesPerSample;
+          sum += readSample(view, at, bitsPerSample, isFloat);
+        }
+        samples[frame] = sum / channels;
+      }
+
+      return { samples, samplingRate };
+    }
+
+    // Chunks are padded to an even length
+    offset = body + size + (size % 2);
+  }
+
+  throw new Error("WAV file has no data chunk");
+}
+
+/**
+ * Linear resampling, enough for speech recognition input
+ */
+function resample(samples: Float32Array, from: number, to: number): Float32Array {
+  if (from === to) return samples;
+
+  const ratio = from / to;
+  const output = new Float32Array(Math.floor(samples.length / ratio));
+  for (let i = 0; i < output.length; i++) {
+    const position = i * ratio;
+    const index = Math.floor(position);
+    const next = Math.min(index + 1, samples.length - 1);
+    output[i] = samples[index] + (samples[next] - samples[index]) * (position - index);
+  }
+  return output;
+}
+
+// WAV header for 16-bit mono PCM; a dataBytes of 0xffffffff marks a
+// stream of unknown length
+function wavHeader(samplingRate: number, dataBytes: number): Buffer {
+  const header = Buffer.alloc(44);
+  header.write("RIFF", 0);
+  header.writeUInt32LE(Math.min(36 + dataBytes, 0xffffffff), 4);
+  header.write("WAVE", 8);
+  header.write("fmt ", 12);
+  header.writeUInt32LE(16, 16);
+  header.writeUInt16LE(1, 20);
+  header.writeUInt16LE(1, 22);
+  header.writeUInt32LE(samplingRate, 24);
+  header.writeUInt32LE(samplingRate * 2, 28);
+  header.writeUInt16LE(2, 32);
+  header.writeUInt16LE(16, 34);
+  header.write("data", 36);
+  header.writeUInt32LE(dataBytes, 40);
+  return header;
+}
+
+// Samples as 16-bit PCM
+function toPCM16(samples: Float32Array): Buffer {
+  const pcm = Buffer.alloc(samples.length * 2);
+  for (let i = 0; i < samples.length; i++) {
+    const sample = Math.max(-1, Math.min(1, samples[i]));
+    pcm.writeInt16LE(Math.round(sample * 32767), i * 2);
+  }
+  return pcm;
+}
+
+export function encodeWav(samples: Float32Array, samplingRate: number): Buffer {
+  const pcm = toPCM16(samples);
+  return Buffer.concat([wavHeader(samplingRate, pcm.length), pcm]);
+}
+
+export interface Transcription {
+  text: string;
+  // Timed segments of the transcript, in seconds
+  chunks: { text: string; timestamp: [number, number | null] }[];
+}
+
+/**
+ * Transcribe decoded audio (see decodeWav) with Whisper
+ */
+export async function transcribe({ samples, samplingRate }: SpeechAudio): Promise<Transcription> {
+  const input = resample(samples, samplingRate, STT_SAMPLING_RATE);
+
+  const pipe = await getTranscriber();
+  const output = await pipe(input, {
+    chunk_length_s: STT_CHUNK_SECONDS,
+    stride_length_s: STT_STRIDE_SECONDS,
+    return_timestamps: true,
+  });
+
+  return {
+    text: String(output.text ?? "").trim(),
+    chunks: output.chunks ?? [],
+  };
+}
+
+/**
+ * Make answer text speakable: drop citation markers and markdown
+ */
+export function toSpeechText(text: string): string {
+  return text
+    .replace(/\[\d+\]/g, "")
+    .replace(/[*_`#>]+/g, "")
+    .replace(/^\s*[-•]\s+/gm, "")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+// Sentence ends: terminal punctuation followed by whitespace, or a blank
+// line (list items and headings end without punctuation)
+const SENTENCE_END = /([.!?]["')\]]*)\s+|\n\s*\n/g;
+
+/**
+ * Split text into sentences; the remainder after the last sentence end is
+ * returned separately so streamed text can be completed later
+ */
+export function splitSentences(text: string): { sentences: string[]; rest: string } {
+  const sentences: string[] = [];
+  let start = 0;
+
+  for (const match of text.matchAll(SENTENCE_END)) {
+    const end = match.index! + (match[1]?.length ?? 0);
+    const sentence = text.slice(start, end).trim();
+    // Skip ends inside numbers and abbreviations such as "No. 3" or "e.g."
+    if (match[1] && /\b(?:No|e\.g|i\.e|vs|etc|Dr|Mr|Ms|Mrs)\.$/i.test(sentence)) continue;
+    if (sentence) sentences.push(sentence);
+    start = match.index! + match[0].length;
+  }
+
+  return { sentences, rest: text.slice(start) };
+}
+
+/**
+ * Synthesize speech for a piece of text
+ */
+export async function synthesize(text: string): Promise<SpeechAudio> {
+  const pipe = await getSynthesizer();
+  const output = await pipe(toSpeechText(text));
+  return { samples: output.audio, samplingRate: output.sampling_rate };
+}
+
+/**
+ * Synthesize text sentence by sentence as one streamed WAV file, so playback
+ * can start before the whole text is spoken. The first sentence is
+ * synthesized before returning, so a model that cannot load fails here
+ * rather than mid-stream.
+ */
+export async function synthesizeStream(text: string): Promise<ReadableStream<Uint8Array>> {
+  const sentences = splitSentences(`${text}\n\n`).sentences.filter((s) => toSpeechText(s));
+  if (sentences.length === 0) {
+    throw new Error("No speakable text");
+  }
+
+  const first = await synthesize(sentences[0]);
+
+  return new ReadableStream({
+    async start(controller) {
+      controller.enqueue(wavHeader(first.samplingRate, 0xffffffff));
+      controller.enqueue(toPCM16(first.samples));
+      try {
+        for (const sentence of sentences.slice(1)) {
+          controller.enqueue(toPCM16((await synthesize(sentence)).samples));
+        }
+        controller.close();
+      } catch (error) {
+        console.error("Speech stream error:", error);
+        controller.error(error);
+      }
+    },
+  });
+}
+
+// One spoken sentence of an answer, for lip-sync
+export interface SpeechChunk {
+  index: number;
+  // The text as spoken (markers and markdown removed)
+  text: string;
+  // Base64-encoded WAV (16-bit mono)
+  audio: string;
+}
+
+/**
+ * Turn (streamed) answer text into spoken sentences, delivered in order.
+ * Synthesis runs alongside the text; after a failure the rest of the
+ * answer is left as text only.
+ */
+export function createSentenceSpeaker(onChunk: (chunk: SpeechChunk) => void) {
+  let pending = "";
+  let index = 0;
+  let failed = false;
+  let queue = Promise.resolve();
+
+  const speak = (sentence: string) => {
+    const text = toSpeechText(sentence);
+    if (!text) return;
+
+    const chunkIndex = index++;
+    queue = queue.then(async () => {
+      if (failed) return;
+      try {
+        const { samples, samplingRate } = await synthesize(text);
+        onChunk({ index: chunkIndex, text, audio: encodeWav(samples, samplingRate).toString("base64") });
+      } catch (error) {
+        console.warn("Speech synthesis failed, answering with text only:", error);
+        failed = true;
+      }
+    });
+  };
+
+  return {
+    push(text: string) {
+      const { sentences, rest } = splitSentences(pending + text);
+      pending = rest;
+      sentences.forEach(speak);
+    },
+    // Speak any trailing text and wait for the remaining audio
+    async finish() {
+      speak(pending);
+      pending = "";
+      await queue;
+    },
+  };
+}
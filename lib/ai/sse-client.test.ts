@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+import { parseSSE, SSEMessage } from "./sse-client";
+
+// A body delivering the given chunks one read at a time
+function body(chunks: string[]): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  return new ReadableStream({
+    start(controller) {
+      for (const chunk of chunks) controller.enqueue(encoder.encode(chunk));
+      controller.close();
+    },
+  });
+}
+
+async function collect(chunks: string[]): Promise<SSEMessage[]> {
+  const messages: SSEMessage[] = [];
+  for await (const message of parseSSE(body(chunks))) messages.push(message);
+  return messages;
+}
+
+describe("parseSSE", () => {
+  it("reads named events with their ids", async () => {
+    expect(await collect(['id: 1\nevent: token\ndata: {"text":"Hi"}\n\n', "id: 2\nevent: done\ndata: {}\n\n"])).toEqual([
+      { id: "1", event: "token", data: '{"text":"Hi"}' },
+      { id: "2", event: "done", data: "{}" },
+    ]);
+  });
+
+  it("joins lines split across chunks", async () => {
+    expect(await collect(["event: tok", "en\nda", "ta: a\n", "\n"])).toEqual([{ id: null, event: "token", data: "a" }]);
+  });
+
+  it("treats a CRLF split across chunks as one line break", async () => {
+    expect(await collect(["data: a\r", "\n\r\n"])).toEqual([{ id: null, event: "message", data: "a" }]);
+  });
+
+  it("joins multi-line data and defaults the event name", async () => {
+    expect(await collect(["data: line 1\ndata: line 2\n\n"])).toEqual([
+      { id: null, event: "message", data: "line 1\nline 2" },
+    ]);
+  });
+
+  it("skips heartbeat comments and empty messages", async () => {
+    expect(await collect([": heartbeat\n\n", "event: ping\n\n", "data: x\n\n"])).toEqual([
+      { id: null, event: "message", data: "x" },
+    ]);
+  });
+
+  it("keeps the last id for later messages", async () => {
+    const messages = await collect(["id: 7\ndata: a\n\n", "data: b\n\n"]);
+    expect(messages.map((message) => message.id)).toEqual(["7", "7"]);
+  });
+
+  it("drops a message the stream ends in the middle of", async () => {
+    expect(await collect(["data: a\n\n", "data: cut"])).toEqual([{ id: null, event: "message", data: "a" }]);
+  });
+});
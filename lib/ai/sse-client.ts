@@ -0,0 +1,61 @@
+// Browser-side reader for the chat API's Server-Sent Events (see sse.ts).
+// Kept free of server imports so the chat page can use it.
+
+export interface SSEMessage {
+  // Last event id seen so far, for resuming with Last-Event-ID
+  id: string | null;
+  event: string;
+  data: string;
+}
+
+/**
+ * Messages in an event stream body. Partial lines are buffered across
+ * chunks; comment lines (heartbeats) are skipped.
+ */
+export async function* parseSSE(body: ReadableStream<Uint8Array>): AsyncGenerator<SSEMessage> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let id: string | null = null;
+  let event = "";
+  let data: string[] = [];
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+
+      // A trailing "\r" may be the first half of "\r\n"
+      const held = !done && buffer.endsWith("\r") ? "\r" : "";
+      if (held) buffer = buffer.slice(0, -1);
+
+      // Keep the last, possibly incomplete, line for the next chunk
+      const lines = buffer.split(/\r\n|\r|\n/);
+      buffer = done ? "" : (lines.pop() ?? "") + held;
+
+      for (const line of lines) {
+        // A blank line ends the message
+        if (line === "") {
+          if (data.length > 0) yield { id, event: event || "message", data: data.join("\n") };
+          event = "";
+          data = [];
+          continue;
+        }
+        if (line.startsWith(":")) continue;
+
+        const colon = line.indexOf(":");
+        const field = colon === -1 ? line : line.slice(0, colon);
+        const value = colon === -1 ? "" : line.slice(colon + 1).replace(/^ /, "");
+
+        if (field === "event") event = value;
+        else if (field === "data") data.push(value);
+        else if (field === "id") id = value;
+      }
+
+      if (done) return;
+    }
+  } finally {
+    // Also closes the connection when the caller stops reading early
+    await reader.cancel().catch(() => {});
+  }
+}
@@ -0,0 +1,183 @@
+import { randomUUID } from "crypto";
+import type { SourceCitation } from "./citations";
+import type { ErrorCode } from "./errors";
+import type { UnsupportedClaim } from "./faithfulness";
+import type { SpeechChunk } from "./speech";
+
+// Server-Sent Events protocol for streamed chat answers. Every event has a
+// name, a sequential id and a JSON payload. Streams are kept in memory for
+// a short while so a dropped connection can resume from its last event id.
+
+export interface ChatEventMap {
+  // A piece of the answer text
+  token: { content: string };
+  // A tool call, then its result
+  tool:
+    | { phase: "call"; toolCallId: string; toolName: string; input: unknown }
+    | { phase: "result"; toolCallId: string; toolName: string; output?: unknown; error?: string; isError: boolean };
+  // Speech for one sentence of the answer
+  audio: SpeechChunk;
+  // Sources for the [n] markers, and facts they do not support
+  sources: { sources: SourceCitation[]; unsupportedClaims?: UnsupportedClaim[] };
+  // The answer failed ("internal_error") or was stopped ("cancelled")
+  error: { error: string; code: ErrorCode | "cancelled" };
+  // `cached` when the answer was replayed from the answer cache; `traceId`
+  // names the request's trace
+  done: {
+    model: string;
+    sessionId?: string;
+    streamId: string;
+    cached?: "exact" | "semantic";
+    traceId?: string;
+  };
+}
+
+export type ChatEventName = keyof ChatEventMap;
+
+export interface ChatEvent<E extends ChatEventName = ChatEventName> {
+  id: number;
+  event: E;
+  data: ChatEventMap[E];
+}
+
+// Comment line sent while the model is quiet, so proxies keep the
+// connection open
+const HEARTBEAT_MS = 15000;
+
+// How long a disconnected, unfinished stream waits for a resume before its
+// model call is cancelled
+const RESUME_GRACE_MS = 15000;
+
+// How long a finished stream can still be replayed
+const FINISHED_RETENTION_MS = 60000;
+
+export function formatEvent({ id, event, data }: ChatEvent): string {
+  return `id: ${id}\nevent: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+/**
+ * One streamed answer: its events so far, its live subscribers and the
+ * abort signal for the model call behind it
+ */
+export class ChatStream {
+  readonly id = randomUUID();
+  private events: ChatEvent[] = [];
+  private listeners = new Set<(event: ChatEvent | null) => void>();
+  private controller = new AbortController();
+  private graceTimer: ReturnType<typeof setTimeout> | null = null;
+  finished = false;
+
+  get signal(): AbortSignal {
+    return this.controller.signal;
+  }
+
+  emit<E extends ChatEventName>(event: E, data: ChatEventMap[E]): void {
+    if (this.finished) return;
+    const chatEvent = { id: this.events.length + 1, event, data } as ChatEvent;
+    this.events.push(chatEvent);
+    for (const listener of this.listeners) listener(chatEvent);
+  }
+
+  // No more events; keep the stream for late resumes, then drop it
+  finish(): void {
+    if (this.finished) return;
+    this.finished = true;
+    this.clearGraceTimer();
+    for (const listener of this.listeners) listener(null);
+    this.listeners.clear();
+    setTimeout(() => chatStreams.delete(this.id), FINISHED_RETENTION_MS).unref?.();
+  }
+
+  cancel(reason: string = "Cancelled"): void {
+    if (this.finished) return;
+    this.controller.abort(new Error(reason));
+    this.emit("error", { error: reason, code: "cancelled" });
+    this.finish();
+  }
+
+  /**
+   * Replay the events after `lastEventId`, then follow live ones. The
+   * listener gets null when the stream ends.
+   */
+  subscribe(lastEventId: number, listener: (event: ChatEvent | null) => void): () => void {
+    for (const event of this.events.filter((e) => e.id > lastEventId)) listener(event);
+    if (this.finished) {
+      listener(null);
+      return () => {};
+    }
+
+    this.clearGraceTimer();
+    this.listeners.add(listener);
+
+    return () => {
+      this.listeners.delete(listener);
+      // Nobody is reading: cancel unless the client comes back in time
+      if (this.listeners.size === 0 && !this.finished) {
+        this.graceTimer = setTimeout(() => this.cancel("Client disconnected"), RESUME_GRACE_MS);
+      }
+    };
+  }
+
+  private clearGraceTimer() {
+    if (this.graceTimer) {
+      clearTimeout(this.graceTimer);
+      this.graceTimer = null;
+    }
+  }
+}
+
+// On globalThis so every route bundle (and dev reloads) share the streams
+const globalForStreams = globalThis as typeof globalThis & { chatStreams?: Map<string, ChatStream> };
+const chatStreams = (globalForStreams.chatStreams ??= new Map<string, ChatStream>());
+
+export function createChatStream(): ChatStream {
+  const stream = new ChatStream();
+  chatStreams.set(stream.id, stream);
+  return stream;
+}
+
+export function getChatStream(id: string): ChatStream | null {
+  return chatStreams.get(id) ?? null;
+}
+
+/**
+ * Response streaming a chat stream's events after `lastEventId`, with
+ * heartbeats; the stream id is in the X-Stream-Id header
+ */
+export function toSSEResponse(stream: ChatStream, lastEventId: number = 0): Response {
+  const encoder = new TextEncoder();
+  let unsubscribe = () => {};
+  let heartbeat: ReturnType<typeof setInterval> | undefined;
+
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const close = () => {
+        clearInterval(heartbeat);
+        controller.close();
+      };
+
+      heartbeat = setInterval(() => controller.enqueue(encoder.encode(": heartbeat\n\n")), HEARTBEAT_MS);
+      unsubscribe = stream.subscribe(lastEventId, (event) => {
+        if (event) {
+          controller.enqueue(encoder.encode(formatEvent(event)));
+        } else {
+          close();
+        }
+      });
+    },
+    // The client went away
+    cancel() {
+      clearInterval(heartbeat);
+      unsubscribe();
+    },
+  });
+
+  return new Response(body, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+      "X-Stream-Id": stream.id,
+    },
+  });
+}
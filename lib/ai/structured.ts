@@ -0,0 +1,68 @@
+import { z } from "zod";
+import { normalizeDotCode } from "../kb/skilltran";
+
+// Structured answer for clients that voice a summary and show details on a
+// panel (Unity/VR avatars)
+
+export const RESPONSE_FORMATS = ["text", "structured"] as const;
+export type ResponseFormat = (typeof RESPONSE_FORMATS)[number];
+
+export const structuredAnswerSchema = z.object({
+  spokenSummary: z
+    .string()
+    .min(1)
+    .describe(
+      "One to three short sentences to be read aloud: plain text, no markdown, no citation markers, DOT codes and numbers written as they should be spoken"
+    ),
+  detailedAnswer: z
+    .string()
+    .min(1)
+    .describe("The full expert answer with [n] citation markers; simple markdown allowed"),
+  entities: z
+    .object({
+      dotCodes: z
+        .array(
+          z.object({
+            code: z.string().describe("DOT code as ###.###-###"),
+            title: z.string().optional(),
+          })
+        )
+        .describe("DOT codes mentioned in the answer"),
+      svp: z.array(z.number().int().min(1).max(9)).describe("SVP levels mentioned in the answer"),
+      strength: z
+        .array(z.enum(["Sedentary", "Light", "Medium", "Heavy", "Very Heavy"]))
+        .describe("Strength levels mentioned in the answer"),
+    })
+    .describe("Vocational entities mentioned in the answer"),
+  followUps: z
+    .array(z.string())
+    .max(3)
+    .describe("Up to three natural follow-up questions the user might ask next"),
+  confidence: z
+    .enum(["high", "medium", "low"])
+    .describe(
+      "high when the knowledge fully supports the answer, medium when partly, low when it does not cover the question"
+    ),
+});
+
+export type StructuredAnswer = z.infer<typeof structuredAnswerSchema>;
+
+/**
+ * Put DOT codes in canonical form, dropping ones that are not valid codes
+ */
+export function normalizeStructuredAnswer(answer: StructuredAnswer): StructuredAnswer {
+  const dotCodes = answer.entities.dotCodes.flatMap((entity) => {
+    const code = normalizeDotCode(entity.code);
+    return code ? [{ ...entity, code }] : [];
+  });
+
+  return {
+    ...answer,
+    entities: {
+      ...answer.entities,
+      dotCodes,
+      svp: Array.from(new Set(answer.entities.svp)),
+      strength: Array.from(new Set(answer.entities.strength)),
+    },
+  };
+}
@@ -0,0 +1,134 @@
+import { jsonSchema, tool } from "ai";
+import { Document } from "@langchain/core/documents";
+import { queryVectorStore, RetrievalOptions } from "../kb/vectorstore";
+import {
+  describeDotCode,
+  getSVPLevel,
+  lookupDefinition,
+  SVP_LEVELS,
+  svpForTrainingMonths,
+} from "../kb/dol";
+import { analyzeTransferableSkills } from "../kb/transferable";
+import { transferableSkillsRequestSchema } from "./schemas";
+
+// Tools the chat model can call while answering
+
+// Upper bound on model steps (tool calls + final answer) per question
+export const MAX_TOOL_STEPS = 4;
+
+// Passages returned by the KB search tools
+const SEARCH_RESULTS = 5;
+const DEFINITION_PASSAGES = 2;
+
+// Passage shape returned to the model
+function toPassage(doc: Document) {
+  return {
+    fileName: doc.metadata.fileName ?? doc.metadata.source,
+    pageNumber: doc.metadata.pageNumber ?? doc.metadata.loc?.pageNumber,
+    content: doc.pageContent,
+  };
+}
+
+const transferableSkills = tool({
+  description:
+    "Run a transferable skills analysis: given past relevant work (DOT codes), the residual functional capacity (RFC) and optionally age and education, list occupations at the same or lower SVP sharing work fields or MPSMS with the past work, with the matching criteria for each.",
+  // Invalid input comes back to the model as a tool error, with the fields
+  inputSchema: transferableSkillsRequestSchema,
+  execute: async (input) => analyzeTransferableSkills(input),
+});
+
+const svpConverter = tool({
+  description:
+    "Convert between SVP levels (1-9), training time and skill level (unskilled, semi-skilled, skilled). Give either an SVP level or a training time in months; without either, returns the whole SVP table.",
+  inputSchema: jsonSchema<{ svp?: number; trainingMonths?: number }>({
+    type: "object",
+    properties: {
+      svp: { type: "number", description: "SVP level, 1-9" },
+      trainingMonths: { type: "number", description: "Training time in months (0 = short demonstration)" },
+    },
+  }),
+  execute: async ({ svp, trainingMonths }) => {
+    if (svp !== undefined) {
+      return getSVPLevel(svp) ?? { error: `SVP must be a whole number from 1 to 9, got ${svp}` };
+    }
+    if (trainingMonths !== undefined) {
+      return trainingMonths >= 0
+        ? svpForTrainingMonths(trainingMonths)
+        : { error: "trainingMonths cannot be negative" };
+    }
+    return { levels: SVP_LEVELS };
+  },
+});
+
+const dotCode = tool({
+  description:
+    "Validate and format a DOT code (e.g. 166267046 -> 166.267-046) and explain its parts: occupational category and group, worker function levels for data, people and things, and the title when known.",
+  inputSchema: jsonSchema<{ code: string }>({
+    type: "object",
+    properties: {
+      code: { type: "string", description: "DOT code in any punctuation" },
+    },
+    required: ["code"],
+  }),
+  execute: async ({ code }) =>
+    describeDotCode(code) ?? {
+      valid: false,
+      error: `"${code}" is not a valid DOT code; expected 9 digits as ###.###-###`,
+    },
+});
+
+/**
+ * Tools for one request; searches use the request's retrieval settings
+ * (including its case workspace)
+ */
+export function createChatTools(retrieval: RetrievalOptions = {}) {
+  const dolDefinition = tool({
+    description:
+      "Look up the standard DOL definition of a term from the DOT / W&F2012 Standard DOL Definitions, e.g. a strength level (light work), a frequency (frequently), SVP or GED, a physical demand or an environmental condition.",
+    inputSchema: jsonSchema<{ term: string }>({
+      type: "object",
+      properties: {
+        term: { type: "string", description: "Term to define" },
+      },
+      required: ["term"],
+    }),
+    execute: async ({ term }) => {
+      const passages = await queryVectorStore(`${term} definition`, DEFINITION_PASSAGES, {
+        ...retrieval,
+        filter: { category: "dol-definitions" },
+      });
+      return {
+        definition: lookupDefinition(term),
+        passages: passages.map(toPassage),
+      };
+    },
+  });
+
+  const searchKnowledgeBase = tool({
+    description:
+      "Search the vocational knowledge base (and the selected case's documents) for passages about a topic. Optionally restrict to a category: job-analysis, instructions, dol-definitions, resources, curated-qa, or case-material for the selected case's documents.",
+    inputSchema: jsonSchema<{ query: string; category?: string }>({
+      type: "object",
+      properties: {
+        query: { type: "string" },
+        category: { type: "string" },
+      },
+      required: ["query"],
+    }),
+    execute: async ({ query, category }) => {
+      const docs = await queryVectorStore(query, SEARCH_RESULTS, {
+        ...retrieval,
+        filter: category ? { ...retrieval.filter, category } : retrieval.filter,
+      });
+      return { passages: docs.map(toPassage) };
+    },
+  });
+
+  return {
+    transferableSkills,
+    svpConverter,
+    dotCode,
+    dolDefinition,
+    searchKnowledgeBase,
+  };
+}
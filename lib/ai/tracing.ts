@@ -0,0 +1,299 @@
+import { randomUUID } from "crypto";
+import fs from "fs";
+import path from "path";
+import type { ChatMessage } from "./history";
+
+// Per-request traces: what was retrieved (with scores), the prompt sent,
+// each model call with its token usage, and how long every step took.
+// Written as one JSON line per request to a file per UTC day.
+
+const TRACES_DIR = process.env.TRACES_DIR || path.join(process.cwd(), ".traces");
+
+const DEFAULT_RETENTION_DAYS = 14;
+
+// Request header naming the trace a replayed request reproduces
+export const REPLAY_HEADER = "X-Replay-Of";
+
+export const TRACE_STATUSES = ["ok", "error", "cancelled"] as const;
+export type TraceStatus = (typeof TRACE_STATUSES)[number];
+
+export interface TokenUsage {
+  inputTokens?: number;
+  outputTokens?: number;
+  totalTokens?: number;
+}
+
+// One timed step of a request
+export interface TraceSpan {
+  // "condense", "retrieval", "rerank", "prompt", "generation", ...
+  name: string;
+  // Milliseconds since the trace started
+  startMs: number;
+  durationMs: number;
+  attributes: Record<string, unknown>;
+  error?: string;
+}
+
+export interface TraceRecord {
+  id: string;
+  route: string;
+  startedAt: string;
+  durationMs: number;
+  status: TraceStatus;
+  // The validated request body
+  request: unknown;
+  // The question and the conversation before it (from the session, if any),
+  // which is what a replay sends
+  question?: string;
+  history?: ChatMessage[];
+  model?: string;
+  answer?: string;
+  // Summed over every model call
+  usage?: TokenUsage;
+  cached?: "exact" | "semantic";
+  error?: string;
+  // Trace of the request this one replayed
+  replayOf?: string;
+  spans: TraceSpan[];
+}
+
+// A trace as listed: everything but the spans
+export type TraceSummary = Omit<TraceRecord, "spans" | "request" | "history">;
+
+/**
+ * Whether requests are traced: on unless TRACING is "off"
+ */
+export function isTracingEnabled(): boolean {
+  return process.env.TRACING?.toLowerCase() !== "off";
+}
+
+function getRetentionDays(): number {
+  const value = Number(process.env.TRACE_RETENTION_DAYS);
+  return value > 0 ? value : DEFAULT_RETENTION_DAYS;
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+// A span that has started; end() records it
+export interface OpenSpan {
+  attributes: Record<string, unknown>;
+  end(attributes?: Record<string, unknown>): void;
+  fail(error: unknown): void;
+}
+
+/**
+ * The trace of one request, collected in memory and written on end()
+ */
+export class Trace {
+  readonly id = randomUUID();
+  private readonly started = Date.now();
+  private readonly startedAt = new Date().toISOString();
+  private readonly spans: TraceSpan[] = [];
+  private fields: Partial<TraceRecord> = {};
+  private ended = false;
+
+  constructor(
+    private readonly route: string,
+    private readonly request: unknown
+  ) {}
+
+  startSpan(name: string, attributes: Record<string, unknown> = {}): OpenSpan {
+    const startMs = Date.now() - this.started;
+    let open = true;
+    const record = (error?: unknown) => {
+      if (!open) return;
+      open = false;
+      this.spans.push({
+        name,
+        startMs,
+        durationMs: Date.now() - this.started - startMs,
+        attributes: span.attributes,
+        ...(error !== undefined && { error: errorMessage(error) }),
+      });
+    };
+
+    const span: OpenSpan = {
+      attributes,
+      end: (more) => {
+        if (open) Object.assign(span.attributes, more);
+        record();
+      },
+      fail: (error) => record(error),
+    };
+    return span;
+  }
+
+  /**
+   * Time `run` as a span; it can add attributes as it goes
+   */
+  async span<T>(
+    name: string,
+    attributes: Record<string, unknown>,
+    run: (attributes: Record<string, unknown>) => Promise<T>
+  ): Promise<T> {
+    const span = this.startSpan(name, attributes);
+    try {
+      const result = await run(span.attributes);
+      span.end();
+      return result;
+    } catch (error) {
+      span.fail(error);
+      throw error;
+    }
+  }
+
+  // A point in time rather than a step, e.g. the prompt as sent
+  event(name: string, attributes: Record<string, unknown>): void {
+    this.startSpan(name, attributes).end();
+  }
+
+  set(fields: Partial<Pick<TraceRecord, "question" | "history" | "model" | "answer" | "cached" | "replayOf">>): void {
+    Object.assign(this.fields, fields);
+  }
+
+  /**
+   * Finish the trace and write it; later calls are ignored
+   */
+  end(status: TraceStatus, error?: unknown): void {
+    if (this.ended) return;
+    this.ended = true;
+
+    const usage = sumUsage(this.spans.map((span) => span.attributes.usage as TokenUsage | undefined));
+    appendTrace({
+      id: this.id,
+      route: this.route,
+      startedAt: this.startedAt,
+      durationMs: Date.now() - this.started,
+      status,
+      request: this.request,
+      ...this.fields,
+      ...(usage && { usage }),
+      ...(error !== undefined && { error: errorMessage(error) }),
+      spans: this.spans.sort((a, b) => a.startMs - b.startMs),
+    });
+  }
+}
+
+/**
+ * A trace for a request, or undefined when tracing is off
+ */
+export function startTrace(route: string, request: unknown): Trace | undefined {
+  return isTracingEnabled() ? new Trace(route, request) : undefined;
+}
+
+/**
+ * Run `run` as a span of `trace`, or just run it without one
+ */
+export function traced<T>(
+  trace: Trace | undefined,
+  name: string,
+  attributes: Record<string, unknown>,
+  run: (attributes: Record<string, unknown>) => Promise<T>
+): Promise<T> {
+  return trace ? trace.span(name, attributes, run) : run(attributes);
+}
+
+// Token counts of a model call, without the provider-specific details
+export function toTokenUsage(usage: TokenUsage | undefined): TokenUsage | undefined {
+  if (!usage) return undefined;
+  const { inputTokens, outputTokens, totalTokens } = usage;
+  return { inputTokens, outputTokens, totalTokens };
+}
+
+function sumUsage(usages: (TokenUsage | undefined)[]): TokenUsage | undefined {
+  const counted = usages.filter((usage): usage is TokenUsage => usage !== undefined);
+  if (counted.length === 0) return undefined;
+
+  const sum = (key: keyof TokenUsage) => counted.reduce((total, usage) => total + (usage[key] ?? 0), 0);
+  return { inputTokens: sum("inputTokens"), outputTokens: sum("outputTokens"), totalTokens: sum("totalTokens") };
+}
+
+// One file per UTC day, e.g. .traces/2025-01-31.jsonl
+function traceFiles(): string[] {
+  if (!fs.existsSync(TRACES_DIR)) return [];
+  return fs
+    .readdirSync(TRACES_DIR)
+    .filter((name) => /^\d{4}-\d{2}-\d{2}\.jsonl$/.test(name))
+    .sort()
+    .reverse()
+    .map((name) => path.join(TRACES_DIR, name));
+}
+
+// Tracing must never fail a request, so write errors are only logged
+function appendTrace(trace: TraceRecord): void {
+  try {
+    fs.mkdirSync(TRACES_DIR, { recursive: true });
+    const day = trace.startedAt.slice(0, 10);
+    fs.appendFileSync(path.join(TRACES_DIR, `${day}.jsonl`), `${JSON.stringify(trace)}\n`);
+
+    // Drop the days beyond the retention period
+    const cutoff = new Date(Date.now() - getRetentionDays() * 86400000).toISOString().slice(0, 10);
+    for (const filePath of traceFiles()) {
+      if (path.basename(filePath, ".jsonl") < cutoff) fs.rmSync(filePath, { force: true });
+    }
+  } catch (error) {
+    console.warn("Could not write trace:", error);
+  }
+}
+
+// Traces in a day file, newest first
+function readTraceFile(filePath: string): TraceRecord[] {
+  return fs
+    .readFileSync(filePath, "utf-8")
+    .split("\n")
+    .filter((line) => line.trim())
+    .flatMap((line) => {
+      try {
+        return [JSON.parse(line) as TraceRecord];
+      } catch {
+        // A line cut short by a crash
+        return [];
+      }
+    })
+    .reverse();
+}
+
+function toSummary(trace: TraceRecord): TraceSummary {
+  const summary: Partial<TraceRecord> = { ...trace };
+  delete summary.spans;
+  delete summary.request;
+  delete summary.history;
+  return summary as TraceSummary;
+}
+
+export interface TraceQuery {
+  limit?: number;
+  status?: TraceStatus;
+  // Matched against the question and the answer, case-insensitively
+  text?: string;
+}
+
+/**
+ * Most recent traces first
+ */
+export function listTraces(query: TraceQuery = {}): TraceSummary[] {
+  const limit = query.limit ?? 50;
+  const text = query.text?.toLowerCase();
+  const traces: TraceSummary[] = [];
+
+  for (const filePath of traceFiles()) {
+    for (const trace of readTraceFile(filePath)) {
+      if (query.status && trace.status !== query.status) continue;
+      if (text && !`${trace.question ?? ""}\n${trace.answer ?? ""}`.toLowerCase().includes(text)) continue;
+
+      traces.push(toSummary(trace));
+      if (traces.length >= limit) return traces;
+    }
+  }
+  return traces;
+}
+
+export function getTrace(id: string): TraceRecord | null {
+  for (const filePath of traceFiles()) {
+    const trace = readTraceFile(filePath).find((t) => t.id === id);
+    if (trace) return trace;
+  }
+  return null;
+}
@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+import { BM25Index, tokenize } from "./bm25";
+
+describe("tokenize", () => {
+  it("lowercases and drops stopwords", () => {
+    expect(tokenize("What is the Strength of a Nurse?")).toEqual(["strength", "nurse"]);
+  });
+
+  it("keeps DOT codes whole, with their prefixes and parts", () => {
+    expect(tokenize("DOT 166.267-018")).toEqual(["dot", "166.267-018", "166.267", "166", "267", "018"]);
+  });
+});
+
+describe("BM25Index", () => {
+  const docs = [
+    "Human resource advisor, DOT 166.267-046, sedentary work",
+    "Forklift operator lifts heavy loads in a warehouse",
+    "Warehouse worker: medium work, loading and unloading trucks",
+  ];
+
+  function buildIndex() {
+    const index = new BM25Index();
+    index.addDocuments(docs);
+    return index;
+  }
+
+  it("ranks documents containing the query terms", () => {
+    const results = buildIndex().search("forklift warehouse");
+    expect(results.map((r) => r.index)).toEqual([1, 2]);
+    expect(results[0].score).toBeGreaterThan(results[1].score);
+  });
+
+  it("matches a partial DOT code", () => {
+    expect(buildIndex().search("166.267").map((r) => r.index)).toEqual([0]);
+  });
+
+  it("honours k and the filter", () => {
+    const index = buildIndex();
+    expect(index.search("warehouse", 1)).toHaveLength(1);
+    expect(index.search("warehouse", 5, (i) => i !== 1).map((r) => r.index)).toEqual([2]);
+  });
+
+  it("survives a round trip through JSON", () => {
+    const index = buildIndex();
+    const restored = BM25Index.fromJSON(JSON.parse(JSON.stringify(index.toJSON())));
+    expect(restored.size()).toBe(docs.length);
+    expect(restored.search("trucks")).toEqual(index.search("trucks"));
+  });
+
+  it("returns nothing when empty", () => {
+    expect(new BM25Index().search("anything")).toEqual([]);
+  });
+});
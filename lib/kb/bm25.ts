@@ -0,0 +1,145 @@
+// Okapi BM25 keyword index, stored alongside the embeddings in the cache
+
+// BM25 tuning parameters
+const DEFAULT_K1 = 1.2;
+const DEFAULT_B = 0.75;
+
+const STOPWORDS = new Set([
+  "a", "an", "and", "are", "as", "at", "be", "by", "does", "for", "from",
+  "how", "in", "is", "it", "its", "of", "on", "or", "that", "the", "this",
+  "to", "was", "what", "when", "where", "which", "who", "with",
+]);
+
+// Serialized form stored in .vectorstore-meta.json
+export interface BM25IndexData {
+  k1: number;
+  b: number;
+  docLengths: number[];
+  // term -> list of [docIndex, termFrequency]
+  postings: Record<string, Array<[number, number]>>;
+}
+
+export interface BM25Result {
+  index: number;
+  score: number;
+}
+
+/**
+ * Tokenize text for BM25.
+ * Identifiers such as DOT codes ("166.267-018") are kept whole and also
+ * split into their parts so partial codes ("166.267") still match.
+ */
+export function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+  const matches = text.toLowerCase().match(/[a-z0-9]+(?:[.\-/][a-z0-9]+)*/g) || [];
+
+  for (const match of matches) {
+    const parts = match.split(/[.\-/]/);
+
+    if (parts.length > 1) {
+      tokens.push(match);
+      // Prefixes like "166.267" for "166.267-018"
+      let end = parts[0].length;
+      for (let i = 1; i < parts.length - 1; i++) {
+        end += 1 + parts[i].length;
+        tokens.push(match.slice(0, end));
+      }
+    }
+
+    for (const part of parts) {
+      if (part && !STOPWORDS.has(part)) {
+        tokens.push(part);
+      }
+    }
+  }
+
+  return tokens;
+}
+
+export class BM25Index {
+  private k1: number;
+  private b: number;
+  private docLengths: number[] = [];
+  private postings = new Map<string, Array<[number, number]>>();
+  private totalLength = 0;
+
+  constructor(k1: number = DEFAULT_K1, b: number = DEFAULT_B) {
+    this.k1 = k1;
+    this.b = b;
+  }
+
+  addDocuments(texts: string[]): void {
+    for (const text of texts) {
+      const docIndex = this.docLengths.length;
+      const tokens = tokenize(text);
+      const counts = new Map<string, number>();
+
+      for (const token of tokens) {
+        counts.set(token, (counts.get(token) || 0) + 1);
+      }
+
+      for (const [term, tf] of counts) {
+        let list = this.postings.get(term);
+        if (!list) {
+          list = [];
+          this.postings.set(term, list);
+        }
+        list.push([docIndex, tf]);
+      }
+
+      this.docLengths.push(tokens.length);
+      this.totalLength += tokens.length;
+    }
+  }
+
+  /**
+   * Return the top k document indices ranked by BM25 score,
+   * optionally restricted to documents accepted by filter
+   */
+  search(query: string, k: number = 5, filter?: (index: number) => boolean): BM25Result[] {
+    const docCount = this.docLengths.length;
+    if (docCount === 0) return [];
+
+    const avgLength = this.totalLength / docCount;
+    const scores = new Map<number, number>();
+
+    for (const term of new Set(tokenize(query))) {
+      const list = this.postings.get(term);
+      if (!list) continue;
+
+      const idf = Math.log(1 + (docCount - list.length + 0.5) / (list.length + 0.5));
+
+      for (const [docIndex, tf] of list) {
+        if (filter && !filter(docIndex)) continue;
+        const norm = 1 - this.b + this.b * (this.docLengths[docIndex] / avgLength);
+        const score = idf * ((tf * (this.k1 + 1)) / (tf + this.k1 * norm));
+        scores.set(docIndex, (scores.get(docIndex) || 0) + score);
+      }
+    }
+
+    return Array.from(scores, ([index, score]) => ({ index, score }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, k);
+  }
+
+  size(): number {
+    return this.docLengths.length;
+  }
+
+  toJSON(): BM25IndexData {
+    return {
+      k1: this.k1,
+      b: this.b,
+      docLengths: this.docLengths,
+      postings: Object.fromEntries(this.postings),
+    };
+  }
+
+  static fromJSON(data: BM25IndexData): BM25Index {
+    const index = new BM25Index(data.k1, data.b);
+    index.docLengths = data.docLengths;
+    index.postings = new Map(Object.entries(data.postings));
+    index.totalLength = data.docLengths.reduce((sum, len) => sum + len, 0);
+    return index;
+  }
+}
@@ -0,0 +1,203 @@
+import { Document } from "@langchain/core/documents";
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import { loadSourceFile } from "./loader";
+import { getLoader } from "./loaders";
+import { FileIndexDiff, indexDocuments, removeIndex } from "./vectorstore";
+
+// Per-claimant case workspaces. Each case keeps its uploaded documents and
+// its own vector index under .cases/<caseId>/, so a query only ever sees the
+// shared KB plus the one case it selects.
+
+const CASES_DIR = process.env.CASES_DIR || path.join(process.cwd(), ".cases");
+
+export const CASE_DOCUMENT_TYPES = ["medical", "work-history", "rfc", "other"] as const;
+export type CaseDocumentType = (typeof CASE_DOCUMENT_TYPES)[number];
+
+// Category given to every chunk from a case workspace
+export const CASE_CATEGORY = "case-material";
+
+export interface CaseFile {
+  fileName: string;
+  documentType: CaseDocumentType;
+  size: number;
+  uploadedAt: string;
+}
+
+export interface CaseWorkspace {
+  id: string;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+  files: CaseFile[];
+}
+
+// Case IDs are UUIDs; anything else never reaches the filesystem
+function isCaseId(id: string): boolean {
+  return /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/.test(id);
+}
+
+function caseDir(id: string): string {
+  return path.join(CASES_DIR, id);
+}
+
+function caseFilesDir(id: string): string {
+  return path.join(caseDir(id), "files");
+}
+
+/**
+ * Directory of a case's vector index, for RetrievalOptions.indexDirs
+ */
+export function caseIndexDir(id: string): string {
+  return path.join(caseDir(id), "index");
+}
+
+function writeCase(workspace: CaseWorkspace): void {
+  fs.mkdirSync(caseDir(workspace.id), { recursive: true });
+  fs.writeFileSync(path.join(caseDir(workspace.id), "case.json"), JSON.stringify(workspace, null, 2));
+}
+
+/**
+ * Reduce an uploaded file name to a safe base name, or null if nothing is left
+ */
+export function sanitizeFileName(fileName: string): string | null {
+  const base = path.basename(fileName.replace(/\\/g, "/")).replace(/[\x00-\x1f]/g, "").trim();
+  return base && base !== "." && base !== ".." ? base : null;
+}
+
+export function createCase(name: string): CaseWorkspace {
+  const now = new Date().toISOString();
+  const workspace: CaseWorkspace = {
+    id: crypto.randomUUID(),
+    name: name.trim(),
+    createdAt: now,
+    updatedAt: now,
+    files: [],
+  };
+  writeCase(workspace);
+  return workspace;
+}
+
+export function getCase(id: string): CaseWorkspace | null {
+  if (!isCaseId(id)) return null;
+
+  const filePath = path.join(caseDir(id), "case.json");
+  if (!fs.existsSync(filePath)) return null;
+
+  return JSON.parse(fs.readFileSync(filePath, "utf-8")) as CaseWorkspace;
+}
+
+export function listCases(): CaseWorkspace[] {
+  if (!fs.existsSync(CASES_DIR)) return [];
+
+  return fs
+    .readdirSync(CASES_DIR)
+    .map((id) => getCase(id))
+    .filter((workspace): workspace is CaseWorkspace => workspace !== null)
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * The case with this name, ignoring case; for scripts and the golden set,
+ * which refer to cases by name
+ */
+export function findCaseByName(name: string): CaseWorkspace | null {
+  const wanted = name.trim().toLowerCase();
+  return listCases().find((workspace) => workspace.name.toLowerCase() === wanted) ?? null;
+}
+
+export function deleteCase(id: string): boolean {
+  if (!getCase(id)) return false;
+
+  removeIndex(caseIndexDir(id));
+  fs.rmSync(caseDir(id), { recursive: true, force: true });
+  return true;
+}
+
+/**
+ * Load every document in the case and bring its index up to date
+ */
+async function indexCase(workspace: CaseWorkspace): Promise<FileIndexDiff[]> {
+  const docs: Document[] = [];
+
+  for (const file of workspace.files) {
+    const loaded = await loadSourceFile(path.join(caseFilesDir(workspace.id), file.fileName), file.fileName, {
+      title: file.fileName,
+      category: CASE_CATEGORY,
+      priority: 0,
+      tags: [file.documentType],
+    });
+
+    for (const doc of loaded ?? []) {
+      doc.metadata.caseId = workspace.id;
+      docs.push(doc);
+    }
+  }
+
+  if (docs.length === 0) {
+    removeIndex(caseIndexDir(workspace.id));
+    return [];
+  }
+
+  const { diff } = await indexDocuments(docs, { dir: caseIndexDir(workspace.id) });
+  return diff;
+}
+
+/**
+ * Add (or replace) documents in a case and re-index it. Unchanged files
+ * keep their embeddings.
+ */
+export async function addCaseFiles(
+  id: string,
+  uploads: Array<{ fileName: string; data: Buffer; documentType: CaseDocumentType }>
+): Promise<{ workspace: CaseWorkspace; diff: FileIndexDiff[] } | null> {
+  const workspace = getCase(id);
+  if (!workspace) return null;
+
+  for (const upload of uploads) {
+    const fileName = sanitizeFileName(upload.fileName);
+    if (!fileName || !getLoader(fileName)) {
+      throw new Error(`Unsupported file: ${upload.fileName}`);
+    }
+  }
+
+  fs.mkdirSync(caseFilesDir(id), { recursive: true });
+  const now = new Date().toISOString();
+
+  for (const upload of uploads) {
+    const fileName = sanitizeFileName(upload.fileName)!;
+    fs.writeFileSync(path.join(caseFilesDir(id), fileName), upload.data);
+
+    workspace.files = workspace.files.filter((file) => file.fileName !== fileName);
+    workspace.files.push({
+      fileName,
+      documentType: upload.documentType,
+      size: upload.data.length,
+      uploadedAt: now,
+    });
+  }
+
+  workspace.updatedAt = now;
+  writeCase(workspace);
+
+  return { workspace, diff: await indexCase(workspace) };
+}
+
+/**
+ * Remove a document from a case and re-index it
+ */
+export async function removeCaseFile(
+  id: string,
+  fileName: string
+): Promise<{ workspace: CaseWorkspace; diff: FileIndexDiff[] } | null> {
+  const workspace = getCase(id);
+  if (!workspace || !workspace.files.some((file) => file.fileName === fileName)) return null;
+
+  fs.rmSync(path.join(caseFilesDir(id), fileName), { force: true });
+  workspace.files = workspace.files.filter((file) => file.fileName !== fileName);
+  workspace.updatedAt = new Date().toISOString();
+  writeCase(workspace);
+
+  return { workspace, diff: await indexCase(workspace) };
+}
@@ -0,0 +1,56 @@
+import fs from "fs";
+import path from "path";
+import { loadManifest } from "./manifest";
+
+// Curated Q&A: reviewed corrections to chatbot answers, written as a
+// Markdown document in the KB directory. kb.manifest.json lists it like any
+// other source, so `pnpm seed-kb` indexes it.
+
+export const CURATED_QA_FILE_NAME = "Curated Q&A.md";
+
+export interface CuratedQA {
+  question: string;
+  answer: string;
+}
+
+const HEADER = `# Curated Q&A
+
+Reviewed answers to questions the chatbot answered poorly. This file is
+written from the feedback review page (/admin/feedback); edit the entries
+there, since changes made here are overwritten.
+`;
+
+export function curatedQAPath(): string {
+  return path.join(loadManifest().kbDir, CURATED_QA_FILE_NAME);
+}
+
+// One paragraph per entry, so the splitter keeps a question with its answer
+// unless the answer alone outgrows a chunk. Citation markers point at the
+// original answer's sources, which the curated answer no longer carries.
+function formatEntry({ question, answer }: CuratedQA): string {
+  const oneParagraph = (text: string) =>
+    text
+      .replace(/\s*\[\d+\]/g, "")
+      .split("\n")
+      .map((line) => line.trim())
+      .filter(Boolean)
+      .join("\n");
+  return `Q: ${oneParagraph(question)}\nA: ${oneParagraph(answer)}`;
+}
+
+/**
+ * Rewrite the curated Q&A document with the given entries; with none, the
+ * document is removed so the next seed drops it from the index
+ */
+export function writeCuratedQA(entries: CuratedQA[]): void {
+  const filePath = curatedQAPath();
+  if (entries.length === 0) {
+    fs.rmSync(filePath, { force: true });
+    return;
+  }
+
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  const tmpPath = `${filePath}.tmp`;
+  fs.writeFileSync(tmpPath, `${HEADER}\n${entries.map(formatEntry).join("\n\n")}\n`);
+  fs.renameSync(tmpPath, filePath);
+}
@@ -0,0 +1,199 @@
+import { getOccupation } from "./occupations";
+import { normalizeDotCode } from "./skilltran";
+
+// Standard DOL reference data (Dictionary of Occupational Titles, 4th ed.
+// rev. 1991, Appendix C, and the DOT code structure from its introduction)
+// used for deterministic lookups
+
+export interface DOLDefinition {
+  term: string;
+  definition: string;
+}
+
+const DEFINITIONS: DOLDefinition[] = [
+  {
+    term: "Sedentary Work",
+    definition:
+      "Exerting up to 10 pounds of force occasionally and/or a negligible amount of force frequently to lift, carry, push, pull, or otherwise move objects, including the human body. Sedentary work involves sitting most of the time, but may involve walking or standing for brief periods of time. Jobs are sedentary if walking and standing are required only occasionally and all other sedentary criteria are met.",
+  },
+  {
+    term: "Light Work",
+    definition:
+      "Exerting up to 20 pounds of force occasionally, and/or up to 10 pounds of force frequently, and/or a negligible amount of force constantly to move objects. Physical demand requirements are in excess of those for Sedentary Work. Even though the weight lifted may be only a negligible amount, a job should be rated Light Work: (1) when it requires walking or standing to a significant degree; or (2) when it requires sitting most of the time but entails pushing and/or pulling of arm or leg controls; and/or (3) when the job requires working at a production rate pace entailing the constant pushing and/or pulling of materials even though the weight of those materials is negligible.",
+  },
+  {
+    term: "Medium Work",
+    definition:
+      "Exerting 20 to 50 pounds of force occasionally, and/or 10 to 25 pounds of force frequently, and/or greater than negligible up to 10 pounds of force constantly to move objects. Physical demand requirements are in excess of those for Light Work.",
+  },
+  {
+    term: "Heavy Work",
+    definition:
+      "Exerting 50 to 100 pounds of force occasionally, and/or 25 to 50 pounds of force frequently, and/or 10 to 20 pounds of force constantly to move objects. Physical demand requirements are in excess of those for Medium Work.",
+  },
+  {
+    term: "Very Heavy Work",
+    definition:
+      "Exerting in excess of 100 pounds of force occasionally, and/or in excess of 50 pounds of force frequently, and/or in excess of 20 pounds of force constantly to move objects. Physical demand requirements are in excess of those for Heavy Work.",
+  },
+  {
+    term: "Not Present",
+    definition: "Activity or condition does not exist.",
+  },
+  {
+    term: "Occasionally",
+    definition: "Activity or condition exists up to 1/3 of the time.",
+  },
+  {
+    term: "Frequently",
+    definition: "Activity or condition exists from 1/3 to 2/3 of the time.",
+  },
+  {
+    term: "Constantly",
+    definition: "Activity or condition exists 2/3 or more of the time.",
+  },
+  {
+    term: "Specific Vocational Preparation (SVP)",
+    definition:
+      "The amount of lapsed time required by a typical worker to learn the techniques, acquire the information, and develop the facility needed for average performance in a specific job-worker situation. Training may be acquired in a school, work, military, institutional, or vocational environment; it does not include the orientation time required of a fully qualified worker to become accustomed to the special conditions of any new job.",
+  },
+  {
+    term: "General Educational Development (GED)",
+    definition:
+      "Those aspects of education (formal and informal) which are required of the worker for satisfactory job performance. It is education of a general nature which does not have a recognized, fairly specific occupational objective. GED is rated on three scales: Reasoning Development, Mathematical Development and Language Development, each from level 1 to 6.",
+  },
+];
+
+// Alternative names for the terms above
+const ALIASES: Record<string, string> = {
+  s: "Sedentary Work",
+  sedentary: "Sedentary Work",
+  l: "Light Work",
+  light: "Light Work",
+  m: "Medium Work",
+  medium: "Medium Work",
+  h: "Heavy Work",
+  heavy: "Heavy Work",
+  v: "Very Heavy Work",
+  "very heavy": "Very Heavy Work",
+  never: "Not Present",
+  occasional: "Occasionally",
+  frequent: "Frequently",
+  constant: "Constantly",
+  svp: "Specific Vocational Preparation (SVP)",
+  "specific vocational preparation": "Specific Vocational Preparation (SVP)",
+  ged: "General Educational Development (GED)",
+  "general educational development": "General Educational Development (GED)",
+};
+
+function normalizeTerm(term: string): string {
+  return term.toLowerCase().replace(/[^a-z0-9 ]/g, " ").replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Standard DOL definition for a term, e.g. "light work", "frequently", "SVP"
+ */
+export function lookupDefinition(term: string): DOLDefinition | null {
+  const key = normalizeTerm(term);
+  const canonical = ALIASES[key] ?? ALIASES[key.replace(/ work$/, "")];
+
+  return (
+    DEFINITIONS.find((d) => d.term === canonical) ??
+    DEFINITIONS.find((d) => normalizeTerm(d.term) === key) ??
+    null
+  );
+}
+
+export interface SVPLevel {
+  svp: number;
+  training: string;
+  // Upper bound of the training time in months (none for SVP 9)
+  maxMonths?: number;
+  skillLevel: "unskilled" | "semi-skilled" | "skilled";
+}
+
+export const SVP_LEVELS: SVPLevel[] = [
+  { svp: 1, training: "Short demonstration only", maxMonths: 0, skillLevel: "unskilled" },
+  { svp: 2, training: "Anything beyond short demonstration up to and including 1 month", maxMonths: 1, skillLevel: "unskilled" },
+  { svp: 3, training: "Over 1 month up to and including 3 months", maxMonths: 3, skillLevel: "semi-skilled" },
+  { svp: 4, training: "Over 3 months up to and including 6 months", maxMonths: 6, skillLevel: "semi-skilled" },
+  { svp: 5, training: "Over 6 months up to and including 1 year", maxMonths: 12, skillLevel: "skilled" },
+  { svp: 6, training: "Over 1 year up to and including 2 years", maxMonths: 24, skillLevel: "skilled" },
+  { svp: 7, training: "Over 2 years up to and including 4 years", maxMonths: 48, skillLevel: "skilled" },
+  { svp: 8, training: "Over 4 years up to and including 10 years", maxMonths: 120, skillLevel: "skilled" },
+  { svp: 9, training: "Over 10 years", skillLevel: "skilled" },
+];
+
+export function getSVPLevel(svp: number): SVPLevel | null {
+  return SVP_LEVELS.find((level) => level.svp === svp) ?? null;
+}
+
+/**
+ * SVP level for a training time in months (0 = short demonstration)
+ */
+export function svpForTrainingMonths(months: number): SVPLevel {
+  return SVP_LEVELS.find((level) => level.maxMonths === undefined || months <= level.maxMonths)!;
+}
+
+const OCCUPATIONAL_CATEGORIES: Record<string, string> = {
+  "0": "Professional, technical, and managerial occupations",
+  "1": "Professional, technical, and managerial occupations",
+  "2": "Clerical and sales occupations",
+  "3": "Service occupations",
+  "4": "Agricultural, fishery, forestry, and related occupations",
+  "5": "Processing occupations",
+  "6": "Machine trades occupations",
+  "7": "Benchwork occupations",
+  "8": "Structural work occupations",
+  "9": "Miscellaneous occupations",
+};
+
+// Worker function scales; lower numbers are more complex functions
+const DATA_FUNCTIONS = ["Synthesizing", "Coordinating", "Analyzing", "Compiling", "Computing", "Copying", "Comparing", "No significant relationship", "No significant relationship", "No significant relationship"];
+const PEOPLE_FUNCTIONS = ["Mentoring", "Negotiating", "Instructing", "Supervising", "Diverting", "Persuading", "Speaking-Signaling", "Serving", "Taking Instructions-Helping", "No significant relationship"];
+const THINGS_FUNCTIONS = ["Setting Up", "Precision Working", "Operating-Controlling", "Driving-Operating", "Manipulating", "Tending", "Feeding-Offbearing", "Handling", "No significant relationship", "No significant relationship"];
+
+export interface DotCodeInfo {
+  dotCode: string;
+  occupationalCategory: string;
+  occupationalGroup: string;
+  workerFunctions: {
+    data: string;
+    people: string;
+    things: string;
+  };
+  suffix: string;
+  // Title from the extracted occupation records, when known
+  title?: string;
+}
+
+/**
+ * Validate and format a DOT code and explain its parts
+ */
+export function describeDotCode(code: string): DotCodeInfo | null {
+  const dotCode = normalizeDotCode(code);
+  if (!dotCode) return null;
+
+  const digits = dotCode.replace(/\D/g, "");
+  const [data, people, things] = digits.slice(3, 6).split("").map(Number);
+
+  let title: string | undefined;
+  try {
+    title = getOccupation(dotCode)?.title;
+  } catch {
+    // Occupation records not extracted yet
+  }
+
+  return {
+    dotCode,
+    occupationalCategory: `${digits[0]} - ${OCCUPATIONAL_CATEGORIES[digits[0]]}`,
+    occupationalGroup: digits.slice(0, 3),
+    workerFunctions: {
+      data: `${data} - ${DATA_FUNCTIONS[data]}`,
+      people: `${people} - ${PEOPLE_FUNCTIONS[people]}`,
+      things: `${things} - ${THINGS_FUNCTIONS[things]}`,
+    },
+    suffix: digits.slice(6),
+    title,
+  };
+}
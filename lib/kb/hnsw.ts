@@ -0,0 +1,271 @@
+// Hierarchical Navigable Small World graph for approximate nearest-neighbour
+// search (Malkov & Yashunin, 2016). Similarity is "higher is better".
+
+export interface HNSWParams {
+  // Max neighbours per node on upper layers (layer 0 allows 2 * M)
+  M: number;
+  // Candidate list size while building; higher = better graph, slower build
+  efConstruction: number;
+}
+
+export const DEFAULT_HNSW_PARAMS: HNSWParams = {
+  M: 16,
+  efConstruction: 200,
+};
+
+// Default candidate list size at query time; higher = better recall, slower
+export const DEFAULT_EF_SEARCH = 64;
+
+// Serialized form persisted with the vector index
+export interface HNSWIndexData {
+  params: HNSWParams;
+  entryPoint: number;
+  maxLevel: number;
+  levels: number[];
+  // neighbours[node][layer] = adjacent node ids
+  neighbours: number[][][];
+  seed: number;
+}
+
+export interface ScoredNode {
+  index: number;
+  score: number;
+}
+
+type Similarity = (a: ArrayLike<number>, b: ArrayLike<number>) => number;
+
+// Binary heap ordered by a comparator (top = first in order)
+class Heap<T> {
+  private items: T[] = [];
+
+  constructor(private before: (a: T, b: T) => boolean) {}
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  peek(): T | undefined {
+    return this.items[0];
+  }
+
+  push(item: T): void {
+    const items = this.items;
+    items.push(item);
+    let i = items.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (!this.before(items[i], items[parent])) break;
+      [items[i], items[parent]] = [items[parent], items[i]];
+      i = parent;
+    }
+  }
+
+  pop(): T | undefined {
+    const items = this.items;
+    const top = items[0];
+    const last = items.pop();
+    if (items.length > 0 && last !== undefined) {
+      items[0] = last;
+      let i = 0;
+      for (;;) {
+        const left = 2 * i + 1;
+        const right = left + 1;
+        let best = i;
+        if (left < items.length && this.before(items[left], items[best])) best = left;
+        if (right < items.length && this.before(items[right], items[best])) best = right;
+        if (best === i) break;
+        [items[i], items[best]] = [items[best], items[i]];
+        i = best;
+      }
+    }
+    return top;
+  }
+
+  toArray(): T[] {
+    return this.items.slice();
+  }
+}
+
+// Small seeded PRNG so rebuilding the same data gives the same graph
+function mulberry32(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export class HNSWIndex {
+  private params: HNSWParams;
+  private levels: number[] = [];
+  private neighbours: number[][][] = [];
+  private entryPoint = -1;
+  private maxLevel = -1;
+  private seed: number;
+  private random: () => number;
+
+  constructor(
+    private getVector: (index: number) => ArrayLike<number>,
+    private similarity: Similarity,
+    params: Partial<HNSWParams> = {},
+    seed: number = 42
+  ) {
+    this.params = {
+      M: params.M ?? DEFAULT_HNSW_PARAMS.M,
+      efConstruction: params.efConstruction ?? DEFAULT_HNSW_PARAMS.efConstruction,
+    };
+    this.seed = seed;
+    this.random = mulberry32(seed);
+  }
+
+  size(): number {
+    return this.levels.length;
+  }
+
+  private randomLevel(): number {
+    const mL = 1 / Math.log(this.params.M);
+    return Math.floor(-Math.log(1 - this.random()) * mL);
+  }
+
+  /**
+   * Best-first search of one layer, returning up to ef nodes (best first)
+   */
+  private searchLayer(
+    query: ArrayLike<number>,
+    entryPoints: ScoredNode[],
+    ef: number,
+    layer: number
+  ): ScoredNode[] {
+    const visited = new Set<number>(entryPoints.map((e) => e.index));
+    // Max-heap of candidates to expand, min-heap of current results
+    const candidates = new Heap<ScoredNode>((a, b) => a.score > b.score);
+    const results = new Heap<ScoredNode>((a, b) => a.score < b.score);
+
+    for (const entry of entryPoints) {
+      candidates.push(entry);
+      results.push(entry);
+    }
+
+    while (candidates.size > 0) {
+      const current = candidates.pop()!;
+      const worst = results.peek()!;
+      if (current.score < worst.score && results.size >= ef) break;
+
+      for (const neighbour of this.neighbours[current.index][layer] ?? []) {
+        if (visited.has(neighbour)) continue;
+        visited.add(neighbour);
+
+        const score = this.similarity(query, this.getVector(neighbour));
+        if (results.size < ef || score > results.peek()!.score) {
+          candidates.push({ index: neighbour, score });
+          results.push({ index: neighbour, score });
+          if (results.size > ef) results.pop();
+        }
+      }
+    }
+
+    return results.toArray().sort((a, b) => b.score - a.score);
+  }
+
+  // Keep a node's neighbour list within the layer's limit
+  private prune(node: number, layer: number): void {
+    const limit = layer === 0 ? this.params.M * 2 : this.params.M;
+    const list = this.neighbours[node][layer];
+    if (list.length <= limit) return;
+
+    const vector = this.getVector(node);
+    this.neighbours[node][layer] = list
+      .map((index) => ({ index, score: this.similarity(vector, this.getVector(index)) }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit)
+      .map((n) => n.index);
+  }
+
+  /**
+   * Insert node `index` (its vector must be available via getVector)
+   */
+  add(index: number): void {
+    const level = this.randomLevel();
+    const vector = this.getVector(index);
+
+    this.levels[index] = level;
+    this.neighbours[index] = Array.from({ length: level + 1 }, () => []);
+
+    if (this.entryPoint === -1) {
+      this.entryPoint = index;
+      this.maxLevel = level;
+      return;
+    }
+
+    let entry: ScoredNode[] = [
+      { index: this.entryPoint, score: this.similarity(vector, this.getVector(this.entryPoint)) },
+    ];
+
+    // Greedy descent through layers above the new node's level
+    for (let layer = this.maxLevel; layer > level; layer--) {
+      entry = this.searchLayer(vector, entry, 1, layer);
+    }
+
+    for (let layer = Math.min(level, this.maxLevel); layer >= 0; layer--) {
+      const found = this.searchLayer(vector, entry, this.params.efConstruction, layer);
+      const selected = found.slice(0, this.params.M);
+
+      this.neighbours[index][layer] = selected.map((n) => n.index);
+      for (const neighbour of selected) {
+        this.neighbours[neighbour.index][layer].push(index);
+        this.prune(neighbour.index, layer);
+      }
+
+      entry = found;
+    }
+
+    if (level > this.maxLevel) {
+      this.maxLevel = level;
+      this.entryPoint = index;
+    }
+  }
+
+  /**
+   * Approximate top-k search. `ef` (>= k) trades latency for recall.
+   */
+  search(query: ArrayLike<number>, k: number, ef: number = DEFAULT_EF_SEARCH): ScoredNode[] {
+    if (this.entryPoint === -1) return [];
+
+    let entry: ScoredNode[] = [
+      { index: this.entryPoint, score: this.similarity(query, this.getVector(this.entryPoint)) },
+    ];
+
+    for (let layer = this.maxLevel; layer > 0; layer--) {
+      entry = this.searchLayer(query, entry, 1, layer);
+    }
+
+    return this.searchLayer(query, entry, Math.max(ef, k), 0).slice(0, k);
+  }
+
+  toJSON(): HNSWIndexData {
+    return {
+      params: this.params,
+      entryPoint: this.entryPoint,
+      maxLevel: this.maxLevel,
+      levels: this.levels,
+      neighbours: this.neighbours,
+      seed: this.seed,
+    };
+  }
+
+  static fromJSON(
+    data: HNSWIndexData,
+    getVector: (index: number) => ArrayLike<number>,
+    similarity: Similarity
+  ): HNSWIndex {
+    const index = new HNSWIndex(getVector, similarity, data.params, data.seed);
+    index.entryPoint = data.entryPoint;
+    index.maxLevel = data.maxLevel;
+    index.levels = data.levels;
+    index.neighbours = data.neighbours;
+    return index;
+  }
+}
@@ -0,0 +1,117 @@
+import fs from "fs";
+
+// Binary vector block for the vector index.
+//
+// Layout (little-endian):
+//   0   8 bytes  magic "VEFCVEC\0"
+//   8   uint32   format version
+//   12  uint32   dimension
+//   16  uint32   vector count
+//   20  uint32   fingerprint byte length (n)
+//   24  n bytes  embedding model fingerprint (UTF-8), zero-padded to 4 bytes
+//   ... count * dimension float32 values, one vector after another
+
+export const INDEX_FORMAT_VERSION = 1;
+
+const MAGIC = "VEFCVEC\0";
+const FIXED_HEADER_BYTES = 24;
+
+export interface VectorFileHeader {
+  formatVersion: number;
+  dimension: number;
+  count: number;
+  fingerprint: string;
+}
+
+function align4(n: number): number {
+  return Math.ceil(n / 4) * 4;
+}
+
+/**
+ * Write vectors as one contiguous Float32 block behind a header
+ */
+export function writeVectorFile(
+  filePath: string,
+  header: Omit<VectorFileHeader, "formatVersion" | "count">,
+  vectors: ArrayLike<number>[]
+): void {
+  const fingerprint = Buffer.from(header.fingerprint, "utf-8");
+  const headerBytes = FIXED_HEADER_BYTES + align4(fingerprint.length);
+
+  const buffer = Buffer.alloc(headerBytes + vectors.length * header.dimension * 4);
+  buffer.write(MAGIC, 0, "latin1");
+  buffer.writeUInt32LE(INDEX_FORMAT_VERSION, 8);
+  buffer.writeUInt32LE(header.dimension, 12);
+  buffer.writeUInt32LE(vectors.length, 16);
+  buffer.writeUInt32LE(fingerprint.length, 20);
+  fingerprint.copy(buffer, FIXED_HEADER_BYTES);
+
+  vectors.forEach((vector, i) => {
+    if (vector.length !== header.dimension) {
+      throw new Error(`Vector ${i} has dimension ${vector.length}, expected ${header.dimension}`);
+    }
+    const offset = headerBytes + i * header.dimension * 4;
+    for (let j = 0; j < header.dimension; j++) {
+      buffer.writeFloatLE(vector[j], offset + j * 4);
+    }
+  });
+
+  fs.writeFileSync(filePath, buffer);
+}
+
+function parseHeader(buffer: Buffer, filePath: string): VectorFileHeader & { dataOffset: number } {
+  if (buffer.length < FIXED_HEADER_BYTES || buffer.toString("latin1", 0, 8) !== MAGIC) {
+    throw new Error(`Not a vector index file: ${filePath}`);
+  }
+
+  const fingerprintLength = buffer.readUInt32LE(20);
+
+  return {
+    formatVersion: buffer.readUInt32LE(8),
+    dimension: buffer.readUInt32LE(12),
+    count: buffer.readUInt32LE(16),
+    fingerprint: buffer.toString("utf-8", FIXED_HEADER_BYTES, FIXED_HEADER_BYTES + fingerprintLength),
+    dataOffset: FIXED_HEADER_BYTES + align4(fingerprintLength),
+  };
+}
+
+/**
+ * Read only the header, without touching the vector block
+ */
+export function readVectorFileHeader(filePath: string): VectorFileHeader {
+  const fd = fs.openSync(filePath, "r");
+  try {
+    const fixed = Buffer.alloc(FIXED_HEADER_BYTES);
+    fs.readSync(fd, fixed, 0, FIXED_HEADER_BYTES, 0);
+
+    // Check the magic before trusting the fingerprint length
+    parseHeader(fixed, filePath);
+    const fingerprintLength = fixed.readUInt32LE(20);
+    const full = Buffer.alloc(FIXED_HEADER_BYTES + fingerprintLength);
+    fs.readSync(fd, full, 0, full.length, 0);
+
+    return parseHeader(full, filePath);
+  } finally {
+    fs.closeSync(fd);
+  }
+}
+
+/**
+ * Read the whole vector block as a single Float32Array
+ */
+export function readVectorFile(filePath: string): { header: VectorFileHeader; vectors: Float32Array } {
+  const buffer = fs.readFileSync(filePath);
+  const { dataOffset, ...header } = parseHeader(buffer, filePath);
+
+  const length = header.count * header.dimension;
+  if (buffer.length < dataOffset + length * 4) {
+    throw new Error(`Vector index file is truncated: ${filePath}`);
+  }
+
+  // Slicing copies into a fresh, 4-byte aligned ArrayBuffer (assumes a
+  // little-endian host, as are all platforms we deploy to)
+  const start = buffer.byteOffset + dataOffset;
+  const vectors = new Float32Array(buffer.buffer.slice(start, start + length * 4));
+
+  return { header, vectors };
+}
@@ -1,61 +1,65 @@
-import { PDFLoader } from "@langchain/community/document_loaders/fs/pdf";
-import { DocxLoader } from "@langchain/community/document_loaders/fs/docx";
 import { Document } from "@langchain/core/documents";
-import path from "path";
+import crypto from "crypto";
 import fs from "fs";
+import { KBSourceMetadata, loadManifest, resolveSourceFiles } from "./manifest";
+import { getLoader } from "./loaders";
 
-// Knowledge Base directory path (relative to project root)
-const KB_DIR = path.join(process.cwd(), "..", "KB", "Avatar Knowledge");
+/**
+ * Load one source file with the loader for its type, tagging each document
+ * with the file name, a content hash and the given metadata.
+ * Returns null for unsupported file types.
+ */
+export async function loadSourceFile(
+  filePath: string,
+  fileName: string,
+  metadata: KBSourceMetadata
+): Promise<Document[] | null> {
+  const loader = getLoader(fileName);
+  if (!loader) {
+    return null;
+  }
+
+  const docs = await loader(filePath);
+
+  // Content hash lets re-seeding skip unchanged files. Manifest metadata
+  // is folded in so editing it refreshes chunk metadata (embeddings are
+  // still reused per chunk).
+  const fileHash = crypto
+    .createHash("sha256")
+    .update(fs.readFileSync(filePath))
+    .update(JSON.stringify(metadata))
+    .digest("hex");
 
-// List of all KB files
-const KB_FILES = [
-  "SkillTRAN-HR Specialist Job Analysis.pdf",
-  "SkillTRAN-Human Resource Specialist.pdf",
-  "7110 Qs for AI.docx",
-  "7110 Michael's Case and Talking points.docx",
-  "Vocational Profile Instruction -Job Analysis.docx",
-  "W&F2012_Standard DOL Definitions.docx",
-  "Online Resources.docx",
-];
+  // Add source metadata
+  docs.forEach((doc) => {
+    doc.metadata.source = fileName;
+    doc.metadata.fileName = fileName;
+    doc.metadata.fileHash = fileHash;
+    Object.assign(doc.metadata, metadata);
+  });
+
+  return docs;
+}
 
 export async function loadKBDocuments(): Promise<Document[]> {
   const allDocs: Document[] = [];
 
-  console.log("Loading KB documents from:", KB_DIR);
+  // Sources and their metadata come from the KB manifest
+  const { manifest, kbDir } = loadManifest();
+  const sourceFiles = resolveSourceFiles(manifest, kbDir);
 
-  for (const file of KB_FILES) {
-    const filePath = path.join(KB_DIR, file);
-
-    // Check if file exists
-    if (!fs.existsSync(filePath)) {
-      console.warn(`File not found: ${filePath}`);
-      continue;
-    }
+  console.log("Loading KB documents from:", kbDir);
 
+  for (const { filePath, fileName: file, metadata } of sourceFiles) {
     console.log(`Loading: ${file}`);
 
     try {
-      let docs: Document[];
-
-      if (file.endsWith(".pdf")) {
-        const loader = new PDFLoader(filePath, {
-          splitPages: true,
-        });
-        docs = await loader.load();
-      } else if (file.endsWith(".docx")) {
-        const loader = new DocxLoader(filePath);
-        docs = await loader.load();
-      } else {
+      const docs = await loadSourceFile(filePath, file, metadata);
+      if (!docs) {
         console.warn(`Unsupported file type: ${file}`);
         continue;
       }
 
-      // Add source metadata
-      docs.forEach((doc) => {
-        doc.metadata.source = file;
-        doc.metadata.fileName = file;
-      });
-
       allDocs.push(...docs);
       console.log(`  Loaded ${docs.length} documents from ${file}`);
     } catch (error) {
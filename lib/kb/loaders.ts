@@ -0,0 +1,172 @@
+import { PDFLoader } from "@langchain/community/document_loaders/fs/pdf";
+import { DocxLoader } from "@langchain/community/document_loaders/fs/docx";
+import { Document } from "@langchain/core/documents";
+import fs from "fs";
+import path from "path";
+import { parseCSV, tableToDocuments, toTable } from "./tables";
+
+// Pluggable document loaders keyed by file extension and MIME type
+
+export type FileLoader = (filePath: string) => Promise<Document[]>;
+
+const loadersByExtension = new Map<string, FileLoader>();
+const loadersByMimeType = new Map<string, FileLoader>();
+
+/**
+ * Register a loader for the given extensions (".csv") and MIME types.
+ * Registering an extension again replaces the earlier loader.
+ */
+export function registerLoader(
+  loader: FileLoader,
+  { extensions = [], mimeTypes = [] }: { extensions?: string[]; mimeTypes?: string[] }
+): void {
+  for (const ext of extensions) {
+    loadersByExtension.set(ext.toLowerCase(), loader);
+  }
+  for (const type of mimeTypes) {
+    loadersByMimeType.set(type.toLowerCase(), loader);
+  }
+}
+
+/**
+ * Find the loader for a file, by MIME type first when one is given
+ */
+export function getLoader(fileName: string, mimeType?: string): FileLoader | null {
+  if (mimeType) {
+    const byType = loadersByMimeType.get(mimeType.toLowerCase().split(";")[0].trim());
+    if (byType) return byType;
+  }
+  return loadersByExtension.get(path.extname(fileName).toLowerCase()) || null;
+}
+
+export function supportedExtensions(): string[] {
+  return Array.from(loadersByExtension.keys());
+}
+
+// Plain text as a single document
+async function loadText(filePath: string): Promise<Document[]> {
+  const text = fs.readFileSync(filePath, "utf-8");
+  return [new Document({ pageContent: text, metadata: { source: filePath } })];
+}
+
+const HTML_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+};
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x?[0-9a-f]+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === "#") {
+      const n = code[1].toLowerCase() === "x" ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return Number.isNaN(n) ? entity : String.fromCodePoint(n);
+    }
+    return HTML_ENTITIES[code.toLowerCase()] ?? entity;
+  });
+}
+
+/**
+ * Extract readable text from a saved HTML page, dropping scripts, styles
+ * and page chrome (navigation, headers, footers, sidebars, forms)
+ */
+export function htmlToText(html: string): { title?: string; text: string } {
+  const title = html.match(/<title[^>]*>([\s\S]*?)<\/title>/i)?.[1];
+
+  // Prefer the main content region when the page marks one
+  const main =
+    html.match(/<main[^>]*>([\s\S]*?)<\/main>/i)?.[1] ??
+    html.match(/<article[^>]*>([\s\S]*?)<\/article>/i)?.[1] ??
+    html.match(/<body[^>]*>([\s\S]*?)<\/body>/i)?.[1] ??
+    html;
+
+  const text = main
+    .replace(/<!--[\s\S]*?-->/g, "")
+    .replace(/<(script|style|noscript|template|svg|nav|header|footer|aside|form|iframe)\b[^>]*>[\s\S]*?<\/\1>/gi, "")
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<\/(p|div|li|h[1-6]|tr|section|article|blockquote|pre)>/gi, "\n")
+    .replace(/<li[^>]*>/gi, "- ")
+    .replace(/<\/t[dh]>/gi, "\t")
+    .replace(/<[^>]+>/g, "");
+
+  return {
+    title: title ? decodeEntities(title).trim() : undefined,
+    text: decodeEntities(text)
+      .split("\n")
+      .map((line) => line.replace(/[ \t]+/g, " ").trim())
+      .filter(Boolean)
+      .join("\n"),
+  };
+}
+
+async function loadHTML(filePath: string): Promise<Document[]> {
+  const { title, text } = htmlToText(fs.readFileSync(filePath, "utf-8"));
+  return [
+    new Document({
+      pageContent: text,
+      metadata: { source: filePath, ...(title ? { pageTitle: title } : {}) },
+    }),
+  ];
+}
+
+async function loadCSV(filePath: string): Promise<Document[]> {
+  const table = toTable(parseCSV(fs.readFileSync(filePath, "utf-8")));
+  return tableToDocuments(table, { source: filePath });
+}
+
+async function loadXLSX(filePath: string): Promise<Document[]> {
+  const ExcelJS = (await import("exceljs")).default;
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.readFile(filePath);
+
+  const docs: Document[] = [];
+
+  workbook.eachSheet((sheet) => {
+    const rows: string[][] = [];
+    sheet.eachRow({ includeEmpty: false }, (row) => {
+      const cells: string[] = [];
+      row.eachCell({ includeEmpty: true }, (cell, col) => {
+        cells[col - 1] = cell.text;
+      });
+      rows.push(Array.from(cells, (cell) => cell ?? ""));
+    });
+
+    if (rows.length > 0) {
+      docs.push(...tableToDocuments(toTable(rows, sheet.name), { source: filePath }));
+    }
+  });
+
+  return docs;
+}
+
+// Built-in loaders
+registerLoader((filePath) => new PDFLoader(filePath, { splitPages: true }).load(), {
+  extensions: [".pdf"],
+  mimeTypes: ["application/pdf"],
+});
+registerLoader((filePath) => new DocxLoader(filePath).load(), {
+  extensions: [".docx"],
+  mimeTypes: ["application/vnd.openxmlformats-officedocument.wordprocessingml.document"],
+});
+registerLoader(loadText, {
+  extensions: [".md", ".markdown"],
+  mimeTypes: ["text/markdown"],
+});
+registerLoader(loadText, {
+  extensions: [".txt"],
+  mimeTypes: ["text/plain"],
+});
+registerLoader(loadHTML, {
+  extensions: [".html", ".htm"],
+  mimeTypes: ["text/html"],
+});
+registerLoader(loadCSV, {
+  extensions: [".csv"],
+  mimeTypes: ["text/csv"],
+});
+registerLoader(loadXLSX, {
+  extensions: [".xlsx"],
+  mimeTypes: ["application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"],
+});
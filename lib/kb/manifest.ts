@@ -0,0 +1,155 @@
+import path from "path";
+import fs from "fs";
+
+// Knowledge base manifest: which files to index and the metadata each carries
+
+// Default manifest location (relative to project root); override with KB_MANIFEST
+const DEFAULT_MANIFEST_PATH = path.join(process.cwd(), "kb.manifest.json");
+
+export interface KBSourceConfig {
+  // Glob pattern(s) relative to baseDir, e.g. "SkillTRAN-*.pdf" or "case/**/*.docx"
+  include: string | string[];
+  exclude?: string[];
+  title?: string;
+  category: string;
+  effectiveDate?: string;
+  priority?: number;
+  tags?: string[];
+}
+
+export interface KBManifest {
+  // KB directory, relative to the manifest file
+  baseDir: string;
+  sources: KBSourceConfig[];
+}
+
+// Metadata copied onto every document (and chunk) from a source
+export interface KBSourceMetadata {
+  title: string;
+  category: string;
+  effectiveDate?: string;
+  priority: number;
+  tags: string[];
+}
+
+export interface KBSourceFile {
+  filePath: string;
+  // Path relative to baseDir, used as the document's fileName
+  fileName: string;
+  metadata: KBSourceMetadata;
+}
+
+/**
+ * Convert a glob pattern (*, ?, **) to a regular expression
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let regex = "";
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+
+    if (char === "*") {
+      if (pattern[i + 1] === "*") {
+        // "**/" matches zero or more directories
+        regex += pattern[i + 2] === "/" ? "(?:.*/)?" : ".*";
+        i += pattern[i + 2] === "/" ? 2 : 1;
+      } else {
+        regex += "[^/]*";
+      }
+    } else if (char === "?") {
+      regex += "[^/]";
+    } else {
+      regex += char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+
+  return new RegExp(`^${regex}$`);
+}
+
+// List files under dir as forward-slash paths relative to it
+function listFiles(dir: string, prefix: string = ""): string[] {
+  if (!fs.existsSync(dir)) return [];
+
+  const files: string[] = [];
+  for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+    const relative = prefix ? `${prefix}/${entry.name}` : entry.name;
+    if (entry.isDirectory()) {
+      files.push(...listFiles(path.join(dir, entry.name), relative));
+    } else if (entry.isFile()) {
+      files.push(relative);
+    }
+  }
+  return files;
+}
+
+function validateManifest(manifest: KBManifest, manifestPath: string): void {
+  if (typeof manifest.baseDir !== "string" || !Array.isArray(manifest.sources)) {
+    throw new Error(`Invalid KB manifest ${manifestPath}: expected "baseDir" and "sources"`);
+  }
+
+  manifest.sources.forEach((source, i) => {
+    if (!source.include || typeof source.category !== "string") {
+      throw new Error(`Invalid KB manifest ${manifestPath}: sources[${i}] needs "include" and "category"`);
+    }
+  });
+}
+
+/**
+ * Read the KB manifest
+ */
+export function loadManifest(
+  manifestPath: string = process.env.KB_MANIFEST || DEFAULT_MANIFEST_PATH
+): { manifest: KBManifest; kbDir: string } {
+  if (!fs.existsSync(manifestPath)) {
+    throw new Error(`KB manifest not found: ${manifestPath}`);
+  }
+
+  const manifest = JSON.parse(fs.readFileSync(manifestPath, "utf-8")) as KBManifest;
+  validateManifest(manifest, manifestPath);
+
+  return {
+    manifest,
+    kbDir: path.resolve(path.dirname(manifestPath), manifest.baseDir),
+  };
+}
+
+/**
+ * Resolve manifest sources to concrete files.
+ * A file matched by several sources takes the first source's metadata.
+ */
+export function resolveSourceFiles(manifest: KBManifest, kbDir: string): KBSourceFile[] {
+  const available = listFiles(kbDir);
+  const resolved = new Map<string, KBSourceFile>();
+
+  for (const source of manifest.sources) {
+    const includes = (Array.isArray(source.include) ? source.include : [source.include]).map(globToRegExp);
+    const excludes = (source.exclude ?? []).map(globToRegExp);
+
+    const matches = available.filter(
+      (file) =>
+        includes.some((re) => re.test(file)) && !excludes.some((re) => re.test(file))
+    );
+
+    if (matches.length === 0) {
+      console.warn(`No files matched KB source: ${JSON.stringify(source.include)}`);
+    }
+
+    for (const file of matches) {
+      if (resolved.has(file)) continue;
+
+      resolved.set(file, {
+        filePath: path.join(kbDir, file),
+        fileName: file,
+        metadata: {
+          title: source.title ?? path.basename(file, path.extname(file)),
+          category: source.category,
+          effectiveDate: source.effectiveDate,
+          priority: source.priority ?? 0,
+          tags: source.tags ?? [],
+        },
+      });
+    }
+  }
+
+  return Array.from(resolved.values());
+}
@@ -0,0 +1,129 @@
+import fs from "fs";
+import path from "path";
+import { normalizeDotCode, OccupationRecord } from "./skilltran";
+
+// Structured occupation records extracted during seeding
+const OCCUPATIONS_PATH = path.join(process.cwd(), ".occupations.json");
+
+// Singleton occupation list (lazy loaded)
+let occupationsInstance: OccupationRecord[] | null = null;
+
+/**
+ * Persist extracted occupation records
+ */
+export function saveOccupations(records: OccupationRecord[]): void {
+  const data = {
+    occupations: records,
+    timestamp: Date.now(),
+  };
+  fs.writeFileSync(OCCUPATIONS_PATH, JSON.stringify(data, null, 2));
+  occupationsInstance = records;
+}
+
+/**
+ * Get all occupation records
+ */
+export function getOccupations(): OccupationRecord[] {
+  if (occupationsInstance) {
+    return occupationsInstance;
+  }
+
+  if (!fs.existsSync(OCCUPATIONS_PATH)) {
+    throw new Error(
+      "Occupation records not found. Please run 'pnpm seed-kb' first to extract them from the knowledge base."
+    );
+  }
+
+  const data = JSON.parse(fs.readFileSync(OCCUPATIONS_PATH, "utf-8"));
+  occupationsInstance = data.occupations as OccupationRecord[];
+  return occupationsInstance;
+}
+
+/**
+ * Look up one occupation by DOT code (any punctuation)
+ */
+export function getOccupation(dotCode: string): OccupationRecord | null {
+  const normalized = normalizeDotCode(dotCode);
+  if (!normalized) return null;
+
+  return getOccupations().find((o) => o.dotCode === normalized) || null;
+}
+
+/**
+ * Search occupations by DOT or O*NET title
+ */
+export function searchOccupations(query: string, limit: number = 10): OccupationRecord[] {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (terms.length === 0) return [];
+
+  const scored = getOccupations().map((occupation) => {
+    const title = occupation.title.toLowerCase();
+    const titles = `${title} ${occupation.onetTitle?.toLowerCase() ?? ""}`;
+
+    let score = terms.filter((term) => titles.includes(term)).length;
+
+    // Bonus for the full query appearing in the DOT title
+    if (title.includes(query.toLowerCase().trim())) {
+      score += terms.length;
+    }
+
+    return { occupation, score };
+  });
+
+  return scored
+    .filter((item) => item.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map((item) => item.occupation);
+}
+
+/**
+ * Find occupations whose DOT code is mentioned in the text.
+ * Returns an empty list when records haven't been extracted yet.
+ */
+export function findOccupationsInText(text: string): OccupationRecord[] {
+  const codes = text.match(/\b\d{3}\.\d{3}-\d{3}\b/g);
+  if (!codes) return [];
+
+  try {
+    return Array.from(new Set(codes))
+      .map((code) => getOccupation(code))
+      .filter((o): o is OccupationRecord => o !== null);
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Format an occupation record as a compact fact sheet for the prompt
+ */
+export function formatOccupation(occupation: OccupationRecord): string {
+  const lines = [`DOT ${occupation.dotCode} ${occupation.title}`];
+
+  if (occupation.svp !== undefined) {
+    lines.push(`SVP: ${occupation.svp}${occupation.svpDescription ? ` (${occupation.svpDescription})` : ""}`);
+  }
+  if (occupation.strength) {
+    lines.push(`Strength: ${occupation.strength} - ${occupation.strengthName}`);
+  }
+
+  const { reasoning, math, language } = occupation.ged;
+  lines.push(`GED: Reasoning ${reasoning ?? "?"}, Math ${math ?? "?"}, Language ${language ?? "?"}`);
+
+  const demands = Object.entries(occupation.physicalDemands).filter(([, f]) => f !== "Never");
+  if (demands.length > 0) {
+    lines.push(`Physical demands: ${demands.map(([name, f]) => `${name} ${f}`).join(", ")}`);
+  }
+
+  if (occupation.workFields.length > 0) {
+    lines.push(`Work fields: ${occupation.workFields.map((w) => `${w.code} ${w.name}`).join(", ")}`);
+  }
+  if (occupation.mpsms.length > 0) {
+    lines.push(`MPSMS: ${occupation.mpsms.map((m) => `${m.code} ${m.name}`).join(", ")}`);
+  }
+  if (occupation.onetCode) {
+    lines.push(`O*NET: ${occupation.onetCode} ${occupation.onetTitle ?? ""}`.trim());
+  }
+
+  return lines.join("\n");
+}
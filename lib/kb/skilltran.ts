@@ -0,0 +1,307 @@
+import { Document } from "@langchain/core/documents";
+
+// Parser for SkillTRAN job analysis / occupation detail reports
+
+export type StrengthLevel = "S" | "L" | "M" | "H" | "V";
+
+export type DemandFrequency = "Never" | "Occasionally" | "Frequently" | "Constantly";
+
+export interface GEDLevels {
+  reasoning?: number;
+  math?: number;
+  language?: number;
+}
+
+export interface CodedName {
+  code: string;
+  name: string;
+}
+
+export interface OccupationRecord {
+  dotCode: string;
+  title: string;
+  svp?: number;
+  svpDescription?: string;
+  strength?: StrengthLevel;
+  strengthName?: string;
+  ged: GEDLevels;
+  // Keyed by DOT physical demand name, e.g. "Reaching", "Near Acuity"
+  physicalDemands: Record<string, DemandFrequency>;
+  // Keyed by DOT environmental condition name, e.g. "Noise Intensity"
+  environmentalConditions: Record<string, string>;
+  dataPeopleThings: {
+    data?: CodedName;
+    people?: CodedName;
+    things?: CodedName;
+  };
+  workFields: CodedName[];
+  mpsms: CodedName[];
+  onetCode?: string;
+  onetTitle?: string;
+  dateLastUpdated?: string;
+  sources: string[];
+}
+
+export const STRENGTH_NAMES: Record<StrengthLevel, string> = {
+  S: "Sedentary",
+  L: "Light",
+  M: "Medium",
+  H: "Heavy",
+  V: "Very Heavy",
+};
+
+// Two-letter codes used in SkillTRAN job analysis reports
+const PHYSICAL_DEMAND_CODES: Record<string, string> = {
+  CL: "Climbing",
+  BA: "Balancing",
+  ST: "Stooping",
+  KN: "Kneeling",
+  CR: "Crouching",
+  CW: "Crawling",
+  RE: "Reaching",
+  HA: "Handling",
+  FI: "Fingering",
+  FE: "Feeling",
+  TA: "Talking",
+  HE: "Hearing",
+  TS: "Tasting/Smelling",
+  NE: "Near Acuity",
+  FA: "Far Acuity",
+  DE: "Depth Perception",
+  AC: "Accommodation",
+  CV: "Color Vision",
+  FV: "Field of Vision",
+};
+
+const ENVIRONMENTAL_CODES: Record<string, string> = {
+  WE: "Exposure to Weather",
+  CO: "Extreme Cold",
+  HO: "Extreme Heat",
+  WT: "Wet and/or Humid",
+  NO: "Noise Intensity",
+  VI: "Vibration",
+  AT: "Atmospheric Conditions",
+  MV: "Moving Mechanical Parts",
+  EL: "Electric Shock",
+  HI: "High Exposed Places",
+  RA: "Radiation",
+  EX: "Explosives",
+  TX: "Toxic or Caustic Chemicals",
+  OT: "Other Environmental Conditions",
+};
+
+/**
+ * Normalize a DOT code to the canonical "###.###-###" form
+ */
+export function normalizeDotCode(code: string): string | null {
+  const digits = code.replace(/\D/g, "");
+  if (digits.length !== 9) return null;
+  return `${digits.slice(0, 3)}.${digits.slice(3, 6)}-${digits.slice(6)}`;
+}
+
+function parseFrequency(value: string): DemandFrequency | undefined {
+  const v = value.trim().toLowerCase();
+  if (v.startsWith("never") || v.startsWith("not present")) return "Never";
+  if (v.startsWith("occasional")) return "Occasionally";
+  if (v.startsWith("frequent")) return "Frequently";
+  if (v.startsWith("constant")) return "Constantly";
+  return undefined;
+}
+
+function parseStrength(text: string): StrengthLevel | undefined {
+  // "Strength L - Light" (job analysis) or "StrengthLight" (occupation details)
+  const coded = text.match(/Strength\s+([SLMHV])\s+-\s+/);
+  if (coded) return coded[1] as StrengthLevel;
+
+  const named = text.match(/Strength\s*(Sedentary|Light|Medium|Heavy|Very Heavy)\b/);
+  if (named) {
+    const entry = Object.entries(STRENGTH_NAMES).find(([, name]) => name === named[1]);
+    return entry?.[0] as StrengthLevel | undefined;
+  }
+
+  return undefined;
+}
+
+function parseGED(text: string): GEDLevels {
+  const level = (pattern: RegExp) => {
+    const match = text.match(pattern);
+    return match ? Number(match[1]) : undefined;
+  };
+
+  return {
+    reasoning: level(/Reasoning(?: Development -)?\s*Level\s*(\d)/),
+    math: level(/Mathemati(?:cal Development -|cs)\s*Level\s*(\d)/),
+    language: level(/Language(?: Development -)?\s*Level\s*(\d)/),
+  };
+}
+
+function parsePhysicalDemands(text: string): Record<string, DemandFrequency> {
+  const demands: Record<string, DemandFrequency> = {};
+
+  // Job analysis format: "RE - Reaching Occasional"
+  for (const match of text.matchAll(/\b([A-Z]{2}) - [A-Za-z/ ]+?\s(Never|Occasional|Frequent|Constant)\b/g)) {
+    const name = PHYSICAL_DEMAND_CODES[match[1]];
+    const frequency = parseFrequency(match[2]);
+    if (name && frequency) demands[name] = frequency;
+  }
+
+  // Occupation details format: "ReachingOccasionally" lines under "Physical Demands"
+  const section = text.match(/Physical Demands\s*Level \*([\s\S]*?)Environmental Conditions/);
+  if (section) {
+    for (const line of section[1].split("\n")) {
+      const match = line.trim().match(/^(.+?)\s*(Never|Occasionally|Frequently|Constantly)$/);
+      if (match && match[1] !== "Strength") {
+        demands[match[1]] = match[2] as DemandFrequency;
+      }
+    }
+  }
+
+  return demands;
+}
+
+function parseEnvironmentalConditions(text: string): Record<string, string> {
+  const conditions: Record<string, string> = {};
+
+  // Job analysis format: "NO - Noise IntensityModerate"
+  const section = text.match(/ENVIRONMENTAL CONDITIONS([\s\S]*?)WORK SITUATIONS/);
+  if (section) {
+    for (const match of section[1].matchAll(/\b([A-Z]{2}) - [^\n]*?(Never|Occasional|Frequent|Constant|Quiet|Moderate|Loud|Very Loud|Very Quiet)\s*$/gm)) {
+      const name = ENVIRONMENTAL_CODES[match[1]];
+      if (name && match[2] !== "Never") conditions[name] = match[2];
+    }
+  }
+
+  // Occupation details format: "Noise Intensity LevelModerate"
+  const details = text.match(/Environmental Conditions\s*Level \*([\s\S]*?)Work Situations/);
+  if (details) {
+    for (const line of details[1].split("\n")) {
+      const match = line.trim().match(/^(.+?)(?: Level)?\s*(Occasionally|Frequently|Constantly|Quiet|Moderate|Loud|Very Loud|Very Quiet)$/);
+      if (match) conditions[match[1].replace(/ Level$/, "")] = match[2];
+    }
+  }
+
+  return conditions;
+}
+
+function parseDataPeopleThings(text: string): OccupationRecord["dataPeopleThings"] {
+  const result: OccupationRecord["dataPeopleThings"] = {};
+
+  const fields = [
+    ["data", "Data"],
+    ["people", "People"],
+    ["things", "Things"],
+  ] as const;
+
+  for (const [key, label] of fields) {
+    // Occupation details format: "Data2 - Analyzing"
+    let match = text.match(new RegExp(`\\n${label}(\\d) - ([A-Za-z/-]+(?: [A-Za-z/-]+)*)`));
+
+    // Job analysis format: starred entry after "relating to Data"
+    if (!match) {
+      const section = text.split(`relating to ${label},`)[1];
+      match = section?.match(/\*(\d) - ([A-Za-z/-]+(?: [A-Za-z/-]+)*)/) ?? null;
+    }
+
+    if (match) {
+      result[key] = { code: match[1], name: match[2].trim() };
+    }
+  }
+
+  return result;
+}
+
+function parseCodedList(text: string, pattern: RegExp): CodedName[] {
+  const seen = new Map<string, CodedName>();
+  for (const match of text.matchAll(pattern)) {
+    if (!seen.has(match[1])) {
+      seen.set(match[1], { code: match[1], name: match[2].trim() });
+    }
+  }
+  return Array.from(seen.values());
+}
+
+/**
+ * Parse the full text of one SkillTRAN report into an occupation record
+ */
+export function parseSkillTRANReport(text: string, source: string): OccupationRecord | null {
+  const header = text.match(/DOT Code:\s*(\d{3}\.\d{3}-\d{3})\s+([^\n]+)/);
+  if (!header) return null;
+
+  const svpMatch =
+    text.match(/SVP:\s*(\d)\s*\(([^)]*\)?)\)/) ||
+    text.match(/Specific Vocational Preparation \(SVP\)\s*Level\s*(\d)\s*\(([^)]*)\)/);
+
+  const strength = parseStrength(text);
+
+  const onetCode =
+    text.match(/O\*NET Code:\s*(\d{2}-\d{4}\.\d{2})/)?.[1] ||
+    text.match(/O\*NET:\s*(\d{2}-\d{4}\.\d{2})/)?.[1];
+
+  return {
+    dotCode: header[1],
+    title: header[2].trim(),
+    svp: svpMatch ? Number(svpMatch[1]) : undefined,
+    svpDescription: svpMatch?.[2].trim(),
+    strength,
+    strengthName: strength ? STRENGTH_NAMES[strength] : undefined,
+    ged: parseGED(text),
+    physicalDemands: parsePhysicalDemands(text),
+    environmentalConditions: parseEnvironmentalConditions(text),
+    dataPeopleThings: parseDataPeopleThings(text),
+    workFields: parseCodedList(text, /WORK Field - (\d{3}) - ([^\n]+)/g),
+    mpsms: parseCodedList(text, /MPSMS Code - (\d{3}) - ([^\n]+)/g),
+    onetCode,
+    onetTitle: text.match(/O\*NET Title:\s*([^\n]+)/)?.[1].trim(),
+    dateLastUpdated: text.match(/Date Last Updated(?: \(DLU\))?:\s*(\d{4})/)?.[1],
+    sources: [source],
+  };
+}
+
+/**
+ * Combine two records for the same DOT code, keeping fields either one has
+ */
+function mergeRecords(a: OccupationRecord, b: OccupationRecord): OccupationRecord {
+  return {
+    ...b,
+    ...Object.fromEntries(Object.entries(a).filter(([, v]) => v !== undefined)),
+    ged: { ...b.ged, ...a.ged },
+    physicalDemands: { ...b.physicalDemands, ...a.physicalDemands },
+    environmentalConditions: { ...b.environmentalConditions, ...a.environmentalConditions },
+    dataPeopleThings: { ...b.dataPeopleThings, ...a.dataPeopleThings },
+    workFields: a.workFields.length > 0 ? a.workFields : b.workFields,
+    mpsms: a.mpsms.length > 0 ? a.mpsms : b.mpsms,
+    sources: Array.from(new Set([...a.sources, ...b.sources])),
+  } as OccupationRecord;
+}
+
+/**
+ * Extract occupation records from loaded KB documents.
+ * Pages are regrouped per file so fields spanning a page break still parse.
+ */
+export function extractOccupations(docs: Document[]): OccupationRecord[] {
+  const pagesByFile = new Map<string, Document[]>();
+
+  for (const doc of docs) {
+    if (!doc.pageContent.includes("SkillTRAN")) continue;
+    const file = String(doc.metadata.fileName || doc.metadata.source);
+    if (!pagesByFile.has(file)) pagesByFile.set(file, []);
+    pagesByFile.get(file)!.push(doc);
+  }
+
+  const records = new Map<string, OccupationRecord>();
+
+  for (const [file, pages] of pagesByFile) {
+    pages.sort(
+      (a, b) => (a.metadata.loc?.pageNumber ?? 0) - (b.metadata.loc?.pageNumber ?? 0)
+    );
+    const text = pages.map((page) => page.pageContent).join("\n");
+
+    const record = parseSkillTRANReport(text, file);
+    if (!record) continue;
+
+    const existing = records.get(record.dotCode);
+    records.set(record.dotCode, existing ? mergeRecords(existing, record) : record);
+  }
+
+  return Array.from(records.values());
+}
@@ -0,0 +1,122 @@
+import { Document } from "@langchain/core/documents";
+
+// Row-aware chunking for tabular sources (CSV, XLSX)
+
+// Keep row groups under the splitter's chunk size so rows are never cut
+const MAX_TABLE_CHUNK_CHARS = 900;
+
+export interface Table {
+  headers: string[];
+  rows: string[][];
+  // Sheet name for workbooks
+  sheet?: string;
+}
+
+/**
+ * Parse CSV text (RFC 4180: quoted fields, escaped quotes, embedded newlines)
+ */
+export function parseCSV(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Drop blank lines
+  return rows.filter((r) => r.some((cell) => cell.trim() !== ""));
+}
+
+/**
+ * Build a table from parsed rows, treating the first row as headers
+ */
+export function toTable(rows: string[][], sheet?: string): Table {
+  const [headerRow = [], ...body] = rows;
+  const headers = headerRow.map((h, i) => h.trim() || `Column ${i + 1}`);
+  return { headers, rows: body, sheet };
+}
+
+// Render one row as "Header: value" pairs so each chunk is self-describing
+function formatRow(headers: string[], row: string[]): string {
+  return headers
+    .map((header, i) => `${header}: ${(row[i] ?? "").trim()}`)
+    .filter((pair) => !pair.endsWith(": "))
+    .join(" | ");
+}
+
+/**
+ * Convert a table into documents of whole rows, each repeating the headers
+ */
+export function tableToDocuments(
+  table: Table,
+  metadata: Record<string, unknown> = {}
+): Document[] {
+  const docs: Document[] = [];
+  const header = `${table.sheet ? `Sheet: ${table.sheet}\n` : ""}Columns: ${table.headers.join(", ")}`;
+
+  let lines: string[] = [];
+  let rowStart = 0;
+
+  const flush = (rowEnd: number) => {
+    if (lines.length === 0) return;
+    docs.push(
+      new Document({
+        pageContent: `${header}\n${lines.join("\n")}`,
+        metadata: {
+          ...metadata,
+          ...(table.sheet ? { sheet: table.sheet } : {}),
+          // 1-based data row numbers (header row excluded)
+          rowStart: rowStart + 1,
+          rowEnd,
+        },
+      })
+    );
+    lines = [];
+  };
+
+  table.rows.forEach((row, i) => {
+    const line = formatRow(table.headers, row);
+    if (!line) return;
+
+    const size = header.length + lines.join("\n").length + line.length + 2;
+    if (lines.length > 0 && size > MAX_TABLE_CHUNK_CHARS) {
+      flush(i);
+      rowStart = i;
+    }
+    lines.push(line);
+  });
+  flush(table.rows.length);
+
+  return docs;
+}
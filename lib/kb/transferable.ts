@@ -0,0 +1,317 @@
+import { getOccupations } from "./occupations";
+import {
+  CodedName,
+  DemandFrequency,
+  normalizeDotCode,
+  OccupationRecord,
+  STRENGTH_NAMES,
+  StrengthLevel,
+} from "./skilltran";
+
+// Transferable skills analysis (TSA) over the structured occupation records,
+// following the SSA approach (20 CFR 404.1568(d), SSR 82-41): skills from
+// semi-skilled or skilled past work transfer to occupations at the same or a
+// lower skill level that use the same or similar work fields (tools, methods)
+// or MPSMS (materials, products, subject matter, services), within the
+// claimant's residual functional capacity (RFC).
+
+export type EducationLevel = "illiterate" | "marginal" | "limited" | "high-school" | "college";
+
+export const EDUCATION_LEVELS: EducationLevel[] = [
+  "illiterate",
+  "marginal",
+  "limited",
+  "high-school",
+  "college",
+];
+
+export interface ResidualFunctionalCapacity {
+  // Highest exertional level the claimant can sustain
+  strength: StrengthLevel;
+  // Most often each physical demand may be required,
+  // e.g. { "Climbing": "Never", "Stooping": "Occasionally" }
+  physicalDemands?: Record<string, DemandFrequency>;
+  // Most each environmental condition may be present,
+  // e.g. { "Extreme Cold": "Never", "Noise Intensity": "Moderate" }
+  environmentalConditions?: Record<string, string>;
+}
+
+export interface TransferableSkillsRequest {
+  // DOT codes of past relevant work
+  pastWork: string[];
+  rfc: ResidualFunctionalCapacity;
+  age?: number;
+  education?: EducationLevel;
+  // Maximum candidates returned (default 20)
+  limit?: number;
+}
+
+export interface PastWorkSummary {
+  dotCode: string;
+  title: string;
+  svp?: number;
+  strength?: StrengthLevel;
+  // SVP 3 or more; unskilled work has no skills to transfer
+  skilled: boolean;
+}
+
+export interface TransferableSkillsCandidate {
+  dotCode: string;
+  title: string;
+  svp: number;
+  strength: StrengthLevel;
+  // Past job the skills transfer from
+  sourceDotCode: string;
+  matchedWorkFields: CodedName[];
+  matchedMpsms: CodedName[];
+  score: number;
+  // One line per matching criterion
+  explanation: string[];
+}
+
+export interface TransferableSkillsResult {
+  pastWork: PastWorkSummary[];
+  // Past work DOT codes with no occupation record
+  unknownDotCodes: string[];
+  ageCategory?: string;
+  // Age and RFC call for very little vocational adjustment
+  minimalAdjustmentRequired: boolean;
+  candidates: TransferableSkillsCandidate[];
+  notes: string[];
+}
+
+const DEFAULT_CANDIDATE_LIMIT = 20;
+
+// Lowest SVP of semi-skilled work
+const MIN_SKILLED_SVP = 3;
+
+export const STRENGTH_ORDER: StrengthLevel[] = ["S", "L", "M", "H", "V"];
+
+export const DEMAND_FREQUENCIES: DemandFrequency[] = ["Never", "Occasionally", "Frequently", "Constantly"];
+
+const FREQUENCY_ORDER: Record<string, number> = {
+  Never: 0,
+  Occasionally: 1,
+  Occasional: 1,
+  Frequently: 2,
+  Frequent: 2,
+  Constantly: 3,
+  Constant: 3,
+};
+
+const NOISE_ORDER: Record<string, number> = {
+  "Very Quiet": 1,
+  Quiet: 2,
+  Moderate: 3,
+  Loud: 4,
+  "Very Loud": 5,
+};
+
+// Highest GED reasoning level each education category typically supports
+const EDUCATION_GED_REASONING: Record<EducationLevel, number> = {
+  illiterate: 1,
+  marginal: 2,
+  limited: 3,
+  "high-school": 4,
+  college: 6,
+};
+
+/**
+ * SSA age category (20 CFR 404.1563)
+ */
+function ageCategory(age: number): string {
+  if (age >= 60) return "closely approaching retirement age";
+  if (age >= 55) return "advanced age";
+  if (age >= 50) return "closely approaching advanced age";
+  return "younger person";
+}
+
+// Rank of a frequency or noise level, so limits can be compared
+function levelRank(value: string): number | undefined {
+  return FREQUENCY_ORDER[value] ?? NOISE_ORDER[value];
+}
+
+/**
+ * Whether an RFC limit is a frequency or noise level the analysis understands
+ */
+export function isLimitLevel(value: string): boolean {
+  return levelRank(value) !== undefined;
+}
+
+function sharedCodes(a: CodedName[], b: CodedName[]): CodedName[] {
+  const codes = new Set(b.map((item) => item.code));
+  return a.filter((item) => codes.has(item.code));
+}
+
+function formatCoded(items: CodedName[]): string {
+  return items.map((item) => `${item.code} ${item.name}`).join(", ");
+}
+
+/**
+ * Check an occupation against the RFC; returns explanation lines, or null
+ * if any requirement exceeds it
+ */
+function withinRFC(occupation: OccupationRecord, rfc: ResidualFunctionalCapacity): string[] | null {
+  if (!occupation.strength) return null;
+  if (STRENGTH_ORDER.indexOf(occupation.strength) > STRENGTH_ORDER.indexOf(rfc.strength)) return null;
+
+  const reasons = [
+    `${STRENGTH_NAMES[occupation.strength]} strength is within the RFC for ${STRENGTH_NAMES[rfc.strength].toLowerCase()} work`,
+  ];
+
+  const checks: Array<[string, Record<string, string> | undefined, Record<string, string>]> = [
+    ["physical demand", rfc.physicalDemands, occupation.physicalDemands],
+    ["environmental condition", rfc.environmentalConditions, occupation.environmentalConditions],
+  ];
+
+  for (const [kind, limits, required] of checks) {
+    for (const [name, limit] of Object.entries(limits ?? {})) {
+      const requiredLevel = required[name] ?? "Never";
+      const requiredRank = levelRank(requiredLevel);
+      const limitRank = levelRank(limit);
+      if (requiredRank === undefined || limitRank === undefined) continue;
+
+      if (requiredRank > limitRank) return null;
+      reasons.push(`${name} (${kind}) is ${requiredLevel.toLowerCase()}, within the ${limit.toLowerCase()} limit`);
+    }
+  }
+
+  return reasons;
+}
+
+/**
+ * Find occupations the claimant's skills transfer to
+ */
+export function analyzeTransferableSkills(request: TransferableSkillsRequest): TransferableSkillsResult {
+  const occupations = getOccupations();
+  const byCode = new Map(occupations.map((occupation) => [occupation.dotCode, occupation]));
+
+  const pastRecords: OccupationRecord[] = [];
+  const unknownDotCodes: string[] = [];
+  for (const code of request.pastWork) {
+    const record = byCode.get(normalizeDotCode(code) ?? "");
+    if (record) {
+      pastRecords.push(record);
+    } else {
+      unknownDotCodes.push(code);
+    }
+  }
+
+  const notes: string[] = [];
+  const skilledPast = pastRecords.filter((record) => (record.svp ?? 0) >= MIN_SKILLED_SVP);
+
+  if (pastRecords.length > 0 && skilledPast.length === 0) {
+    notes.push("All past relevant work is unskilled (SVP 1-2), so there are no skills to transfer.");
+  }
+
+  // Advanced age with a sedentary RFC, or 60+ with a light RFC, requires
+  // very little vocational adjustment (20 CFR 404.1568(d)(4))
+  const age = request.age;
+  const minimalAdjustmentRequired =
+    age !== undefined &&
+    ((age >= 55 && request.rfc.strength === "S") || (age >= 60 && request.rfc.strength === "L"));
+  if (minimalAdjustmentRequired) {
+    notes.push(
+      "Age and RFC require very little vocational adjustment: candidates must share both work fields and MPSMS with past work."
+    );
+  }
+
+  const maxReasoning = request.education ? EDUCATION_GED_REASONING[request.education] : undefined;
+  const pastCodes = new Set(pastRecords.map((record) => record.dotCode));
+  const candidates: TransferableSkillsCandidate[] = [];
+
+  for (const occupation of occupations) {
+    if (pastCodes.has(occupation.dotCode)) continue;
+    if (occupation.svp === undefined || occupation.svp < MIN_SKILLED_SVP || !occupation.strength) continue;
+
+    const rfcReasons = withinRFC(occupation, request.rfc);
+    if (!rfcReasons) continue;
+
+    let best: TransferableSkillsCandidate | null = null;
+
+    for (const past of skilledPast) {
+      if (occupation.svp > past.svp!) continue;
+
+      const matchedWorkFields = sharedCodes(occupation.workFields, past.workFields);
+      const matchedMpsms = sharedCodes(occupation.mpsms, past.mpsms);
+      if (matchedWorkFields.length === 0 && matchedMpsms.length === 0) continue;
+      if (minimalAdjustmentRequired && (matchedWorkFields.length === 0 || matchedMpsms.length === 0)) continue;
+
+      const explanation = [
+        `Skills from ${past.title} (DOT ${past.dotCode}, SVP ${past.svp})`,
+        `SVP ${occupation.svp} is at or below the past work's SVP ${past.svp}`,
+      ];
+      let score = 2 * matchedWorkFields.length + 2 * matchedMpsms.length;
+
+      if (matchedWorkFields.length > 0) {
+        explanation.push(`Same work field: ${formatCoded(matchedWorkFields)}`);
+      }
+      if (matchedMpsms.length > 0) {
+        explanation.push(`Same MPSMS: ${formatCoded(matchedMpsms)}`);
+      }
+
+      // Same worker functions (data, people, things) suggest similar skills
+      for (const key of ["data", "people", "things"] as const) {
+        const a = occupation.dataPeopleThings[key];
+        const b = past.dataPeopleThings[key];
+        if (a && b && a.code === b.code) {
+          score += 1;
+          explanation.push(`Same ${key} function: ${a.code} ${a.name}`);
+        }
+      }
+
+      // Closer skill levels need less adjustment
+      if (occupation.svp === past.svp) score += 1;
+
+      explanation.push(...rfcReasons);
+
+      const reasoning = occupation.ged.reasoning;
+      if (maxReasoning !== undefined && reasoning !== undefined && reasoning > maxReasoning) {
+        score -= 1;
+        explanation.push(
+          `GED reasoning level ${reasoning} may exceed what ${request.education} education typically supports`
+        );
+      }
+
+      if (!best || score > best.score) {
+        best = {
+          dotCode: occupation.dotCode,
+          title: occupation.title,
+          svp: occupation.svp,
+          strength: occupation.strength,
+          sourceDotCode: past.dotCode,
+          matchedWorkFields,
+          matchedMpsms,
+          score,
+          explanation,
+        };
+      }
+    }
+
+    if (best) candidates.push(best);
+  }
+
+  if (skilledPast.length > 0 && candidates.length === 0) {
+    notes.push("No occupation records match the transferability criteria within this RFC.");
+  }
+  notes.push(
+    `Only the ${occupations.length} occupations with extracted records in the knowledge base were considered.`
+  );
+
+  return {
+    pastWork: pastRecords.map((record) => ({
+      dotCode: record.dotCode,
+      title: record.title,
+      svp: record.svp,
+      strength: record.strength,
+      skilled: (record.svp ?? 0) >= MIN_SKILLED_SVP,
+    })),
+    unknownDotCodes,
+    ageCategory: age !== undefined ? ageCategory(age) : undefined,
+    minimalAdjustmentRequired,
+    candidates: candidates
+      .sort((a, b) => b.score - a.score || b.svp - a.svp)
+      .slice(0, request.limit ?? DEFAULT_CANDIDATE_LIMIT),
+    notes,
+  };
+}
@@ -0,0 +1,61 @@
+import { Document } from "@langchain/core/documents";
+import { describe, expect, it } from "vitest";
+import { SimpleVectorStore } from "./vectorstore";
+
+// Three chunks with hand-made embeddings: the query embedding [1, 0] is
+// closest to "a", then "c", then "b", while BM25 for "forklift" prefers "b"
+// over "c" and does not match "a" at all
+async function buildStore(metadata: Record<string, unknown>[] = [{}, {}, {}]) {
+  const store = new SimpleVectorStore();
+  await store.addDocuments(
+    [
+      new Document({ pageContent: "Claims examiner reviews insurance claims", metadata: { id: "a", ...metadata[0] } }),
+      new Document({ pageContent: "Forklift operator, forklift certification", metadata: { id: "b", ...metadata[1] } }),
+      new Document({ pageContent: "Warehouse worker who sometimes drives a forklift", metadata: { id: "c", ...metadata[2] } }),
+    ],
+    [
+      [1, 0],
+      [0, 1],
+      [0.8, 0.6],
+    ]
+  );
+  return store;
+}
+
+const ids = (docs: Document[]) => docs.map((doc) => doc.metadata.id);
+
+describe("SimpleVectorStore.hybridSearch", () => {
+  it("ranks by embeddings alone with keywordWeight 0", async () => {
+    const store = await buildStore();
+    expect(ids(store.hybridSearch("forklift", [1, 0], 3, { keywordWeight: 0 }))).toEqual(["a", "c", "b"]);
+  });
+
+  it("ranks by BM25 alone with keywordWeight 1", async () => {
+    const store = await buildStore();
+    expect(ids(store.hybridSearch("forklift", [1, 0], 3, { keywordWeight: 1 }))).toEqual(["b", "c"]);
+  });
+
+  it("puts a chunk ranked well by both first", async () => {
+    const store = await buildStore();
+    const docs = store.hybridSearch("warehouse forklift", [1, 0], 3, { keywordWeight: 0.5 });
+    expect(ids(docs)[0]).toBe("c");
+    // Weighted reciprocal ranks: 2nd by embeddings and 1st by BM25
+    expect(docs[0].metadata.score).toBeCloseTo(0.5 / 62 + 0.5 / 61);
+  });
+
+  it("falls back to BM25 without a query embedding", async () => {
+    const store = await buildStore();
+    expect(ids(store.hybridSearch("forklift", null, 3, { keywordWeight: 0 }))).toEqual(["b", "c"]);
+  });
+
+  it("boosts chunks from higher-priority sources", async () => {
+    const store = await buildStore([{}, {}, { priority: -10 }]);
+    expect(ids(store.hybridSearch("forklift", [1, 0], 3, { keywordWeight: 0.5 }))[0]).not.toBe("c");
+  });
+
+  it("searches only chunks that pass the filter", async () => {
+    const store = await buildStore([{ category: "claims" }, { category: "jobs" }, { category: "jobs" }]);
+    const docs = store.hybridSearch("forklift", [1, 0], 3, { filter: { category: "claims" } });
+    expect(ids(docs)).toEqual(["a"]);
+  });
+});
@@ -1,17 +1,77 @@
 import { Document } from "@langchain/core/documents";
 import { RecursiveCharacterTextSplitter } from "@langchain/textsplitters";
+import crypto from "crypto";
 import fs from "fs";
 import path from "path";
+import type { Trace } from "../ai/tracing";
+import { BM25Index, BM25IndexData } from "./bm25";
+import { DEFAULT_EF_SEARCH, HNSWIndex, HNSWIndexData, HNSWParams } from "./hnsw";
+import {
+  INDEX_FORMAT_VERSION,
+  readVectorFile,
+  readVectorFileHeader,
+  writeVectorFile,
+} from "./indexfile";
 
 // Simple in-memory vector store using cosine similarity
 interface VectorEntry {
   content: string;
-  embedding: number[];
+  embedding: ArrayLike<number>;
   metadata: Record<string, unknown>;
 }
 
-// Path to cached vector store
-const CACHE_PATH = path.join(process.cwd(), ".vectorstore-cache.json");
+// Restricts retrieval by the source metadata from the KB manifest
+export interface MetadataFilter {
+  category?: string | string[];
+  // Matches chunks carrying any of these tags
+  tags?: string[];
+  fileName?: string | string[];
+}
+
+// Per-request retrieval settings
+export interface RetrievalOptions {
+  // Share of the fused score given to BM25 (0 = embeddings only, 1 = BM25 only)
+  keywordWeight?: number;
+  filter?: MetadataFilter;
+  // HNSW candidate list size; higher = better recall, slower queries
+  efSearch?: number;
+  // Skip the ANN index and score every chunk
+  exact?: boolean;
+  // Further indexes searched alongside the KB, e.g. a case workspace
+  indexDirs?: string[];
+  // Records each search as a "retrieval" span
+  trace?: Trace;
+}
+
+// Default balance between BM25 and embedding rankings
+const DEFAULT_KEYWORD_WEIGHT = 0.5;
+
+// Reciprocal rank fusion constant (from the original RRF paper)
+const RRF_K = 60;
+
+// Fused score boost per manifest priority point
+const PRIORITY_BOOST = 0.05;
+
+// Below this many chunks brute-force search is exact and fast enough
+const ANN_MIN_ENTRIES = 1000;
+
+// Directory holding the shared KB index
+const KB_INDEX_DIR = process.cwd();
+
+// Index files within an index directory: a Float32 vector block plus a JSON
+// metadata file, and the single-file JSON cache written by earlier versions
+// (still readable)
+function indexPaths(dir: string) {
+  return {
+    vectors: path.join(dir, ".vectorstore-index.bin"),
+    meta: path.join(dir, ".vectorstore-meta.json"),
+    legacy: path.join(dir, ".vectorstore-cache.json"),
+  };
+}
+
+// Embedding model and the settings that determine its vectors
+const EMBEDDING_MODEL = "Xenova/all-MiniLM-L6-v2";
+const EMBEDDING_FINGERPRINT = `${EMBEDDING_MODEL};pooling=mean;normalize=true`;
 
 // Text splitter configuration
 const textSplitter = new RecursiveCharacterTextSplitter({
@@ -22,8 +82,18 @@ const textSplitter = new RecursiveCharacterTextSplitter({
 // Simple vector store class
 class SimpleVectorStore {
   private entries: VectorEntry[] = [];
+  private bm25 = new BM25Index();
+  // Deferred read of the vector block; embeddings are empty until it runs
+  private pendingVectors: (() => Float32Array) | null = null;
+  private dimension = 0;
+  private ann: HNSWIndex | null = null;
+  // chunkId -> entry index, built on first lookup
+  private chunkIndex: Map<string, number> | null = null;
+  // When the index was built; changes with every seed
+  private version = "";
 
   async addDocuments(docs: Document[], embeddings: number[][]): Promise<void> {
+    this.chunkIndex = null;
     for (let i = 0; i < docs.length; i++) {
       this.entries.push({
         content: docs[i].pageContent,
@@ -31,75 +101,298 @@ class SimpleVectorStore {
         metadata: docs[i].metadata,
       });
     }
+    this.bm25.addDocuments(docs.map((doc) => doc.pageContent));
   }
 
-  async similaritySearch(queryEmbedding: number[], k: number = 5): Promise<Document[]> {
-    // Calculate cosine similarity for all entries
-    const scored = this.entries.map((entry) => ({
-      entry,
-      score: cosineSimilarity(queryEmbedding, entry.embedding),
-    }));
-
-    // Sort by similarity (descending)
-    scored.sort((a, b) => b.score - a.score);
-
+  async similaritySearch(
+    queryEmbedding: number[],
+    k: number = 5,
+    options: RetrievalOptions = {}
+  ): Promise<Document[]> {
     // Return top k results
-    return scored.slice(0, k).map((item) =>
-      new Document({
-        pageContent: item.entry.content,
-        metadata: item.entry.metadata,
-      })
-    );
+    return this.vectorSearch(queryEmbedding, k, this.filterPredicate(options.filter), options)
+      .map((item) => this.toDocument(this.entries[item.index], item.score));
   }
 
-  // Keyword-based search (fallback for serverless environments)
-  keywordSearch(query: string, k: number = 5): Document[] {
-    const queryTerms = query.toLowerCase().split(/\s+/).filter(t => t.length > 2);
+  /**
+   * Top k entries by cosine similarity, via the HNSW index for large stores
+   * and brute force otherwise (or when options.exact is set)
+   */
+  vectorSearch(
+    queryEmbedding: ArrayLike<number>,
+    k: number,
+    allowed?: (index: number) => boolean,
+    options: RetrievalOptions = {}
+  ): Array<{ index: number; score: number }> {
+    if (options.exact || this.entries.length < ANN_MIN_ENTRIES) {
+      return this.rankBySimilarity(queryEmbedding, allowed).slice(0, k);
+    }
 
-    const scored = this.entries.map((entry) => {
-      const content = entry.content.toLowerCase();
-      let score = 0;
+    this.ensureVectors();
+    const ef = options.efSearch ?? DEFAULT_EF_SEARCH;
 
-      for (const term of queryTerms) {
-        // Count occurrences of each term
-        const matches = content.split(term).length - 1;
-        score += matches;
+    if (!allowed) {
+      return this.getAnnIndex().search(queryEmbedding, k, ef);
+    }
 
-        // Bonus for exact phrase match
-        if (content.includes(query.toLowerCase())) {
-          score += 10;
-        }
-      }
+    // Filtered: widen the search, then fall back to exact if too few pass
+    const width = Math.max(ef, k * 4);
+    const results = this.getAnnIndex()
+      .search(queryEmbedding, width, width)
+      .filter((item) => allowed(item.index));
+
+    return results.length >= k
+      ? results.slice(0, k)
+      : this.rankBySimilarity(queryEmbedding, allowed).slice(0, k);
+  }
 
-      return { entry, score };
+  // Score every entry by cosine similarity, best first
+  private rankBySimilarity(
+    queryEmbedding: ArrayLike<number>,
+    allowed?: (index: number) => boolean
+  ): Array<{ index: number; score: number }> {
+    this.ensureVectors();
+
+    const scored: Array<{ index: number; score: number }> = [];
+    this.entries.forEach((entry, index) => {
+      if (allowed && !allowed(index)) return;
+      scored.push({ index, score: cosineSimilarity(queryEmbedding, entry.embedding) });
     });
 
-    // Sort by score (descending)
+    // Sort by similarity (descending)
     scored.sort((a, b) => b.score - a.score);
+    return scored;
+  }
+
+  private filterPredicate(filter?: MetadataFilter): ((index: number) => boolean) | undefined {
+    if (!filter) return undefined;
+    return (index) => matchesFilter(this.entries[index].metadata, filter);
+  }
+
+  // `score` is the ranking's score for the query (cosine, BM25 or fused)
+  private toDocument(entry: VectorEntry, score: number): Document {
+    return new Document({
+      pageContent: entry.content,
+      metadata: { ...entry.metadata, score },
+    });
+  }
 
-    // Return top k results with score > 0
-    return scored
-      .filter((item) => item.score > 0)
+  // BM25 keyword search, used on every query and as the fallback when
+  // the embedding model is unavailable (serverless environments)
+  keywordSearch(query: string, k: number = 5, filter?: MetadataFilter): Document[] {
+    return this.bm25
+      .search(query, k, this.filterPredicate(filter))
+      .map((result) => this.toDocument(this.entries[result.index], result.score));
+  }
+
+  /**
+   * Merge embedding and BM25 rankings with weighted reciprocal rank fusion
+   */
+  hybridSearch(
+    query: string,
+    queryEmbedding: number[] | null,
+    k: number = 5,
+    options: RetrievalOptions = {}
+  ): Document[] {
+    const keywordWeight = queryEmbedding
+      ? clamp(options.keywordWeight ?? DEFAULT_KEYWORD_WEIGHT, 0, 1)
+      : 1;
+    const vectorWeight = 1 - keywordWeight;
+
+    // Over-fetch from each ranking so fusion has candidates to work with
+    const depth = Math.max(k * 4, 20);
+    const fused = new Map<number, number>();
+    const allowed = this.filterPredicate(options.filter);
+
+    if (queryEmbedding && vectorWeight > 0) {
+      this.vectorSearch(queryEmbedding, depth, allowed, options).forEach((item, rank) => {
+        fused.set(item.index, (fused.get(item.index) || 0) + vectorWeight / (RRF_K + rank + 1));
+      });
+    }
+
+    if (keywordWeight > 0) {
+      this.bm25.search(query, depth, allowed).forEach((item, rank) => {
+        fused.set(item.index, (fused.get(item.index) || 0) + keywordWeight / (RRF_K + rank + 1));
+      });
+    }
+
+    return Array.from(fused, ([index, score]) => {
+      const priority = Number(this.entries[index].metadata.priority) || 0;
+      return { index, score: score * (1 + PRIORITY_BOOST * priority) };
+    })
+      .sort((a, b) => b.score - a.score)
       .slice(0, k)
-      .map((item) =>
-        new Document({
-          pageContent: item.entry.content,
-          metadata: item.entry.metadata,
-        })
-      );
+      .map((item) => this.toDocument(this.entries[item.index], item.score));
+  }
+
+  getBM25(): BM25Index {
+    return this.bm25;
   }
 
   getEntries(): VectorEntry[] {
+    this.ensureVectors();
     return this.entries;
   }
 
-  loadEntries(entries: VectorEntry[]): void {
+  /**
+   * Stored embedding for each document's chunk, or null when the chunk is
+   * not in the index
+   */
+  getEmbeddings(docs: Document[]): Array<ArrayLike<number> | null> {
+    this.ensureVectors();
+    if (!this.chunkIndex) {
+      this.chunkIndex = new Map(
+        this.entries.map((entry, index) => [String(entry.metadata.chunkId), index])
+      );
+    }
+
+    return docs.map((doc) => {
+      const index = this.chunkIndex!.get(String(doc.metadata.chunkId));
+      const embedding = index === undefined ? undefined : this.entries[index].embedding;
+      return embedding && embedding.length > 0 ? embedding : null;
+    });
+  }
+
+  /**
+   * Build the HNSW graph over all entries
+   */
+  buildAnnIndex(params: Partial<HNSWParams> = {}): HNSWIndex {
+    this.ensureVectors();
+    const ann = new HNSWIndex((i) => this.entries[i].embedding, cosineSimilarity, params);
+    for (let i = 0; i < this.entries.length; i++) {
+      ann.add(i);
+    }
+    this.ann = ann;
+    return ann;
+  }
+
+  loadAnnIndex(data: HNSWIndexData): void {
+    this.ann = HNSWIndex.fromJSON(data, (i) => this.entries[i].embedding, cosineSimilarity);
+  }
+
+  // Indexes loaded without a persisted graph build one on first use
+  getAnnIndex(): HNSWIndex {
+    return this.ann && this.ann.size() === this.entries.length ? this.ann : this.buildAnnIndex();
+  }
+
+  getDimension(): number {
+    return this.dimension || this.entries[0]?.embedding.length || 0;
+  }
+
+  getVersion(): string {
+    return this.version;
+  }
+
+  setVersion(version: string): void {
+    this.version = version;
+  }
+
+  /**
+   * Attach a vector block that is only read on first similarity search
+   */
+  setLazyVectors(dimension: number, load: () => Float32Array): void {
+    this.dimension = dimension;
+    this.pendingVectors = load;
+  }
+
+  private ensureVectors(): void {
+    if (!this.pendingVectors) return;
+
+    const vectors = this.pendingVectors();
+    this.pendingVectors = null;
+
+    const dim = this.dimension;
+    this.entries.forEach((entry, i) => {
+      entry.embedding = vectors.subarray(i * dim, (i + 1) * dim);
+    });
+  }
+
+  loadEntries(entries: VectorEntry[], bm25?: BM25IndexData): void {
     this.entries = entries;
+    this.chunkIndex = null;
+
+    // Caches written before chunk provenance was added have no chunk IDs
+    for (const entry of entries) {
+      if (!entry.metadata.chunkId) {
+        entry.metadata.chunkId = chunkIdFor(entry.content, entry.metadata);
+      }
+    }
+
+    // Caches written before BM25 was added are indexed on load
+    if (bm25 && bm25.docLengths.length === entries.length) {
+      this.bm25 = BM25Index.fromJSON(bm25);
+    } else {
+      this.bm25 = new BM25Index();
+      this.bm25.addDocuments(entries.map((entry) => entry.content));
+    }
+  }
+}
+
+/**
+ * Stable chunk ID derived from the source file, position and content
+ */
+function chunkIdFor(content: string, metadata: Record<string, unknown>): string {
+  const loc = metadata.loc as { pageNumber?: number } | undefined;
+  return crypto
+    .createHash("sha1")
+    .update(`${metadata.fileName ?? metadata.source}:${loc?.pageNumber ?? ""}:${metadata.startChar ?? ""}:${content}`)
+    .digest("hex")
+    .slice(0, 12);
+}
+
+/**
+ * Split documents into chunks, recording each chunk's ID, page number and
+ * character span within its source page/document for citations
+ */
+async function splitWithProvenance(docs: Document[]): Promise<Document[]> {
+  const chunks: Document[] = [];
+
+  for (const doc of docs) {
+    const docChunks = await textSplitter.splitDocuments([doc]);
+    let cursor = 0;
+
+    for (const chunk of docChunks) {
+      const start = doc.pageContent.indexOf(chunk.pageContent, cursor);
+      if (start >= 0) {
+        chunk.metadata.startChar = start;
+        chunk.metadata.endChar = start + chunk.pageContent.length;
+        cursor = start + 1;
+      }
+
+      const pageNumber = doc.metadata.loc?.pageNumber;
+      if (pageNumber !== undefined) {
+        chunk.metadata.pageNumber = pageNumber;
+      }
+
+      chunk.metadata.chunkId = chunkIdFor(chunk.pageContent, chunk.metadata);
+      chunks.push(chunk);
+    }
+  }
+
+  return chunks;
+}
+
+function matchesFilter(metadata: Record<string, unknown>, filter: MetadataFilter): boolean {
+  const oneOf = (value: unknown, allowed?: string | string[]) =>
+    allowed === undefined || (Array.isArray(allowed) ? allowed : [allowed]).includes(String(value));
+
+  if (!oneOf(metadata.category, filter.category)) return false;
+  if (!oneOf(metadata.fileName, filter.fileName)) return false;
+
+  if (filter.tags && filter.tags.length > 0) {
+    const tags = Array.isArray(metadata.tags) ? metadata.tags : [];
+    if (!filter.tags.some((tag) => tags.includes(tag))) return false;
   }
+
+  return true;
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
 }
 
 // Cosine similarity function
-function cosineSimilarity(a: number[], b: number[]): number {
+function cosineSimilarity(a: ArrayLike<number>, b: ArrayLike<number>): number {
   let dotProduct = 0;
   let normA = 0;
   let normB = 0;
@@ -113,8 +406,8 @@ function cosineSimilarity(a: number[], b: number[]): number {
   return dotProduct / (Math.sqrt(normA) * Math.sqrt(normB));
 }
 
-// Singleton vector store instance
-let vectorStoreInstance: SimpleVectorStore | null = null;
+// Loaded vector stores by index directory
+const vectorStoreInstances = new Map<string, SimpleVectorStore>();
 
 // Embedding model instance (lazy loaded)
 let embeddingPipeline: unknown = null;
@@ -134,7 +427,7 @@ async function getEmbeddingPipeline() {
     try {
       console.log("Loading embedding model (first time may take a moment)...");
       const { pipeline } = await import("@xenova/transformers");
-      embeddingPipeline = await pipeline("feature-extraction", "Xenova/all-MiniLM-L6-v2");
+      embeddingPipeline = await pipeline("feature-extraction", EMBEDDING_MODEL);
     } catch (error) {
       console.warn("Failed to load embedding model, using keyword search fallback:", error);
       useKeywordFallback = true;
@@ -165,54 +458,350 @@ async function generateEmbeddings(texts: string[]): Promise<number[][] | null> {
   return embeddings;
 }
 
+// Per-file summary of what an indexing run changed
+export interface FileIndexDiff {
+  fileName: string;
+  status: "added" | "updated" | "removed" | "unchanged";
+  added: number;
+  updated: number;
+  removed: number;
+  unchanged: number;
+}
+
+export interface IndexOptions {
+  // Re-embed every chunk instead of reusing cached embeddings
+  full?: boolean;
+  // Where the index files live (default: the shared KB index)
+  dir?: string;
+  // HNSW build parameters
+  hnsw?: Partial<HNSWParams>;
+}
+
+// Index contents as read back for incremental seeding
+interface CacheData {
+  entries: VectorEntry[];
+  bm25?: BM25IndexData;
+  // fileName -> content hash of the source file
+  files?: Record<string, string>;
+  fingerprint?: string;
+  timestamp: number;
+}
+
+// Layout of .vectorstore-meta.json
+interface IndexMeta {
+  formatVersion: number;
+  fingerprint: string;
+  dimension: number;
+  count: number;
+  entries: Array<{ content: string; metadata: Record<string, unknown> }>;
+  bm25: BM25IndexData;
+  hnsw?: HNSWIndexData;
+  files: Record<string, string>;
+  timestamp: number;
+}
+
+function hashContent(content: string): string {
+  return crypto.createHash("sha256").update(content).digest("hex");
+}
+
+function entryFileName(metadata: Record<string, unknown>): string {
+  return String(metadata.fileName ?? metadata.source ?? "Unknown");
+}
+
 /**
- * Create and populate vector store from documents
+ * Hash of a source file, from the loader's fileHash or its loaded text
  */
-export async function createVectorStore(docs: Document[]): Promise<SimpleVectorStore> {
-  console.log("Splitting documents into chunks...");
-  const splitDocs = await textSplitter.splitDocuments(docs);
-  console.log(`Created ${splitDocs.length} chunks from ${docs.length} documents`);
+function fileHashFor(docs: Document[]): string {
+  const loaderHash = docs[0]?.metadata.fileHash;
+  if (typeof loaderHash === "string") return loaderHash;
+  return hashContent(docs.map((doc) => doc.pageContent).join("\n"));
+}
+
+/**
+ * Index documents, reusing embeddings for chunks whose content hasn't changed.
+ * Only new or changed chunks are embedded; chunks from files that are no
+ * longer present are dropped.
+ */
+export async function indexDocuments(
+  docs: Document[],
+  options: IndexOptions = {}
+): Promise<{ store: SimpleVectorStore; diff: FileIndexDiff[] }> {
+  const dir = options.dir ?? KB_INDEX_DIR;
+
+  let cache: CacheData | null = null;
+  if (!options.full) {
+    try {
+      cache = readCache(dir);
+    } catch (error) {
+      console.warn("Could not read existing cache, re-embedding everything:", error);
+    }
+  }
+
+  // Embeddings from a different model can't be reused
+  if (cache && (cache.fingerprint ?? EMBEDDING_FINGERPRINT) !== EMBEDDING_FINGERPRINT) {
+    console.warn(`Existing index was built with ${cache.fingerprint}; re-embedding everything.`);
+    cache = null;
+  }
+  const cachedFiles = cache?.files ?? {};
+
+  // Group previously indexed entries by source file
+  const previousByFile = new Map<string, VectorEntry[]>();
+  for (const entry of cache?.entries ?? []) {
+    const file = entryFileName(entry.metadata);
+    if (!previousByFile.has(file)) previousByFile.set(file, []);
+    previousByFile.get(file)!.push(entry);
+  }
+
+  // Group incoming documents by source file
+  const docsByFile = new Map<string, Document[]>();
+  for (const doc of docs) {
+    const file = entryFileName(doc.metadata);
+    if (!docsByFile.has(file)) docsByFile.set(file, []);
+    docsByFile.get(file)!.push(doc);
+  }
+
+  const entries: VectorEntry[] = [];
+  const files: Record<string, string> = {};
+  const diff: FileIndexDiff[] = [];
+  const pending: Document[] = [];
+
+  for (const [file, fileDocs] of docsByFile) {
+    const fileHash = fileHashFor(fileDocs);
+    const previous = previousByFile.get(file) ?? [];
+    files[file] = fileHash;
+
+    // Unchanged file: keep its entries as they are
+    if (previous.length > 0 && cachedFiles[file] === fileHash) {
+      entries.push(...previous);
+      diff.push({ fileName: file, status: "unchanged", added: 0, updated: 0, removed: 0, unchanged: previous.length });
+      continue;
+    }
+
+    const previousByHash = new Map<string, VectorEntry>();
+    for (const entry of previous) {
+      const hash = (entry.metadata.contentHash as string | undefined) ?? hashContent(entry.content);
+      previousByHash.set(hash, entry);
+    }
 
-  console.log("Generating embeddings (this may take a few minutes on first run)...");
-  const texts = splitDocs.map((doc) => doc.pageContent);
-  const embeddings = await generateEmbeddings(texts);
+    const chunks = await splitWithProvenance(fileDocs);
+    const keptHashes = new Set<string>();
+    let changed = 0;
+
+    for (const chunk of chunks) {
+      const hash = hashContent(chunk.pageContent);
+      chunk.metadata.contentHash = hash;
+
+      const reused = previousByHash.get(hash);
+      if (reused) {
+        keptHashes.add(hash);
+        entries.push({ content: chunk.pageContent, embedding: reused.embedding, metadata: chunk.metadata });
+      } else {
+        changed++;
+        pending.push(chunk);
+      }
+    }
+
+    // A changed chunk that replaces a dropped one counts as an update
+    const dropped = previousByHash.size - keptHashes.size;
+    const updated = Math.min(changed, dropped);
+
+    diff.push({
+      fileName: file,
+      status: previous.length === 0 ? "added" : changed + dropped === 0 ? "unchanged" : "updated",
+      added: changed - updated,
+      updated,
+      removed: dropped - updated,
+      unchanged: keptHashes.size,
+    });
+  }
+
+  // Files that were indexed before but are gone now
+  for (const [file, previous] of previousByFile) {
+    if (!docsByFile.has(file)) {
+      diff.push({ fileName: file, status: "removed", added: 0, updated: 0, removed: previous.length, unchanged: 0 });
+    }
+  }
+
+  if (pending.length > 0) {
+    console.log(`Generating embeddings for ${pending.length} new or changed chunks...`);
+    const embeddings = await generateEmbeddings(pending.map((doc) => doc.pageContent));
+
+    if (!embeddings) {
+      throw new Error("Failed to generate embeddings. Cannot create vector store.");
+    }
 
-  if (!embeddings) {
-    throw new Error("Failed to generate embeddings. Cannot create vector store.");
+    pending.forEach((doc, i) => {
+      entries.push({ content: doc.pageContent, embedding: embeddings[i], metadata: doc.metadata });
+    });
+  } else {
+    console.log("No new or changed chunks to embed.");
   }
 
   console.log("Creating vector store...");
   const store = new SimpleVectorStore();
-  await store.addDocuments(splitDocs, embeddings);
+  store.loadEntries(entries);
+
+  console.log("Building HNSW index...");
+  store.buildAnnIndex(options.hnsw);
+
+  const builtAt = Date.now();
+  store.setVersion(String(builtAt));
 
   // Cache the vector store
   try {
-    const cacheData = {
-      entries: store.getEntries(),
-      timestamp: Date.now(),
-    };
-    fs.writeFileSync(CACHE_PATH, JSON.stringify(cacheData));
+    writeIndex(store, files, dir, builtAt);
     console.log("Vector store cache saved.");
   } catch (error) {
     console.warn("Could not save vector store cache:", error);
   }
 
-  vectorStoreInstance = store;
+  vectorStoreInstances.set(dir, store);
+  return { store, diff };
+}
+
+/**
+ * Create and populate vector store from documents, re-embedding everything
+ */
+export async function createVectorStore(docs: Document[]): Promise<SimpleVectorStore> {
+  const { store } = await indexDocuments(docs, { full: true });
   return store;
 }
 
 /**
- * Load vector store from cache
+ * Write the binary vector block and its metadata file
+ */
+function writeIndex(
+  store: SimpleVectorStore,
+  files: Record<string, string>,
+  dir: string,
+  timestamp: number
+): void {
+  const paths = indexPaths(dir);
+  const entries = store.getEntries();
+  const dimension = store.getDimension();
+
+  fs.mkdirSync(dir, { recursive: true });
+  writeVectorFile(
+    paths.vectors,
+    { dimension, fingerprint: EMBEDDING_FINGERPRINT },
+    entries.map((entry) => entry.embedding)
+  );
+
+  const meta: IndexMeta = {
+    formatVersion: INDEX_FORMAT_VERSION,
+    fingerprint: EMBEDDING_FINGERPRINT,
+    dimension,
+    count: entries.length,
+    entries: entries.map(({ content, metadata }) => ({ content, metadata })),
+    bm25: store.getBM25().toJSON(),
+    hnsw: store.getAnnIndex().toJSON(),
+    files,
+    timestamp,
+  };
+  fs.writeFileSync(paths.meta, JSON.stringify(meta));
+
+  // The binary index supersedes the legacy JSON cache
+  if (fs.existsSync(paths.legacy)) {
+    fs.rmSync(paths.legacy);
+    console.log("Removed legacy .vectorstore-cache.json.");
+  }
+}
+
+/**
+ * Read index metadata and check it matches the vector block and the
+ * embedding model this server uses
  */
-function loadFromCache(): SimpleVectorStore | null {
+function readIndexMeta(dir: string): IndexMeta {
+  const paths = indexPaths(dir);
+  const meta = JSON.parse(fs.readFileSync(paths.meta, "utf-8")) as IndexMeta;
+  const header = readVectorFileHeader(paths.vectors);
+
+  if (meta.formatVersion !== INDEX_FORMAT_VERSION || header.formatVersion !== INDEX_FORMAT_VERSION) {
+    throw new Error(
+      `Unsupported vector index format version ${header.formatVersion}; expected ${INDEX_FORMAT_VERSION}. Run 'pnpm seed-kb --full' to rebuild it.`
+    );
+  }
+
+  if (header.fingerprint !== EMBEDDING_FINGERPRINT || meta.fingerprint !== EMBEDDING_FINGERPRINT) {
+    const built = header.fingerprint !== EMBEDDING_FINGERPRINT ? header.fingerprint : meta.fingerprint;
+    throw new Error(
+      `Vector index was built with embedding model "${built}" but this server uses "${EMBEDDING_FINGERPRINT}". Run 'pnpm seed-kb --full' to rebuild it.`
+    );
+  }
+
+  if (header.count !== meta.count || header.dimension !== meta.dimension || meta.entries.length !== meta.count) {
+    throw new Error(
+      "Vector index metadata does not match its vector file. Run 'pnpm seed-kb --full' to rebuild it."
+    );
+  }
+
+  return meta;
+}
+
+/**
+ * Read the full index (vectors included) for incremental seeding
+ */
+function readCache(dir: string): CacheData | null {
+  const paths = indexPaths(dir);
+
+  if (fs.existsSync(paths.meta) && fs.existsSync(paths.vectors)) {
+    const meta = readIndexMeta(dir);
+    const { vectors } = readVectorFile(paths.vectors);
+
+    return {
+      entries: meta.entries.map((entry, i) => ({
+        ...entry,
+        embedding: vectors.subarray(i * meta.dimension, (i + 1) * meta.dimension),
+      })),
+      bm25: meta.bm25,
+      files: meta.files,
+      fingerprint: meta.fingerprint,
+      timestamp: meta.timestamp,
+    };
+  }
+
+  if (fs.existsSync(paths.legacy)) {
+    return JSON.parse(fs.readFileSync(paths.legacy, "utf-8"));
+  }
+
+  return null;
+}
+
+/**
+ * Load vector store from cache.
+ * The binary vector block is read lazily, on the first embedding search.
+ */
+function loadFromCache(dir: string): SimpleVectorStore | null {
+  const paths = indexPaths(dir);
+
+  if (fs.existsSync(paths.meta) && fs.existsSync(paths.vectors)) {
+    // Model/format mismatches are fatal rather than silently ignored
+    const meta = readIndexMeta(dir);
+
+    const store = new SimpleVectorStore();
+    store.loadEntries(
+      meta.entries.map((entry) => ({ ...entry, embedding: new Float32Array(0) })),
+      meta.bm25
+    );
+    store.setLazyVectors(meta.dimension, () => readVectorFile(paths.vectors).vectors);
+    if (meta.hnsw && meta.hnsw.levels.length === meta.count) {
+      store.loadAnnIndex(meta.hnsw);
+    }
+    store.setVersion(String(meta.timestamp));
+
+    console.log(`Loaded ${meta.count} indexed entries.`);
+    return store;
+  }
+
   try {
-    if (!fs.existsSync(CACHE_PATH)) {
+    if (!fs.existsSync(paths.legacy)) {
       return null;
     }
 
-    const cacheData = JSON.parse(fs.readFileSync(CACHE_PATH, "utf-8"));
+    const cacheData = JSON.parse(fs.readFileSync(paths.legacy, "utf-8"));
     const store = new SimpleVectorStore();
-    store.loadEntries(cacheData.entries);
+    store.loadEntries(cacheData.entries, cacheData.bm25);
+    store.setVersion(String(cacheData.timestamp));
 
     console.log(`Loaded ${cacheData.entries.length} cached entries.`);
     return store;
@@ -226,40 +815,143 @@ function loadFromCache(): SimpleVectorStore | null {
  * Get existing vector store instance
  */
 export async function getVectorStore(): Promise<SimpleVectorStore> {
-  if (vectorStoreInstance) {
-    return vectorStoreInstance;
+  const store = getIndexedStore(KB_INDEX_DIR);
+  if (store) {
+    return store;
+  }
+
+  throw new Error(
+    "Vector store not initialized. Please run 'pnpm seed-kb' first to index the knowledge base."
+  );
+}
+
+/**
+ * Vector store for an index directory, or null if nothing is indexed there
+ */
+export function getIndexedStore(dir: string): SimpleVectorStore | null {
+  const loaded = vectorStoreInstances.get(dir);
+  if (loaded) {
+    return loaded;
   }
 
   // Try to load from cache
-  const cached = loadFromCache();
+  const cached = loadFromCache(dir);
   if (cached) {
-    vectorStoreInstance = cached;
-    return cached;
+    vectorStoreInstances.set(dir, cached);
   }
+  return cached;
+}
 
-  throw new Error(
-    "Vector store not initialized. Please run 'pnpm seed-kb' first to index the knowledge base."
-  );
+/**
+ * Version of the indexes a query would search: the KB's, then each of
+ * indexDirs' ("none" where nothing is indexed). Answers built from one
+ * version are stale under any other.
+ */
+export async function getIndexVersion(indexDirs: string[] = []): Promise<string> {
+  const versions = [(await getVectorStore()).getVersion()];
+  for (const dir of indexDirs) {
+    versions.push(getIndexedStore(dir)?.getVersion() ?? "none");
+  }
+  return versions.join("+");
+}
+
+/**
+ * Delete an index directory's files and forget its loaded store
+ */
+export function removeIndex(dir: string): void {
+  for (const filePath of Object.values(indexPaths(dir))) {
+    fs.rmSync(filePath, { force: true });
+  }
+  vectorStoreInstances.delete(dir);
+}
+
+/**
+ * Merge per-index rankings by reciprocal rank
+ */
+function fuseRankings(rankings: Document[][], k: number): Document[] {
+  const fused = new Map<string, { doc: Document; score: number }>();
+
+  for (const ranking of rankings) {
+    ranking.forEach((doc, rank) => {
+      const key = String(doc.metadata.chunkId);
+      const item = fused.get(key) ?? { doc, score: 0 };
+      item.score += 1 / (RRF_K + rank + 1);
+      fused.set(key, item);
+    });
+  }
+
+  return Array.from(fused.values())
+    .sort((a, b) => b.score - a.score)
+    .slice(0, k)
+    .map((item) => item.doc);
 }
 
 /**
  * Query the vector store for relevant documents
- * Uses embedding similarity if available, falls back to keyword search
+ * Fuses embedding similarity and BM25 rankings; uses BM25 alone when
+ * the embedding model is unavailable. Indexes in options.indexDirs are
+ * searched too and their results merged with the KB's.
  */
-export async function queryVectorStore(query: string, k: number = 5): Promise<Document[]> {
-  const store = await getVectorStore();
+export async function queryVectorStore(
+  query: string,
+  k: number = 5,
+  options: RetrievalOptions = {}
+): Promise<Document[]> {
+  if (!options.trace) return searchStores(query, k, options, {});
+
+  const { keywordWeight, filter, efSearch, indexDirs } = options;
+  return options.trace.span(
+    "retrieval",
+    { query, k, keywordWeight, filter, efSearch, indexes: 1 + (indexDirs?.length ?? 0) },
+    async (attributes) => {
+      const docs = await searchStores(query, k, options, attributes);
+      attributes.results = docs.map((doc, rank) => ({
+        rank: rank + 1,
+        chunkId: doc.metadata.chunkId,
+        fileName: entryFileName(doc.metadata),
+        pageNumber: doc.metadata.pageNumber,
+        score: doc.metadata.score,
+      }));
+      return docs;
+    }
+  );
+}
+
+async function searchStores(
+  query: string,
+  k: number,
+  options: RetrievalOptions,
+  attributes: Record<string, unknown>
+): Promise<Document[]> {
+  const stores = [await getVectorStore()];
+  for (const dir of options.indexDirs ?? []) {
+    const store = getIndexedStore(dir);
+    if (store) stores.push(store);
+  }
 
-  // Try embedding-based search first
   const queryEmbedding = await generateEmbeddings([query]);
 
+  let rankings: Document[][];
   if (queryEmbedding && queryEmbedding[0]) {
-    console.log("Using embedding-based search");
-    return store.similaritySearch(queryEmbedding[0], k);
+    for (const store of stores) {
+      if (queryEmbedding[0].length !== store.getDimension()) {
+        throw new Error(
+          `Query embedding has dimension ${queryEmbedding[0].length} but the vector index has ${store.getDimension()}. Run 'pnpm seed-kb --full' to rebuild it.`
+        );
+      }
+    }
+
+    console.log("Using hybrid BM25 + embedding search");
+    attributes.mode = "hybrid";
+    rankings = stores.map((store) => store.hybridSearch(query, queryEmbedding[0], k, options));
+  } else {
+    // Fallback to keyword search (for serverless environments)
+    console.log("Using BM25 keyword search (fallback)");
+    attributes.mode = "bm25";
+    rankings = stores.map((store) => store.keywordSearch(query, k, options.filter));
   }
 
-  // Fallback to keyword search (for serverless environments)
-  console.log("Using keyword-based search (fallback)");
-  return store.keywordSearch(query, k);
+  return rankings.length === 1 ? rankings[0] : fuseRankings(rankings, k);
 }
 
-export { textSplitter, generateEmbeddings, SimpleVectorStore };
+export { textSplitter, generateEmbeddings, cosineSimilarity, SimpleVectorStore };
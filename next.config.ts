@@ -6,6 +6,7 @@ const nextConfig: NextConfig = {
     "@xenova/transformers",
     "pdf-parse",
     "mammoth",
+    "exceljs",
   ],
 
   // Empty turbopack config to use Turbopack (Next.js 16 default)
@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from "next/server";
+import { findApiKey, isAuthRequired, recordUsage, scopeForPath, utcDay } from "@/lib/ai/apikeys";
+import { errorResponse, internalError } from "@/lib/ai/errors";
+import { takeToken } from "@/lib/ai/ratelimit";
+
+// API key authentication and per-key rate limiting for every API route
+
+// "Authorization: Bearer <key>" or "X-API-Key: <key>"
+function requestKey(req: NextRequest): string | null {
+  const authorization = req.headers.get("authorization");
+  if (authorization?.toLowerCase().startsWith("bearer ")) {
+    return authorization.slice(7).trim();
+  }
+  return req.headers.get("x-api-key")?.trim() || null;
+}
+
+function secondsUntilNextUtcDay(now: Date = new Date()): number {
+  const next = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1);
+  return Math.ceil((next - now.getTime()) / 1000);
+}
+
+function tooManyRequests(code: "rate_limited" | "quota_exceeded", message: string, retryAfterSeconds: number) {
+  return errorResponse(code, message, { headers: { "Retry-After": String(retryAfterSeconds) } });
+}
+
+export function proxy(req: NextRequest) {
+  const scope = scopeForPath(req.nextUrl.pathname);
+  if (!scope) return NextResponse.next();
+
+  try {
+    // Admin routes always need a key, even before the first one exists (or
+    // with API_AUTH=off), so nobody can mint keys on a fresh server; the
+    // first key is created with `pnpm api-key`
+    if (scope !== "admin" && !isAuthRequired()) return NextResponse.next();
+
+    const secret = requestKey(req);
+    const key = secret ? findApiKey(secret) : null;
+    if (!key) {
+      return errorResponse("unauthorized", secret ? "Invalid or revoked API key" : "API key required", {
+        headers: { "WWW-Authenticate": "Bearer" },
+      });
+    }
+
+    if (!key.scopes.includes(scope)) {
+      return errorResponse("forbidden", `API key "${key.name}" does not have the "${scope}" scope`);
+    }
+
+    const { quotas } = key;
+    const today = key.usage.days[utcDay()];
+    if (quotas.requestsPerDay !== undefined && (today?.requests ?? 0) >= quotas.requestsPerDay) {
+      recordUsage(key.id, scope, true);
+      return tooManyRequests(
+        "quota_exceeded",
+        `Daily quota of ${quotas.requestsPerDay} requests reached`,
+        secondsUntilNextUtcDay()
+      );
+    }
+
+    const limit = takeToken(key.id, {
+      capacity: quotas.burst,
+      refillPerSecond: quotas.requestsPerMinute / 60,
+    });
+    if (!limit.allowed) {
+      recordUsage(key.id, scope, true);
+      return tooManyRequests(
+        "rate_limited",
+        `Rate limit of ${quotas.requestsPerMinute} requests per minute exceeded`,
+        limit.retryAfterSeconds
+      );
+    }
+
+    recordUsage(key.id, scope);
+    const response = NextResponse.next();
+    response.headers.set("X-RateLimit-Limit", String(quotas.burst));
+    response.headers.set("X-RateLimit-Remaining", String(limit.remaining));
+    return response;
+  } catch (error) {
+    return internalError("Failed to check API key", error);
+  }
+}
+
+export const config = {
+  matcher: "/api/:path*",
+};
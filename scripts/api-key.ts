@@ -0,0 +1,102 @@
+/**
+ * API Key Script
+ *
+ * Creates, lists and revokes API keys for the HTTP API. Creating the first
+ * key turns authentication on (unless API_AUTH=off), so start with a key
+ * that has the admin scope. Admin routes always need a key, so this script
+ * is the only way to create the first one.
+ *
+ * Usage: pnpm api-key create --name "Unity scene" --scopes chat,speech
+ *          [--rpm 30] [--burst 10] [--daily 1000]
+ * Or: pnpm api-key list
+ * Or: pnpm api-key revoke <id>
+ */
+
+import {
+  API_SCOPES,
+  ApiKeyInfo,
+  ApiKeyQuotas,
+  ApiScope,
+  createApiKey,
+  listApiKeys,
+  revokeApiKey,
+  utcDay,
+} from "../lib/ai/apikeys";
+
+function stringArg(name: string): string | undefined {
+  const i = process.argv.indexOf(`--${name}`);
+  return i >= 0 ? process.argv[i + 1] : undefined;
+}
+
+function numberArg(name: string): number | undefined {
+  const value = stringArg(name);
+  return value === undefined ? undefined : Number(value);
+}
+
+function printKey(key: ApiKeyInfo) {
+  const status = key.revokedAt ? `revoked ${key.revokedAt}` : "active";
+  const { requestsPerMinute, burst, requestsPerDay } = key.quotas;
+  const today = key.usage.days[utcDay()]?.requests ?? 0;
+
+  console.log(`${key.id}  ${key.prefix}…  ${key.name} (${status})`);
+  console.log(`  Scopes: ${key.scopes.join(", ")}`);
+  console.log(
+    `  Quotas: ${requestsPerMinute}/min, burst ${burst}${requestsPerDay ? `, ${requestsPerDay}/day` : ""}`
+  );
+  console.log(
+    `  Usage:  ${key.usage.requests} requests (${today} today), ${key.usage.rejected} rejected, last used ${key.usage.lastUsedAt ?? "never"}`
+  );
+}
+
+function create() {
+  const name = stringArg("name");
+  const scopes = (stringArg("scopes") ?? "").split(",").filter(Boolean);
+  if (!name || scopes.length === 0) {
+    throw new Error('Expected --name "..." --scopes scope1,scope2');
+  }
+
+  const invalid = scopes.filter((scope) => !API_SCOPES.includes(scope as ApiScope));
+  if (invalid.length > 0) {
+    throw new Error(`Unknown scopes: ${invalid.join(", ")} (expected some of: ${API_SCOPES.join(", ")})`);
+  }
+
+  const quotas: Partial<ApiKeyQuotas> = {
+    requestsPerMinute: numberArg("rpm"),
+    burst: numberArg("burst"),
+    requestsPerDay: numberArg("daily"),
+  };
+  for (const [name, value] of Object.entries(quotas)) {
+    if (value === undefined) delete quotas[name as keyof ApiKeyQuotas];
+    else if (!(value > 0)) throw new Error(`Invalid ${name}: expected a positive number`);
+  }
+
+  const { key, secret } = createApiKey({ name, scopes: scopes as ApiScope[], quotas });
+  printKey(key);
+  console.log();
+  console.log(`Key (shown once, store it now): ${secret}`);
+}
+
+function run() {
+  const [command, id] = process.argv.slice(2);
+
+  if (command === "create") {
+    create();
+  } else if (command === "list") {
+    const keys = listApiKeys();
+    if (keys.length === 0) console.log("No API keys.");
+    keys.forEach(printKey);
+  } else if (command === "revoke" && id) {
+    const key = revokeApiKey(id);
+    if (!key) throw new Error(`API key not found: ${id}`);
+    printKey(key);
+  } else {
+    throw new Error("Expected create, list or revoke <id>");
+  }
+}
+
+try {
+  run();
+} catch (error) {
+  console.error("API key command failed:", error instanceof Error ? error.message : error);
+  process.exit(1);
+}
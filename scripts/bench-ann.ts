@@ -0,0 +1,102 @@
+/**
+ * ANN Benchmark Script
+ *
+ * Compares HNSW search against brute-force cosine similarity: recall@k and
+ * query latency for a range of efSearch values.
+ *
+ * Usage: pnpm bench-ann                   (uses the seeded vector index)
+ * Or: pnpm bench-ann --synthetic 20000    (random 384-d vectors)
+ * Options: --k 5 --queries 200 --M 16 --efConstruction 200
+ */
+
+import { getVectorStore, SimpleVectorStore } from "../lib/kb/vectorstore";
+import { DEFAULT_HNSW_PARAMS } from "../lib/kb/hnsw";
+
+const EF_VALUES = [16, 32, 64, 128, 256];
+
+function arg(name: string, fallback: number): number {
+  const i = process.argv.indexOf(`--${name}`);
+  return i >= 0 ? Number(process.argv[i + 1]) : fallback;
+}
+
+function randomUnitVector(dim: number): number[] {
+  const v = Array.from({ length: dim }, () => Math.random() * 2 - 1);
+  const norm = Math.sqrt(v.reduce((sum, x) => sum + x * x, 0));
+  return v.map((x) => x / norm);
+}
+
+// Nearby query: an indexed vector plus noise, so neighbours are meaningful
+function perturb(vector: ArrayLike<number>, amount: number): number[] {
+  return Array.from(vector, (x) => x + (Math.random() * 2 - 1) * amount);
+}
+
+async function loadStore(): Promise<SimpleVectorStore> {
+  const synthetic = arg("synthetic", 0);
+  if (!synthetic) {
+    return getVectorStore();
+  }
+
+  console.log(`Generating ${synthetic} synthetic 384-d vectors...`);
+  const store = new SimpleVectorStore();
+  store.loadEntries(
+    Array.from({ length: synthetic }, (_, i) => ({
+      content: `synthetic ${i}`,
+      embedding: randomUnitVector(384),
+      metadata: {},
+    }))
+  );
+  return store;
+}
+
+async function runBenchmark() {
+  const k = arg("k", 5);
+  const queryCount = arg("queries", 200);
+  const M = arg("M", DEFAULT_HNSW_PARAMS.M);
+  const efConstruction = arg("efConstruction", DEFAULT_HNSW_PARAMS.efConstruction);
+
+  console.log("=".repeat(50));
+  console.log("VEFC ANN Benchmark");
+  console.log("=".repeat(50));
+
+  const store = await loadStore();
+  const entries = store.getEntries();
+  console.log(`Entries: ${entries.length}, dimension: ${store.getDimension()}`);
+
+  let start = performance.now();
+  store.buildAnnIndex({ M, efConstruction });
+  console.log(`HNSW build (M=${M}, efConstruction=${efConstruction}): ${(performance.now() - start).toFixed(0)} ms`);
+
+  const queries = Array.from({ length: queryCount }, () =>
+    perturb(entries[Math.floor(Math.random() * entries.length)].embedding, 0.05)
+  );
+
+  // Ground truth from brute force
+  start = performance.now();
+  const truth = queries.map((q) =>
+    new Set(store.vectorSearch(q, k, undefined, { exact: true }).map((r) => r.index))
+  );
+  const bruteMs = (performance.now() - start) / queryCount;
+
+  console.log();
+  console.log(`brute force: ${bruteMs.toFixed(3)} ms/query, recall@${k} 1.000`);
+
+  const ann = store.getAnnIndex();
+  for (const ef of EF_VALUES) {
+    let hits = 0;
+    start = performance.now();
+    const results = queries.map((q) => ann.search(q, k, ef));
+    const annMs = (performance.now() - start) / queryCount;
+
+    results.forEach((result, i) => {
+      hits += result.filter((r) => truth[i].has(r.index)).length;
+    });
+
+    const recall = hits / (queryCount * Math.min(k, entries.length));
+    console.log(`efSearch=${String(ef).padEnd(4)} ${annMs.toFixed(3)} ms/query, recall@${k} ${recall.toFixed(3)}`);
+  }
+}
+
+runBenchmark().catch((error) => {
+  console.error("Benchmark failed:", error);
+  process.exit(1);
+});
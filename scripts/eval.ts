@@ -0,0 +1,134 @@
+/**
+ * Evaluation Script
+ *
+ * Runs the golden question set (eval/golden.json) through retrieval and the
+ * RAG chain and reports recall@k and MRR of the expected source documents,
+ * exact match of expected DOT code / SVP / strength facts, and an LLM
+ * judge's score of each answer against its reference answer.
+ *
+ * Each run is saved to eval/results/ and compared with the previous run
+ * (or the run given with --compare).
+ *
+ * Usage: pnpm eval
+ * Or: pnpm eval --mock                     (offline: answers and judging by mock:extractive)
+ * Options: --golden eval/golden.json --k 5 --model groq:llama-3.3-70b-versatile
+ *          --judge-model provider:model --retrieval-only --rerank none
+ *          --compare eval/results/<run>.json --no-save
+ */
+
+import path from "path";
+import {
+  DEFAULT_GOLDEN_PATH,
+  diffEvalRuns,
+  EvalRun,
+  latestEvalRun,
+  loadEvalRun,
+  QuestionResult,
+  runEval,
+  saveEvalRun,
+} from "../lib/ai/eval";
+import { createMockModel } from "../lib/ai/mock";
+import { registerProvider } from "../lib/ai/providers";
+import { RerankMode } from "../lib/ai/rerank";
+
+const MOCK_MODEL = "mock:extractive";
+
+// The offline model is available to evals only
+registerProvider("mock", createMockModel);
+
+function stringArg(name: string): string | undefined {
+  const i = process.argv.indexOf(`--${name}`);
+  return i >= 0 ? process.argv[i + 1] : undefined;
+}
+
+function formatMetric(value: number | null): string {
+  return value === null ? "-" : value.toFixed(3);
+}
+
+function printResult(result: QuestionResult, index: number) {
+  const parts = [`recall ${result.recall.toFixed(2)}`, `RR ${result.reciprocalRank.toFixed(2)}`];
+  if (result.exactMatch !== undefined && result.exactMatch !== null) {
+    parts.push(result.exactMatch ? "facts ok" : `missing ${result.missingFacts?.join(", ")}`);
+  }
+  if (result.judge) parts.push(`judge ${result.judge.verdict}`);
+  if (result.unsupportedClaims) parts.push(`${result.unsupportedClaims} unsupported`);
+  if (result.error) parts.push(`error: ${result.error}`);
+
+  console.log(`  ${String(index + 1).padStart(2)}. ${result.id}: ${parts.join(", ")}`);
+}
+
+function printSummary(run: EvalRun) {
+  const { summary } = run;
+  console.log(`Questions:          ${summary.questions}${summary.errors ? ` (${summary.errors} failed)` : ""}`);
+  console.log(`Recall@${run.k}:           ${formatMetric(summary.recallAtK)}`);
+  console.log(`MRR:                ${formatMetric(summary.mrr)}`);
+  console.log(`Fact exact match:   ${formatMetric(summary.exactMatch)}`);
+  console.log(`Judge score:        ${formatMetric(summary.judgeScore)}`);
+  console.log(`Unsupported claims: ${formatMetric(summary.unsupportedClaims)} per answer`);
+}
+
+function printDiff(before: EvalRun, after: EvalRun, beforePath: string) {
+  const diff = diffEvalRuns(before, after);
+  console.log(`Compared with ${path.relative(process.cwd(), beforePath)}:`);
+
+  const metrics = Object.entries(diff.metrics);
+  if (metrics.length === 0 && diff.questions.length === 0) {
+    console.log("  No changes.");
+    return;
+  }
+  for (const [name, [a, b]] of metrics) {
+    const delta = a !== null && b !== null ? ` (${b - a >= 0 ? "+" : ""}${(b - a).toFixed(3)})` : "";
+    console.log(`  ${name}: ${formatMetric(a)} -> ${formatMetric(b)}${delta}`);
+  }
+  for (const question of diff.questions) {
+    console.log(`  ${question.id}: ${question.changes.join("; ")}`);
+  }
+}
+
+async function runEvaluation() {
+  const mock = process.argv.includes("--mock");
+  const goldenPath = path.resolve(stringArg("golden") ?? DEFAULT_GOLDEN_PATH);
+  const k = Number(stringArg("k") ?? 5);
+  const model = mock ? MOCK_MODEL : stringArg("model");
+  const judgeModel = mock ? MOCK_MODEL : stringArg("judge-model");
+  const rerank = stringArg("rerank") as RerankMode | undefined;
+
+  // Keep the fallback chain offline too
+  if (mock) process.env.LLM_MODELS = MOCK_MODEL;
+
+  console.log("=".repeat(50));
+  console.log("VEFC Evaluation");
+  console.log("=".repeat(50));
+  console.log(`Golden set: ${path.relative(process.cwd(), goldenPath)}`);
+  console.log();
+
+  const previousPath = stringArg("compare") ?? latestEvalRun();
+
+  const run = await runEval(goldenPath, {
+    k,
+    retrievalOnly: process.argv.includes("--retrieval-only"),
+    model,
+    judgeModel,
+    chain: { rerank: { mode: rerank } },
+    onResult: printResult,
+  });
+
+  console.log();
+  printSummary(run);
+
+  if (!process.argv.includes("--no-save")) {
+    const savedPath = saveEvalRun(run);
+    console.log();
+    console.log(`Results saved to ${path.relative(process.cwd(), savedPath)}`);
+  }
+
+  if (previousPath) {
+    console.log();
+    printDiff(loadEvalRun(previousPath), run, previousPath);
+  }
+}
+
+runEvaluation().catch((error) => {
+  console.error("Evaluation failed:", error);
+  process.exit(1);
+});
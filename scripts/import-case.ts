@@ -0,0 +1,72 @@
+/**
+ * Case Import Script
+ *
+ * Copies a claimant's documents into a case workspace and indexes them
+ * there, so they are only searched by requests that select the case (never
+ * by the shared KB). The case is created if none has the name yet;
+ * importing a file again replaces it.
+ *
+ * Usage: pnpm import-case --name "Michael (7110)" [--type other] <file...>
+ * Example: pnpm import-case --name "Michael (7110)" "../KB/Avatar Knowledge/7110 "*.docx
+ */
+
+import fs from "fs";
+import path from "path";
+import {
+  addCaseFiles,
+  CASE_DOCUMENT_TYPES,
+  CaseDocumentType,
+  createCase,
+  findCaseByName,
+} from "../lib/kb/cases";
+
+const OPTIONS = ["name", "type"];
+
+function stringArg(name: string): string | undefined {
+  const i = process.argv.indexOf(`--${name}`);
+  return i >= 0 ? process.argv[i + 1] : undefined;
+}
+
+// Arguments that are neither options nor their values
+function fileArgs(): string[] {
+  const args = process.argv.slice(2);
+  return args.filter((arg, i) => !arg.startsWith("--") && !OPTIONS.some((name) => args[i - 1] === `--${name}`));
+}
+
+async function importCase() {
+  const name = stringArg("name");
+  const documentType = (stringArg("type") ?? "other") as CaseDocumentType;
+  const files = fileArgs();
+
+  if (!name || files.length === 0) {
+    console.error('Usage: pnpm import-case --name "Case name" [--type other] <file...>');
+    process.exit(1);
+  }
+  if (!CASE_DOCUMENT_TYPES.includes(documentType)) {
+    console.error(`--type must be one of: ${CASE_DOCUMENT_TYPES.join(", ")}`);
+    process.exit(1);
+  }
+  const missing = files.filter((file) => !fs.existsSync(file));
+  if (missing.length > 0) {
+    console.error(`Not found: ${missing.join(", ")}`);
+    process.exit(1);
+  }
+
+  const existing = findCaseByName(name);
+  const workspace = existing ?? createCase(name);
+  console.log(`${existing ? "Updating" : "Created"} case "${workspace.name}" (${workspace.id})`);
+
+  const result = await addCaseFiles(
+    workspace.id,
+    files.map((file) => ({ fileName: path.basename(file), data: fs.readFileSync(file), documentType }))
+  );
+  for (const file of result?.diff ?? []) {
+    console.log(`  [${file.status}] ${file.fileName}: +${file.added} added, ~${file.updated} updated, -${file.removed} removed`);
+  }
+  console.log(`Select the case with "caseId": "${workspace.id}"`);
+}
+
+importCase().catch((error) => {
+  console.error("Case import failed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,24 @@
+/**
+ * OpenAPI Script
+ *
+ * Writes the API document generated from the request and response schemas
+ * (lib/ai/schemas.ts) to openapi.json, for building the Unity and web
+ * clients. Run it after changing a schema and commit the result.
+ *
+ * Usage: pnpm openapi [--out openapi.json]
+ */
+
+import fs from "fs";
+import path from "path";
+import { buildOpenAPIDocument } from "../lib/ai/openapi";
+
+const i = process.argv.indexOf("--out");
+const outPath = path.resolve(i >= 0 ? process.argv[i + 1] : "openapi.json");
+
+try {
+  fs.writeFileSync(outPath, `${JSON.stringify(buildOpenAPIDocument(), null, 2)}\n`);
+  console.log(`OpenAPI document written to ${path.relative(process.cwd(), outPath)}`);
+} catch (error) {
+  console.error("Writing the OpenAPI document failed:", error);
+  process.exit(1);
+}
@@ -4,14 +4,44 @@
  * This script loads all KB documents and indexes them into the Chroma vector store.
  * Run this once before starting the chatbot, or whenever KB documents are updated.
  *
+ * Only new or changed chunks are embedded; pass --full to re-embed everything.
+ * --M and --efConstruction tune the HNSW graph (see pnpm bench-ann).
+ * Cached chat answers are cleared, since they cite the previous index.
+ *
  * Usage: npx ts-node scripts/seed-kb.ts
- * Or: pnpm seed-kb
+ * Or: pnpm seed-kb [--full] [--M 16] [--efConstruction 200]
  */
 
+import { clearAnswerCache } from "../lib/ai/answercache";
 import { loadKBDocuments } from "../lib/kb/loader";
-import { createVectorStore } from "../lib/kb/vectorstore";
+import { indexDocuments, FileIndexDiff } from "../lib/kb/vectorstore";
+import { extractOccupations } from "../lib/kb/skilltran";
+import { saveOccupations } from "../lib/kb/occupations";
+
+function printDiffSummary(diff: FileIndexDiff[]) {
+  console.log("Index changes:");
+  for (const file of diff) {
+    console.log(
+      `  [${file.status}] ${file.fileName}: +${file.added} added, ~${file.updated} updated, -${file.removed} removed, ${file.unchanged} unchanged`
+    );
+  }
+
+  const total = (key: "added" | "updated" | "removed" | "unchanged") =>
+    diff.reduce((sum, file) => sum + file[key], 0);
+  console.log(
+    `  Total: +${total("added")} added, ~${total("updated")} updated, -${total("removed")} removed, ${total("unchanged")} unchanged`
+  );
+}
+
+function numberArg(name: string): number | undefined {
+  const i = process.argv.indexOf(`--${name}`);
+  return i >= 0 ? Number(process.argv[i + 1]) : undefined;
+}
 
 async function seedKnowledgeBase() {
+  const full = process.argv.includes("--full");
+  const hnsw = { M: numberArg("M"), efConstruction: numberArg("efConstruction") };
+
   console.log("=".repeat(50));
   console.log("VEFC Knowledge Base Seeding Script");
   console.log("=".repeat(50));
@@ -30,8 +60,25 @@ async function seedKnowledgeBase() {
     console.log();
 
     // Step 2: Create vector store and index documents
-    console.log("Step 2: Creating vector store and indexing documents...");
-    await createVectorStore(documents);
+    console.log(
+      full
+        ? "Step 2: Rebuilding vector store (full re-embed)..."
+        : "Step 2: Updating vector store (incremental)..."
+    );
+    const { diff } = await indexDocuments(documents, { full, hnsw });
+    printDiffSummary(diff);
+    console.log(`Cleared ${clearAnswerCache()} cached answers.`);
+
+    console.log();
+
+    // Step 3: Extract structured occupation records from SkillTRAN reports
+    console.log("Step 3: Extracting structured occupation records...");
+    const occupations = extractOccupations(documents);
+    saveOccupations(occupations);
+    for (const occupation of occupations) {
+      console.log(`  ${occupation.dotCode} ${occupation.title}`);
+    }
+    console.log(`Extracted ${occupations.length} occupation records.`);
 
     console.log();
     console.log("=".repeat(50));
@@ -0,0 +1,9 @@
+import { fileURLToPath } from "url";
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  resolve: {
+    // Same "@/" imports as the app (tsconfig.json paths)
+    alias: { "@/": fileURLToPath(new URL("./", import.meta.url)) },
+  },
+});